@@ -1,8 +1,35 @@
 
-import React, { useState, useEffect, useRef } from 'react';
-import { AccountTier, TriageInput, TriageResult, HistoryItem, Priority, LiveTranscription } from './types';
-import { triageMessage, createPcmBlob, decodeBase64, decodeAudioData } from './geminiService';
-import { GoogleGenAI, Modality, LiveServerMessage } from '@google/genai';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { AccountTier, TriageInput, TriageResult, HistoryItem, Priority, LiveTranscription, TriageProviderId, SlaPolicy, KnowledgeArticle, TriageCategory, ReplyMacro, ReplyTone, ReplyDraft, SentReply, Incident, LiveIntakeDraft, VoiceSession, TriageServiceConfig, SenderTierRule } from './types';
+import { TRIAGE_PROVIDERS, getTriageProvider } from './triageProvider';
+import { DEFAULT_SERVICE_CONFIG } from './triageApi';
+import { createHistoryItem } from './historyUtils';
+import { DEFAULT_PRIORITY_POLICY, applyPriorityPolicy } from './priorityPolicy';
+import { redactReplyDraftRequest, redactTriageInput, redactVoiceSession, restorePii } from './piiRedaction';
+import BatchPanel from './components/BatchPanel';
+import HistoryPanel from './components/HistoryPanel';
+import TicketWorkflow from './components/TicketWorkflow';
+import KnowledgeBasePanel from './components/KnowledgeBasePanel';
+import ResultClassification from './components/ResultClassification';
+import CategoryTaxonomyEditor from './components/CategoryTaxonomyEditor';
+import ReplyComposer from './components/ReplyComposer';
+import IncidentPanel from './components/IncidentPanel';
+import AnalyticsDashboard from './components/AnalyticsDashboard';
+import { RECENT_WINDOW_MS, clusterIncidents, findDuplicates, findIncidentSpikes } from './incidentClustering';
+import { DEFAULT_MACROS, buildReplyDraftRequest } from './replyComposer';
+import { DEFAULT_CATEGORIES, withFallbackCategory } from './triageTaxonomy';
+import { DEFAULT_AGENT_LANGUAGE, LANGUAGES, languageLabel } from './languageUtils';
+import { buildKnowledgeIndex, isKnowledgeSource, knowledgeQuery } from './knowledgeBase';
+import { recordSentReply, retriageTicket } from './ticketLifecycle';
+import { DEFAULT_SLA_POLICY } from './slaPolicy';
+import { historyStore } from './historyStore';
+import { TriageCancelledError } from './triageErrors';
+import { AudioCapture, CAPTURE_CHUNK_MS, decodeAudioData, startAudioCapture } from './liveAudio';
+import { MAX_RECORDING_SECONDS, appendFragment, buildVoiceSession, closeTurn, createRecording } from './voiceSession';
+import VoiceSessionReplay from './components/VoiceSessionReplay';
+import { OUTPUT_SAMPLE_RATE, PCM_SAMPLE_RATE, decodeBase64, meterLevel } from './audioEncoding';
+import { LIVE_INTAKE_FIELDS, LIVE_MODEL, applyIntakeCall, callerTranscript, finalizeIntake, liveIntakeConfig, missingIntakeFields } from './liveIntake';
+import { GoogleGenAI, LiveServerMessage } from '@google/genai';
 
 const App: React.FC = () => {
   const [input, setInput] = useState<TriageInput>({
@@ -12,113 +39,409 @@ const App: React.FC = () => {
     use_search: false
   });
   const [loading, setLoading] = useState(false);
+  // Each running call can be cancelled from its own button.
+  const triageAbortRef = useRef<AbortController | null>(null);
+  const retriageAbortRef = useRef<AbortController | null>(null);
+  const redraftAbortRef = useRef<AbortController | null>(null);
   const [result, setResult] = useState<HistoryItem | null>(null);
-  const [history, setHistory] = useState<HistoryItem[]>(() => {
-    const saved = localStorage.getItem('helpflow_history');
-    if (!saved) return [];
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const [providerId, setProviderId] = useState<TriageProviderId>(
+    () => (localStorage.getItem('helpflow_provider') as TriageProviderId) || 'auto'
+  );
+  const [serviceConfig, setServiceConfig] = useState<TriageServiceConfig>(() => {
+    try {
+      return { ...DEFAULT_SERVICE_CONFIG, ...JSON.parse(localStorage.getItem('helpflow_service') || '{}') };
+    } catch {
+      return DEFAULT_SERVICE_CONFIG;
+    }
+  });
+  const [disabledPolicyRules, setDisabledPolicyRules] = useState<string[]>(() => {
+    try {
+      return JSON.parse(localStorage.getItem('helpflow_policy_disabled') || '[]');
+    } catch {
+      return [];
+    }
+  });
+  const [piiSettings, setPiiSettings] = useState<{ redact: boolean; storeRedacted: boolean }>(() => {
+    try {
+      return { redact: true, storeRedacted: false, ...JSON.parse(localStorage.getItem('helpflow_pii') || '{}') };
+    } catch {
+      return { redact: true, storeRedacted: false };
+    }
+  });
+  const [agentName, setAgentName] = useState(() => localStorage.getItem('helpflow_agent') || 'Agent');
+  const [retriaging, setRetriaging] = useState(false);
+  const [kbArticles, setKbArticles] = useState<KnowledgeArticle[]>(() => {
+    try {
+      return JSON.parse(localStorage.getItem('helpflow_kb') || '[]');
+    } catch {
+      return [];
+    }
+  });
+  const [categories, setCategories] = useState<TriageCategory[]>(() => {
+    try {
+      const saved = JSON.parse(localStorage.getItem('helpflow_categories') || 'null');
+      return Array.isArray(saved) ? withFallbackCategory(saved) : DEFAULT_CATEGORIES;
+    } catch {
+      return DEFAULT_CATEGORIES;
+    }
+  });
+  const [agentLanguage, setAgentLanguage] = useState(() => localStorage.getItem('helpflow_agent_language') || DEFAULT_AGENT_LANGUAGE);
+  const [macros, setMacros] = useState<ReplyMacro[]>(() => {
+    try {
+      return JSON.parse(localStorage.getItem('helpflow_macros') || 'null') || DEFAULT_MACROS;
+    } catch {
+      return DEFAULT_MACROS;
+    }
+  });
+  const [openArticleUri, setOpenArticleUri] = useState<string | null>(null);
+  const [slaPolicy, setSlaPolicy] = useState<SlaPolicy>(() => {
     try {
-      return JSON.parse(saved).map((h: any) => ({ ...h, timestamp: new Date(h.timestamp) }));
+      return { ...DEFAULT_SLA_POLICY, ...JSON.parse(localStorage.getItem('helpflow_sla') || '{}') };
+    } catch {
+      return DEFAULT_SLA_POLICY;
+    }
+  });
+  const [recentItems, setRecentItems] = useState<HistoryItem[]>([]);
+  const [declaredIncidents, setDeclaredIncidents] = useState<string[]>(() => {
+    try {
+      return JSON.parse(localStorage.getItem('helpflow_incidents') || '[]');
+    } catch {
+      return [];
+    }
+  });
+  const [senderRules, setSenderRules] = useState<SenderTierRule[]>(() => {
+    try {
+      return JSON.parse(localStorage.getItem('helpflow_sender_tiers') || '[]');
     } catch {
       return [];
     }
   });
+  const [dismissedSpikes, setDismissedSpikes] = useState<string[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [copyStatus, setCopyStatus] = useState<string | null>(null);
 
+  const [isBatchMode, setIsBatchMode] = useState(false);
+  const [isDashboardMode, setIsDashboardMode] = useState(false);
+
   // Live Audio State
   const [isLiveMode, setIsLiveMode] = useState(false);
   const [liveTranscription, setLiveTranscription] = useState<LiveTranscription[]>([]);
-  const audioContextsRef = useRef<{ input: AudioContext; output: AudioContext } | null>(null);
+  const [liveDraft, setLiveDraft] = useState<LiveIntakeDraft>({});
+  // Session callbacks outlive renders, so they read and write the draft, transcript and form through refs.
+  const liveDraftRef = useRef<LiveIntakeDraft>({});
+  const liveTranscriptionRef = useRef<LiveTranscription[]>([]);
+  const inputRef = useRef(input);
+  inputRef.current = input;
+  const [liveLevel, setLiveLevel] = useState({ level: 0, speaking: false });
+  const captureRef = useRef<AudioCapture | null>(null);
+  const [recordCalls, setRecordCalls] = useState(() => localStorage.getItem('helpflow_record_calls') === 'true');
+  const liveStartedAtRef = useRef('');
+  const recordingRef = useRef<{ chunks: Float32Array[]; startedAt: string }>({ chunks: [], startedAt: '' });
+  const outputContextRef = useRef<AudioContext | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
   const sessionRef = useRef<any>(null);
   const nextStartTimeRef = useRef(0);
   const activeSourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
 
   useEffect(() => {
-    localStorage.setItem('helpflow_history', JSON.stringify(history));
-  }, [history]);
+    localStorage.setItem('helpflow_provider', providerId);
+  }, [providerId]);
+
+  useEffect(() => {
+    localStorage.setItem('helpflow_service', JSON.stringify(serviceConfig));
+  }, [serviceConfig]);
+
+  useEffect(() => {
+    localStorage.setItem('helpflow_policy_disabled', JSON.stringify(disabledPolicyRules));
+  }, [disabledPolicyRules]);
 
-  const handleTriage = async (e?: React.FormEvent, overrideInput?: TriageInput) => {
+  useEffect(() => {
+    localStorage.setItem('helpflow_pii', JSON.stringify(piiSettings));
+  }, [piiSettings]);
+
+  useEffect(() => {
+    localStorage.setItem('helpflow_agent', agentName);
+  }, [agentName]);
+
+  useEffect(() => {
+    localStorage.setItem('helpflow_sla', JSON.stringify(slaPolicy));
+  }, [slaPolicy]);
+
+  useEffect(() => {
+    localStorage.setItem('helpflow_categories', JSON.stringify(categories));
+  }, [categories]);
+
+  useEffect(() => {
+    localStorage.setItem('helpflow_agent_language', agentLanguage);
+  }, [agentLanguage]);
+
+  useEffect(() => {
+    localStorage.setItem('helpflow_macros', JSON.stringify(macros));
+  }, [macros]);
+
+  useEffect(() => {
+    localStorage.setItem('helpflow_record_calls', String(recordCalls));
+  }, [recordCalls]);
+
+  useEffect(() => {
+    localStorage.setItem('helpflow_incidents', JSON.stringify(declaredIncidents));
+  }, [declaredIncidents]);
+
+  useEffect(() => {
+    localStorage.setItem('helpflow_sender_tiers', JSON.stringify(senderRules));
+  }, [senderRules]);
+
+  // Duplicate checks and incident grouping only look at the recent window.
+  useEffect(() => {
+    let cancelled = false;
+    historyStore.query({ from: new Date(Date.now() - RECENT_WINDOW_MS) })
+      .then(({ items }) => { if (!cancelled) setRecentItems(items); })
+      .catch(err => console.error('Failed to load recent history', err));
+    return () => { cancelled = true; };
+  }, [historyVersion]);
+
+  const incidents = useMemo(() => clusterIncidents(recentItems), [recentItems]);
+  const spikes = findIncidentSpikes(incidents, recentItems)
+    .filter(incident => !declaredIncidents.includes(incident.id) && !dismissedSpikes.includes(incident.id));
+
+  useEffect(() => {
+    try {
+      localStorage.setItem('helpflow_kb', JSON.stringify(kbArticles));
+    } catch (err) {
+      console.warn('Knowledge base is too large to keep between sessions', err);
+    }
+  }, [kbArticles]);
+
+  const knowledgeIndex = useMemo(() => buildKnowledgeIndex(kbArticles), [kbArticles]);
+
+  const policyRules = DEFAULT_PRIORITY_POLICY.map(rule => ({ ...rule, enabled: !disabledPolicyRules.includes(rule.id) }));
+
+  const togglePolicyRule = (id: string) => {
+    setDisabledPolicyRules(prev => prev.includes(id) ? prev.filter(r => r !== id) : [...prev, id]);
+  };
+
+  // Every triage path redacts PII, goes through the selected engine and the priority policy cross-check.
+  // `item` is shown to the agent with real values restored; `stored` is what goes into history.
+  const runTriage = async (triageInput: TriageInput, signal?: AbortSignal): Promise<{ item: HistoryItem; stored: HistoryItem }> => {
+    const { input: safeInput, entries } = piiSettings.redact
+      ? redactTriageInput(triageInput)
+      : { input: triageInput, entries: [] };
+    const knowledge = safeInput.use_knowledge_base ? knowledgeIndex.search(knowledgeQuery(safeInput)) : undefined;
+    const triaged = applyPriorityPolicy(await getTriageProvider(providerId).triage(safeInput, { knowledge, categories, agentLanguage, service: serviceConfig, signal }), triageInput, policyRules);
+    const redacted: HistoryItem = {
+      ...createHistoryItem(triaged, safeInput),
+      redactions: entries.map(({ placeholder, type }) => ({ placeholder, type }))
+    };
+    const item: HistoryItem = {
+      ...redacted,
+      input: { ...triageInput },
+      reply: restorePii(triaged.reply, entries),
+      reply_translation: triaged.reply_translation && restorePii(triaged.reply_translation, entries)
+    };
+    return { item, stored: piiSettings.storeRedacted ? redacted : item };
+  };
+
+  // Compares against history as stored, so redacted records are matched with redacted text.
+  const flagDuplicates = async ({ item, stored }: { item: HistoryItem; stored: HistoryItem }) => {
+    const { items: recent } = await historyStore.query({ from: new Date(Date.now() - RECENT_WINDOW_MS) });
+    const matches = findDuplicates(stored.input, recent, stored.id);
+    if (matches.length === 0) return { item, stored };
+    return { item: { ...item, possible_duplicates: matches }, stored: { ...stored, possible_duplicates: matches } };
+  };
+
+  const selectTicket = async (id: string) => {
+    const item = await historyStore.get(id);
+    if (!item) return;
+    setResult(item);
+    setIsBatchMode(false); setIsDashboardMode(false);
+  };
+
+  const declareIncident = (incident: Incident) => {
+    setDeclaredIncidents(prev => prev.includes(incident.id) ? prev : [...prev, incident.id]);
+  };
+
+  const saveHistoryItem = async (item: HistoryItem) => {
+    await historyStore.put(item);
+    setHistoryVersion(v => v + 1);
+  };
+
+  const handleTriage = async (e?: React.FormEvent, overrideInput?: TriageInput, voiceSession?: VoiceSession) => {
     e?.preventDefault();
     const finalInput = overrideInput || input;
     if (!finalInput.customer_message.trim()) return;
 
     setLoading(true);
     setError(null);
+    const controller = new AbortController();
+    triageAbortRef.current = controller;
     try {
-      const triaged = await triageMessage(finalInput);
-      
-      const newHistoryItem: HistoryItem = {
-        ...triaged,
-        id: Math.random().toString(36).substring(2, 9),
-        timestamp: new Date(),
-        input: { ...finalInput }
-      };
-      setResult(newHistoryItem);
-      setHistory(prev => [newHistoryItem, ...prev]);
+      let { item, stored } = await flagDuplicates(await runTriage(finalInput, controller.signal));
+      if (voiceSession) {
+        item = { ...item, voice_session: voiceSession };
+        stored = { ...stored, voice_session: piiSettings.redact && piiSettings.storeRedacted ? redactVoiceSession(voiceSession, finalInput) : voiceSession };
+      }
+      setResult(item);
+      await saveHistoryItem(stored);
     } catch (err: any) {
-      setError(err.message || "An unexpected error occurred during triage.");
+      if (!(err instanceof TriageCancelledError)) setError(err.message || "An unexpected error occurred during triage.");
     } finally {
       setLoading(false);
+      triageAbortRef.current = null;
+    }
+  };
+
+  // Workflow changes are applied to both the stored record and the item on screen,
+  // since the stored copy may hold the redacted input.
+  const updateTicket = async (
+    update: (item: HistoryItem) => HistoryItem,
+    updateDisplayed: (item: HistoryItem) => HistoryItem = update
+  ) => {
+    if (!result) return;
+    const stored = await historyStore.get(result.id);
+    if (stored) await saveHistoryItem(update(stored));
+    setResult(updateDisplayed(result));
+  };
+
+  // Resolves to whether the ticket was updated, so the workflow keeps the draft after a failure or cancel.
+  const handleRetriage = async (editedInput: TriageInput, action: 'retriage' | 'follow_up' = 'retriage'): Promise<boolean> => {
+    if (!result) return false;
+    setRetriaging(true);
+    setError(null);
+    const controller = new AbortController();
+    retriageAbortRef.current = controller;
+    try {
+      const { item, stored } = await runTriage(editedInput, controller.signal);
+      await updateTicket(
+        current => retriageTicket(current, stored, agentName, action),
+        current => retriageTicket(current, item, agentName, action)
+      );
+      return true;
+    } catch (err: any) {
+      if (!(err instanceof TriageCancelledError)) setError(err.message || "An unexpected error occurred during re-triage.");
+      return false;
+    } finally {
+      setRetriaging(false);
+      retriageAbortRef.current = null;
+    }
+  };
+
+  // Regenerated drafts go through the same redaction as triage; only the composer shows them until sent.
+  const handleRegenerateReply = async (tone: ReplyTone): Promise<ReplyDraft> => {
+    if (!result) throw new Error('No ticket selected.');
+    const request = buildReplyDraftRequest(result.input, result, tone);
+    const { request: safeRequest, entries } = piiSettings.redact
+      ? redactReplyDraftRequest(request)
+      : { request, entries: [] };
+    const controller = new AbortController();
+    redraftAbortRef.current = controller;
+    try {
+      const draft = await getTriageProvider(providerId).draftReply(safeRequest, { categories, agentLanguage, service: serviceConfig, signal: controller.signal });
+      return {
+        reply: restorePii(draft.reply, entries),
+        reply_translation: restorePii(draft.reply_translation, entries)
+      };
+    } finally {
+      redraftAbortRef.current = null;
     }
   };
 
+  // Redacting with the input first keeps placeholder numbering in line with the stored ticket.
+  const handleSendReply = async (reply: Omit<SentReply, 'at' | 'author'>) => {
+    if (!result) return;
+    const storedText = piiSettings.redact && piiSettings.storeRedacted
+      ? redactReplyDraftRequest(buildReplyDraftRequest(result.input, { ...result, reply: reply.text }, reply.tone)).request.result.reply
+      : reply.text;
+    await updateTicket(
+      current => recordSentReply(current, { ...reply, text: storedText }, agentName),
+      current => recordSentReply(current, reply, agentName)
+    );
+  };
+
+  // Batch rows share the selected engine and land in history as they complete.
+  const triageBatchRow = async (rowInput: TriageInput, signal?: AbortSignal): Promise<HistoryItem> => {
+    const { stored } = await flagDuplicates(await runTriage(rowInput, signal));
+    await saveHistoryItem(stored);
+    return stored;
+  };
+
+  const updateLiveTranscription = (update: (turns: LiveTranscription[]) => LiveTranscription[]) => {
+    liveTranscriptionRef.current = update(liveTranscriptionRef.current);
+    setLiveTranscription(liveTranscriptionRef.current);
+  };
+
   const startLiveTriage = async () => {
+    setIsBatchMode(false); setIsDashboardMode(false);
     setIsLiveMode(true);
     setError(null);
-    setLiveTranscription([]);
+    updateLiveTranscription(() => []);
+    liveDraftRef.current = {};
+    setLiveDraft({});
+    liveStartedAtRef.current = new Date().toISOString();
+    recordingRef.current = { chunks: [], startedAt: '' };
     
     try {
       const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
       streamRef.current = stream;
 
-      const inputCtx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-      const outputCtx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-      audioContextsRef.current = { input: inputCtx, output: outputCtx };
+      outputContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: OUTPUT_SAMPLE_RATE });
 
       const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
       const sessionPromise = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Zephyr' } }
-          },
-          inputAudioTranscription: {},
-          outputAudioTranscription: {},
-          systemInstruction: 'You are a supportive and professional HelpFlow intake agent. Listen to the customer\'s issue. Be brief and empathetic. Once you have enough details, summarize the problem clearly.'
-        },
+        model: LIVE_MODEL,
+        config: liveIntakeConfig(),
         callbacks: {
           onopen: () => {
-            const source = inputCtx.createMediaStreamSource(stream);
-            const scriptProcessor = inputCtx.createScriptProcessor(4096, 1, 1);
-            scriptProcessor.onaudioprocess = (e) => {
-              const pcmBlob = createPcmBlob(e.inputBuffer.getChannelData(0));
-              sessionPromise.then(session => session.sendRealtimeInput({ media: pcmBlob }));
-            };
-            source.connect(scriptProcessor);
-            scriptProcessor.connect(inputCtx.destination);
-            (scriptProcessor as any)._cleanup = () => {
-              source.disconnect();
-              scriptProcessor.disconnect();
-            };
+            startAudioCapture(stream, {
+              onChunk: (blob) => sessionPromise.then(session => session.sendRealtimeInput({ media: blob })),
+              // Silent chunks are not sent, so tell the server the utterance is over.
+              onSilence: () => sessionPromise.then(session => session.sendRealtimeInput({ audioStreamEnd: true })),
+              onLevel: (level, speaking) => setLiveLevel({ level, speaking }),
+              onAudio: recordCalls ? (samples) => {
+                const recording = recordingRef.current;
+                // Chunks arrive once they are full, so the first one started a chunk length earlier.
+                if (!recording.startedAt) recording.startedAt = new Date(Date.now() - CAPTURE_CHUNK_MS).toISOString();
+                // One chunk past the limit is enough for createRecording to mark the recording as cut.
+                if (recording.chunks.length * samples.length <= MAX_RECORDING_SECONDS * PCM_SAMPLE_RATE) recording.chunks.push(samples);
+              } : undefined
+            }).then(capture => {
+              // The session may have been stopped while the worklet was loading.
+              if (streamRef.current === stream) captureRef.current = capture;
+              else capture.stop();
+            }).catch(err => {
+              setError("Failed to start audio capture: " + err.message);
+              stopLiveTriage();
+            });
           },
           onmessage: async (msg: LiveServerMessage) => {
-            if (msg.serverContent?.inputTranscription) {
-              const text = msg.serverContent.inputTranscription.text;
-              setLiveTranscription(prev => [...prev, { text, isUser: true }]);
-            }
-            if (msg.serverContent?.outputTranscription) {
-              const text = msg.serverContent.outputTranscription.text;
-              setLiveTranscription(prev => [...prev, { text, isUser: false }]);
+            // Form updates from the intake agent are applied as they arrive and acknowledged with what is still missing.
+            const calls = msg.toolCall?.functionCalls;
+            if (calls?.length) {
+              const functionResponses = calls.map(call => {
+                const { draft, response } = applyIntakeCall(liveDraftRef.current, call);
+                liveDraftRef.current = draft;
+                return { id: call.id, name: call.name, response };
+              });
+              const draft = liveDraftRef.current;
+              setLiveDraft(draft);
+              setInput(prev => finalizeIntake(draft, [], prev));
+              sessionPromise.then(session => session.sendToolResponse({ functionResponses }));
             }
 
+            // Fragments are merged into speaker turns; an agent turn ends when it completes or is interrupted.
+            const at = new Date().toISOString();
+            const inputText = msg.serverContent?.inputTranscription?.text;
+            if (inputText) updateLiveTranscription(turns => appendFragment(turns, inputText, true, at));
+            const outputText = msg.serverContent?.outputTranscription?.text;
+            if (outputText) updateLiveTranscription(turns => appendFragment(turns, outputText, false, at));
+            if (msg.serverContent?.turnComplete || msg.serverContent?.interrupted) updateLiveTranscription(closeTurn);
+
             const base64Audio = msg.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
             if (base64Audio) {
-              const outCtx = audioContextsRef.current?.output;
+              const outCtx = outputContextRef.current;
               if (!outCtx) return;
               nextStartTimeRef.current = Math.max(nextStartTimeRef.current, outCtx.currentTime);
-              const buffer = await decodeAudioData(decodeBase64(base64Audio), outCtx, 24000, 1);
+              const buffer = decodeAudioData(decodeBase64(base64Audio), outCtx, OUTPUT_SAMPLE_RATE);
               const source = outCtx.createBufferSource();
               source.buffer = buffer;
               source.connect(outCtx.destination);
@@ -148,29 +471,27 @@ const App: React.FC = () => {
       streamRef.current.getTracks().forEach(t => t.stop());
       streamRef.current = null;
     }
-    if (audioContextsRef.current) {
-      audioContextsRef.current.input.close();
-      audioContextsRef.current.output.close();
-      audioContextsRef.current = null;
-    }
+    captureRef.current?.stop();
+    captureRef.current = null;
+    outputContextRef.current?.close();
+    outputContextRef.current = null;
+    setLiveLevel({ level: 0, speaking: false });
     if (sessionRef.current) {
       sessionRef.current.close();
       sessionRef.current = null;
     }
     setIsLiveMode(false);
 
-    // After stopping, if we have a transcription, let's auto-triage it
-    if (liveTranscription.length > 0) {
-      const fullTranscript = liveTranscription
-        .filter(t => t.isUser)
-        .map(t => t.text)
-        .join(' ');
-      
-      if (fullTranscript.trim()) {
-        const liveInput = { ...input, customer_message: fullTranscript };
-        setInput(liveInput);
-        handleTriage(undefined, liveInput);
-      }
+    // The collected fields become the triage input; the raw caller transcript is only a fallback.
+    // Error paths call this from the closure of an earlier render, so everything is read from refs.
+    const turns = liveTranscriptionRef.current;
+    const liveInput = finalizeIntake(liveDraftRef.current, turns, inputRef.current);
+    if (liveDraftRef.current.customer_message || callerTranscript(turns)) {
+      const { chunks, startedAt } = recordingRef.current;
+      const recording = recordCalls ? createRecording(chunks, startedAt) : undefined;
+      recordingRef.current = { chunks: [], startedAt: '' };
+      setInput(liveInput);
+      handleTriage(undefined, liveInput, buildVoiceSession(turns, liveStartedAtRef.current, recording));
     }
   };
 
@@ -183,16 +504,17 @@ const App: React.FC = () => {
       customer_message: '',
       account_tier: AccountTier.Free,
       recent_activity_summary: '',
-      use_search: false
+      use_search: false,
+      use_knowledge_base: input.use_knowledge_base
     });
     setResult(null);
     setError(null);
   };
 
-  const clearHistory = () => {
+  const clearHistory = async () => {
     if (confirm('Are you sure?')) {
-      setHistory([]);
-      localStorage.removeItem('helpflow_history');
+      await historyStore.clear();
+      setHistoryVersion(v => v + 1);
     }
   };
 
@@ -202,6 +524,10 @@ const App: React.FC = () => {
     setTimeout(() => setCopyStatus(null), 2000);
   };
 
+  const kbSources = (result?.grounding_sources || []).filter(isKnowledgeSource);
+  const webSources = (result?.grounding_sources || []).filter(s => !isKnowledgeSource(s));
+  const openArticle = kbArticles.find(a => a.uri === openArticleUri);
+
   const getPriorityStyles = (priority: Priority) => {
     switch (priority) {
       case Priority.High: return 'bg-rose-100 text-rose-700 border-rose-200';
@@ -240,6 +566,15 @@ const App: React.FC = () => {
             </h1>
           </div>
           <div className="flex items-center space-x-4">
+            <button
+              onClick={() => { setIsDashboardMode(!isDashboardMode); setIsBatchMode(false); }}
+              disabled={isLiveMode}
+              className={`px-3 py-1.5 rounded-lg border text-[10px] font-black uppercase tracking-widest transition-colors ${
+                isDashboardMode ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-400 border-slate-200 hover:text-slate-600'
+              }`}
+            >
+              <i className="fas fa-chart-column mr-1"></i> Analytics
+            </button>
             <div className="hidden md:flex items-center space-x-2 bg-emerald-50 px-3 py-1.5 rounded-lg border border-emerald-100">
                <span className="w-1.5 h-1.5 bg-emerald-500 rounded-full animate-pulse"></span>
                <span className="text-[10px] font-black text-emerald-700 uppercase tracking-widest">System Ready</span>
@@ -258,9 +593,19 @@ const App: React.FC = () => {
           <section className="bg-white rounded-3xl shadow-sm border border-slate-200 overflow-hidden">
             <div className="p-6 border-b border-slate-100 flex items-center justify-between">
               <h2 className="text-[11px] font-black text-slate-400 uppercase tracking-widest">Input Control</h2>
-              <button onClick={clearForm} className="text-slate-300 hover:text-slate-600 transition-colors">
-                <i className="fas fa-rotate-right text-xs"></i>
-              </button>
+              <div className="flex items-center space-x-4">
+                <button
+                  onClick={() => { setIsBatchMode(!isBatchMode); setIsDashboardMode(false); }}
+                  disabled={isLiveMode}
+                  className={`text-[9px] font-black uppercase tracking-widest transition-colors ${isBatchMode ? 'text-indigo-600' : 'text-slate-300 hover:text-slate-600'}`}
+                  title="Batch Triage"
+                >
+                  <i className="fas fa-layer-group mr-1"></i> Batch
+                </button>
+                <button onClick={clearForm} className="text-slate-300 hover:text-slate-600 transition-colors">
+                  <i className="fas fa-rotate-right text-xs"></i>
+                </button>
+              </div>
             </div>
 
             <div className="p-6 space-y-6">
@@ -276,6 +621,16 @@ const App: React.FC = () => {
                 <i className={`fas ${isLiveMode ? 'fa-stop-circle' : 'fa-microphone'} text-lg`}></i>
                 <span>{isLiveMode ? 'Stop Listening' : 'Voice Intake'}</span>
               </button>
+              <label className="flex items-center justify-center gap-2 -mt-3 text-[10px] font-bold text-slate-400 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={recordCalls}
+                  disabled={isLiveMode}
+                  onChange={(e) => setRecordCalls(e.target.checked)}
+                  className="rounded text-indigo-600"
+                />
+                Keep a recording of the caller with the ticket
+              </label>
 
               <div className="space-y-4">
                 <div className="flex items-center justify-between">
@@ -342,55 +697,208 @@ const App: React.FC = () => {
                   </label>
                 </div>
 
-                <button
-                  type="submit"
-                  disabled={loading || !input.customer_message.trim()}
-                  className={`w-full py-4 rounded-2xl font-black text-white transition-all shadow-xl uppercase text-[11px] tracking-widest ${
-                    loading || !input.customer_message.trim()
-                      ? 'bg-slate-300 cursor-not-allowed'
-                      : 'bg-indigo-600 hover:bg-indigo-700 shadow-indigo-100'
-                  }`}
-                >
-                  {loading ? <i className="fas fa-circle-notch fa-spin"></i> : 'Analyze Ticket'}
-                </button>
+                <KnowledgeBasePanel
+                  articles={kbArticles}
+                  checked={!!input.use_knowledge_base}
+                  onCheckedChange={(checked) => setInput({ ...input, use_knowledge_base: checked })}
+                  onLoad={(articles) => {
+                    setKbArticles(articles);
+                    setInput({ ...input, use_knowledge_base: articles.length > 0 });
+                  }}
+                  onClear={() => {
+                    setKbArticles([]);
+                    setInput({ ...input, use_knowledge_base: false });
+                  }}
+                />
+
+                <div className="space-y-2 px-1">
+                  <label className="flex items-center space-x-3 text-[10px] font-bold text-slate-500 uppercase tracking-widest">
+                    <input
+                      type="checkbox"
+                      checked={piiSettings.redact}
+                      onChange={(e) => setPiiSettings({ ...piiSettings, redact: e.target.checked })}
+                      className="w-4 h-4 text-indigo-600 border-slate-300 rounded focus:ring-indigo-500"
+                    />
+                    <span>Redact PII Before Analysis <i className="fas fa-user-shield ml-2 text-indigo-400"></i></span>
+                  </label>
+                  <label className="flex items-center space-x-3 text-[10px] font-bold text-slate-500 uppercase tracking-widest">
+                    <input
+                      type="checkbox"
+                      checked={piiSettings.storeRedacted}
+                      disabled={!piiSettings.redact}
+                      onChange={(e) => setPiiSettings({ ...piiSettings, storeRedacted: e.target.checked })}
+                      className="w-4 h-4 text-indigo-600 border-slate-300 rounded focus:ring-indigo-500"
+                    />
+                    <span className={piiSettings.redact ? '' : 'text-slate-300'}>Store Redacted Logs Only</span>
+                  </label>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1">Triage Engine</label>
+                    <select
+                      className="w-full px-4 py-2.5 rounded-xl border border-slate-200 focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 text-[12px] font-bold"
+                      value={providerId}
+                      onChange={(e) => setProviderId(e.target.value as TriageProviderId)}
+                    >
+                      {TRIAGE_PROVIDERS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+                    </select>
+                  </div>
+                  <div className="space-y-2">
+                    <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1">Agent Language</label>
+                    <select
+                      className="w-full px-4 py-2.5 rounded-xl border border-slate-200 focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 text-[12px] font-bold"
+                      value={agentLanguage}
+                      onChange={(e) => setAgentLanguage(e.target.value)}
+                      title="Language for the summary, reasoning and next step. Replies follow the customer's language."
+                    >
+                      {LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.label}</option>)}
+                    </select>
+                  </div>
+                </div>
+
+                {providerId === 'remote' && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1">Service URL</label>
+                      <input
+                        type="url"
+                        className="w-full px-4 py-2.5 rounded-xl border border-slate-200 focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 text-[12px] font-bold"
+                        value={serviceConfig.url}
+                        onChange={(e) => setServiceConfig({ ...serviceConfig, url: e.target.value })}
+                        placeholder={DEFAULT_SERVICE_CONFIG.url}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1">API Token</label>
+                      <input
+                        type="password"
+                        className="w-full px-4 py-2.5 rounded-xl border border-slate-200 focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 text-[12px] font-bold"
+                        value={serviceConfig.token}
+                        onChange={(e) => setServiceConfig({ ...serviceConfig, token: e.target.value })}
+                        placeholder="Token issued for this client"
+                        autoComplete="off"
+                      />
+                    </div>
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1">Priority Policy</label>
+                  <div className="flex flex-wrap gap-2">
+                    {policyRules.map(rule => (
+                      <button
+                        type="button"
+                        key={rule.id}
+                        onClick={() => togglePolicyRule(rule.id)}
+                        title={rule.reason}
+                        className={`text-[9px] font-bold px-3 py-1.5 rounded-lg border transition-all ${
+                          rule.enabled
+                            ? 'bg-indigo-50 text-indigo-600 border-indigo-100 hover:bg-indigo-100'
+                            : 'bg-slate-50 text-slate-300 border-slate-100 line-through hover:bg-slate-100'
+                        }`}
+                      >
+                        {rule.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <CategoryTaxonomyEditor
+                  categories={categories}
+                  onChange={setCategories}
+                  onReset={() => setCategories(DEFAULT_CATEGORIES)}
+                />
+
+                {loading ? (
+                  <button
+                    type="button"
+                    onClick={() => triageAbortRef.current?.abort()}
+                    className="w-full py-4 rounded-2xl font-black text-white transition-all shadow-xl uppercase text-[11px] tracking-widest bg-rose-600 hover:bg-rose-700 shadow-rose-100"
+                  >
+                    <i className="fas fa-circle-notch fa-spin mr-2"></i> Cancel
+                  </button>
+                ) : (
+                  <button
+                    type="submit"
+                    disabled={!input.customer_message.trim()}
+                    className={`w-full py-4 rounded-2xl font-black text-white transition-all shadow-xl uppercase text-[11px] tracking-widest ${
+                      !input.customer_message.trim()
+                        ? 'bg-slate-300 cursor-not-allowed'
+                        : 'bg-indigo-600 hover:bg-indigo-700 shadow-indigo-100'
+                    }`}
+                  >
+                    Analyze Ticket
+                  </button>
+                )}
               </form>
             </div>
           </section>
 
           {/* History */}
-          <section className="bg-white rounded-3xl shadow-sm border border-slate-200 overflow-hidden flex flex-col flex-1 max-h-[400px]">
-             <div className="p-4 border-b border-slate-100 flex items-center justify-between">
-                <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Analysis Logs</h3>
-                {history.length > 0 && (
-                  <button onClick={clearHistory} className="text-[9px] font-bold text-rose-500 hover:underline">Clear</button>
-                )}
-             </div>
-             <div className="overflow-y-auto divide-y divide-slate-50">
-               {history.length > 0 ? history.map(item => (
-                 <button 
-                  key={item.id} 
-                  onClick={() => setResult(item)}
-                  className={`w-full p-4 text-left hover:bg-slate-50 transition-colors flex flex-col gap-1 ${result?.id === item.id ? 'bg-indigo-50/50' : ''}`}
-                 >
-                    <div className="flex items-center justify-between">
-                      <span className={`text-[8px] font-black uppercase px-2 py-0.5 rounded border ${getPriorityStyles(item.priority as Priority)}`}>{item.priority}</span>
-                      <span className="text-[8px] text-slate-400">{item.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
-                    </div>
-                    <p className="text-xs font-bold text-slate-800 line-clamp-1">{item.summary}</p>
-                 </button>
-               )) : (
-                 <div className="p-10 text-center text-slate-300">
-                    <i className="fas fa-history mb-2 text-xl block"></i>
-                    <p className="text-[10px] font-black uppercase tracking-widest">No Logs Yet</p>
-                 </div>
-               )}
-             </div>
-          </section>
+          <HistoryPanel
+            refreshKey={historyVersion}
+            selectedId={result?.id}
+            onSelect={(item) => { setResult(item); setIsBatchMode(false); setIsDashboardMode(false); }}
+            onClear={clearHistory}
+            onImported={() => setHistoryVersion(v => v + 1)}
+            getPriorityStyles={getPriorityStyles}
+            slaPolicy={slaPolicy}
+            onSlaPolicyChange={setSlaPolicy}
+            categories={categories}
+          />
+
+          <IncidentPanel
+            incidents={incidents}
+            declaredIds={declaredIncidents}
+            onSelectTicket={selectTicket}
+            onDeclare={declareIncident}
+            getPriorityStyles={getPriorityStyles}
+            categories={categories}
+          />
         </div>
 
         {/* Right Column: Content */}
         <div className="flex-1 flex flex-col space-y-6">
-          {isLiveMode ? (
+          {error && (
+            <div className="bg-rose-50 border border-rose-200 rounded-2xl px-6 py-4 flex items-start gap-3">
+              <i className="fas fa-triangle-exclamation text-rose-500 mt-0.5"></i>
+              <p className="flex-1 text-[13px] font-semibold text-rose-800 leading-relaxed">{error}</p>
+              <button onClick={() => setError(null)} className="text-rose-300 hover:text-rose-600 transition-colors">
+                <i className="fas fa-xmark text-xs"></i>
+              </button>
+            </div>
+          )}
+          {spikes.map(incident => (
+            <div key={incident.id} className="bg-rose-600 rounded-2xl px-6 py-4 flex items-center gap-4 shadow-lg shadow-rose-100">
+              <i className="fas fa-tower-broadcast text-white text-lg"></i>
+              <div className="flex-1">
+                <p className="text-[10px] font-black text-rose-100 uppercase tracking-widest">Possible Incident · {incident.high_count} High tickets</p>
+                <p className="text-[13px] font-bold text-white leading-relaxed">{incident.summary}</p>
+              </div>
+              <button
+                onClick={() => declareIncident(incident)}
+                className="px-4 py-2 bg-white text-rose-700 rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-rose-50 transition-all"
+              >
+                Declare Incident
+              </button>
+              <button onClick={() => setDismissedSpikes(prev => [...prev, incident.id])} className="text-rose-200 hover:text-white transition-colors">
+                <i className="fas fa-xmark text-xs"></i>
+              </button>
+            </div>
+          ))}
+          <div className={isBatchMode && !isLiveMode ? 'flex-1 flex flex-col' : 'hidden'}>
+            <BatchPanel
+              triage={triageBatchRow}
+              onSelect={(item) => { setResult(item); setIsBatchMode(false); setIsDashboardMode(false); }}
+              senderRules={senderRules}
+              onSenderRulesChange={setSenderRules}
+            />
+          </div>
+          {isDashboardMode && !isLiveMode && (
+            <AnalyticsDashboard refreshKey={historyVersion} categories={categories} />
+          )}
+          {(isBatchMode || isDashboardMode) && !isLiveMode ? null : isLiveMode ? (
             <div className="flex-1 bg-white rounded-[40px] border border-slate-200 p-12 flex flex-col items-center justify-center space-y-8 animate-in fade-in zoom-in-95 duration-300">
               <div className="relative">
                 <div className="w-40 h-40 rounded-full bg-indigo-50 border-4 border-indigo-100 flex items-center justify-center animate-pulse">
@@ -400,12 +908,42 @@ const App: React.FC = () => {
                    Live
                 </div>
               </div>
+              <div className="w-64 space-y-2">
+                <div className="h-2 bg-slate-100 rounded-full overflow-hidden" title="Microphone input level">
+                  <div
+                    className={`h-full transition-all duration-100 ${liveLevel.speaking ? 'bg-emerald-500' : 'bg-slate-300'}`}
+                    style={{ width: `${meterLevel(liveLevel.level) * 100}%` }}
+                  ></div>
+                </div>
+                <p className="text-center text-[9px] font-black uppercase tracking-widest text-slate-400">
+                  {liveLevel.speaking ? 'Voice detected · sending' : 'Silence · paused'}
+                </p>
+              </div>
               <div className="text-center space-y-3">
                 <h3 className="text-2xl font-black text-slate-900 tracking-tight">Active Voice Triage</h3>
                 <p className="text-sm text-slate-500 font-medium max-w-sm">
-                  The session is currently recording. Speak naturally to describe the issue. HelpFlow is listening to triage in real-time.
+                  The session is currently recording. Speak naturally to describe the issue. The intake agent fills the form as you talk and asks for anything missing.
                 </p>
               </div>
+              <div className="w-full max-w-lg grid grid-cols-1 gap-2">
+                {LIVE_INTAKE_FIELDS.map(field => {
+                  const value = liveDraft[field.key];
+                  return (
+                    <div key={field.key} className="flex items-start gap-3 px-4 py-2.5 bg-white rounded-2xl border border-slate-100">
+                      <i className={`fas ${value ? 'fa-circle-check text-emerald-500' : 'fa-circle-question text-slate-300'} mt-0.5`}></i>
+                      <div className="flex-1 min-w-0">
+                        <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest block">{field.label}</span>
+                        <span className={`text-[13px] font-semibold ${value ? 'text-slate-700' : 'text-slate-300'}`}>{value || 'Not collected yet'}</span>
+                      </div>
+                    </div>
+                  );
+                })}
+                {liveDraft.complete && missingIntakeFields(liveDraft).length === 0 && (
+                  <p className="text-center text-[10px] font-black text-emerald-600 uppercase tracking-widest">
+                    <i className="fas fa-check mr-1"></i> Intake complete · ready to analyze
+                  </p>
+                )}
+              </div>
               <div className="w-full max-w-lg bg-slate-50 rounded-3xl p-6 h-64 overflow-y-auto border border-slate-100 flex flex-col space-y-4">
                 {liveTranscription.length > 0 ? liveTranscription.map((t, i) => (
                   <div key={i} className={`flex ${t.isUser ? 'justify-end' : 'justify-start'}`}>
@@ -440,6 +978,29 @@ const App: React.FC = () => {
                         <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest bg-slate-50 px-3 py-1.5 rounded-full border border-slate-100">
                           ID: {result.id.toUpperCase()}
                         </span>
+                        {result.provider === 'local' && (
+                          <span className="text-[10px] font-black text-amber-600 uppercase tracking-widest bg-amber-50 px-3 py-1.5 rounded-full border border-amber-100">
+                            <i className="fas fa-plug-circle-xmark mr-1"></i> Offline Rules
+                          </span>
+                        )}
+                        {result.language && (
+                          <span className="text-[10px] font-black text-sky-600 uppercase tracking-widest bg-sky-50 px-3 py-1.5 rounded-full border border-sky-100">
+                            <i className="fas fa-language mr-1"></i> {languageLabel(result.language)}
+                          </span>
+                        )}
+                        {result.redactions && result.redactions.length > 0 && (
+                          <span
+                            className="text-[10px] font-black text-indigo-600 uppercase tracking-widest bg-indigo-50 px-3 py-1.5 rounded-full border border-indigo-100"
+                            title={result.redactions.map(r => r.placeholder).join(', ')}
+                          >
+                            <i className="fas fa-user-shield mr-1"></i> {result.redactions.length} PII Redacted
+                          </span>
+                        )}
+                        {result.policy_check && result.policy_check.model_priority === result.policy_check.policy_priority && (
+                          <span className="text-[10px] font-black text-emerald-600 uppercase tracking-widest bg-emerald-50 px-3 py-1.5 rounded-full border border-emerald-100" title={result.policy_check.reason}>
+                            <i className="fas fa-scale-balanced mr-1"></i> Policy Agrees
+                          </span>
+                        )}
                       </div>
                       <h2 className="text-4xl font-black text-slate-900 leading-tight tracking-tight">
                         {result.summary}
@@ -459,6 +1020,30 @@ const App: React.FC = () => {
                     </div>
                   </div>
 
+                  <ResultClassification result={result} categories={categories} />
+
+                  {result.possible_duplicates && result.possible_duplicates.length > 0 && (
+                    <div className="mb-12 p-6 bg-amber-50 border border-amber-100 rounded-3xl space-y-3">
+                      <h4 className="text-[10px] font-black text-amber-700 uppercase tracking-widest flex items-center">
+                        <i className="fas fa-clone mr-2"></i> Possible Duplicate
+                      </h4>
+                      <div className="flex flex-col gap-2">
+                        {result.possible_duplicates.map(match => (
+                          <button
+                            key={match.id}
+                            onClick={() => selectTicket(match.id)}
+                            className="flex items-center gap-3 text-left group"
+                          >
+                            <span className={`text-[9px] font-black uppercase px-2 py-0.5 rounded border ${getPriorityStyles(match.priority)}`}>{match.priority}</span>
+                            <span className="text-[10px] font-black text-slate-400">#{match.id.toUpperCase()}</span>
+                            <span className="flex-1 text-[13px] font-semibold text-amber-900 group-hover:underline line-clamp-1">{match.summary}</span>
+                            <span className="text-[10px] font-black text-amber-700">{Math.round(match.score * 100)}% match</span>
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-8 mb-12">
                     {/* Rationale */}
                     <div className="space-y-4">
@@ -480,14 +1065,68 @@ const App: React.FC = () => {
                     </div>
                   </div>
 
+                  {/* Policy Cross-Check */}
+                  {result.policy_check && result.policy_check.model_priority !== result.policy_check.policy_priority && (
+                    <div className="mb-12 p-6 bg-amber-50/60 rounded-3xl border border-amber-200 space-y-4">
+                      <h4 className="text-[10px] font-black text-amber-700 uppercase tracking-widest flex items-center">
+                        <i className="fas fa-scale-unbalanced mr-2"></i> Policy Cross-Check
+                        {result.policy_check.overridden && <span className="ml-3 px-2 py-0.5 bg-amber-600 text-white rounded">Priority Raised</span>}
+                      </h4>
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <div>
+                          <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-1">Model Verdict</span>
+                          <span className={`text-[10px] font-black uppercase px-3 py-1 rounded-full border ${getPriorityStyles(result.policy_check.model_priority)}`}>{result.policy_check.model_priority}</span>
+                        </div>
+                        <div>
+                          <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-1">Policy Minimum</span>
+                          <span className={`text-[10px] font-black uppercase px-3 py-1 rounded-full border ${getPriorityStyles(result.policy_check.policy_priority)}`}>{result.policy_check.policy_priority}</span>
+                        </div>
+                        <div>
+                          <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-1">Rule Fired</span>
+                          <span className="text-sm font-bold text-slate-700">{result.policy_check.rule_label}</span>
+                        </div>
+                      </div>
+                      <p className="text-[13px] font-semibold text-amber-900">{result.policy_check.reason}</p>
+                    </div>
+                  )}
+
                   {/* Grounding Sources */}
-                  {result.grounding_sources && result.grounding_sources.length > 0 && (
+                  {kbSources.length > 0 && (
+                    <div className="mb-12 space-y-4">
+                      <h4 className="text-[10px] font-black text-slate-400 uppercase tracking-widest flex items-center">
+                        <i className="fas fa-book-open mr-2 text-indigo-400"></i> Help Center Articles
+                      </h4>
+                      <div className="flex flex-wrap gap-3">
+                        {kbSources.map(s => (
+                          <button
+                            key={s.uri}
+                            onClick={() => setOpenArticleUri(openArticleUri === s.uri ? null : s.uri)}
+                            title={s.uri}
+                            className={`flex items-center space-x-2 px-4 py-2 rounded-xl border transition-all text-xs font-bold ${
+                              openArticleUri === s.uri ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-indigo-50 text-indigo-600 border-indigo-100 hover:bg-indigo-100'
+                            }`}
+                          >
+                            <i className="fas fa-file-lines text-[10px]"></i>
+                            <span>{s.title}</span>
+                          </button>
+                        ))}
+                      </div>
+                      {openArticle && (
+                        <div className="p-6 bg-slate-50 rounded-3xl border border-slate-100 max-h-64 overflow-y-auto">
+                          <p className="text-[9px] font-bold text-slate-400 mb-2">{openArticle.uri}</p>
+                          <p className="text-[13px] font-medium text-slate-700 whitespace-pre-wrap leading-relaxed">{openArticle.text}</p>
+                        </div>
+                      )}
+                    </div>
+                  )}
+
+                  {webSources.length > 0 && (
                     <div className="mb-12 space-y-4">
                       <h4 className="text-[10px] font-black text-slate-400 uppercase tracking-widest flex items-center">
                         <i className="fas fa-search-nodes mr-2 text-indigo-400"></i> External Context & Outages
                       </h4>
                       <div className="flex flex-wrap gap-3">
-                        {result.grounding_sources.map((s, i) => (
+                        {webSources.map((s, i) => (
                           <a 
                             key={i} 
                             href={s.uri} 
@@ -503,23 +1142,17 @@ const App: React.FC = () => {
                     </div>
                   )}
 
-                  {/* Suggested Reply */}
-                  <div className="space-y-4">
-                    <div className="flex items-center justify-between">
-                      <h4 className="text-[10px] font-black text-slate-400 uppercase tracking-widest flex items-center">
-                        <i className="fas fa-comment-dots mr-2 text-indigo-400"></i> Suggested Agent Reply
-                      </h4>
-                      <button 
-                        onClick={() => copyToClipboard(result.reply, 'reply')}
-                        className="text-[9px] font-black text-indigo-600 uppercase hover:underline"
-                      >
-                        {copyStatus === 'reply' ? 'Copied' : 'Copy Text'}
-                      </button>
-                    </div>
-                    <div className="p-8 bg-white border-2 border-slate-100 rounded-3xl shadow-sm italic text-xl font-medium text-slate-600 leading-relaxed">
-                       "{result.reply}"
-                    </div>
-                  </div>
+                  {/* Reply Composer */}
+                  <ReplyComposer
+                    item={result}
+                    agentName={agentName}
+                    agentLanguage={agentLanguage}
+                    macros={macros}
+                    onMacrosChange={setMacros}
+                    onRegenerate={handleRegenerateReply}
+                    onCancelRegenerate={() => redraftAbortRef.current?.abort()}
+                    onSend={handleSendReply}
+                  />
 
                   {/* High Priority Escalation */}
                   {result.priority === Priority.High && result.escalation_instructions && (
@@ -556,6 +1189,20 @@ const App: React.FC = () => {
                   View Full History <i className="fas fa-chevron-right ml-1"></i>
                 </button>
               </div>
+
+              {result.voice_session && <VoiceSessionReplay key={result.id} session={result.voice_session} />}
+
+              <TicketWorkflow
+                item={result}
+                actor={agentName}
+                onActorChange={setAgentName}
+                onUpdate={updateTicket}
+                onRetriage={(edited) => handleRetriage(edited)}
+                onFollowUp={(extended) => handleRetriage(extended, 'follow_up')}
+                retriaging={retriaging}
+                onCancelRetriage={() => retriageAbortRef.current?.abort()}
+                getPriorityStyles={getPriorityStyles}
+              />
             </div>
           ) : (
             <div className="flex-1 bg-white rounded-[40px] border-2 border-dashed border-slate-100 p-12 flex flex-col items-center justify-center text-center space-y-6">
@@ -0,0 +1,200 @@
+// --- Audio Encoding ---
+// Pure helpers for the live audio pipeline: PCM conversion, resampling, base64 and
+// voice-activity detection. Nothing here touches Web Audio, so it runs anywhere.
+
+/** Sample rate the Live API expects for microphone input. */
+export const PCM_SAMPLE_RATE = 16000;
+
+/** Sample rate of the audio the Live API sends back. */
+export const OUTPUT_SAMPLE_RATE = 24000;
+
+// Larger argument lists can overflow the call stack in String.fromCharCode.apply.
+const BASE64_CHUNK = 0x8000;
+
+export const clampSample = (sample: number) => Math.max(-1, Math.min(1, sample));
+
+/** Float samples to 16-bit PCM. Out-of-range samples are clipped instead of wrapping around. */
+export function floatToPcm16(samples: Float32Array): Int16Array {
+  const pcm = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const s = clampSample(samples[i]);
+    pcm[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
+  }
+  return pcm;
+}
+
+/** Little-endian 16-bit PCM bytes to float samples, honoring the view's byte offset. */
+export function pcm16ToFloat(bytes: Uint8Array): Float32Array {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const samples = new Float32Array(Math.floor(bytes.byteLength / 2));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = view.getInt16(i * 2, true) / 0x8000;
+  }
+  return samples;
+}
+
+/** Int16 samples as little-endian bytes, independent of platform byte order. */
+export function pcm16ToBytes(pcm: Int16Array): Uint8Array {
+  const bytes = new Uint8Array(pcm.length * 2);
+  const view = new DataView(bytes.buffer);
+  pcm.forEach((s, i) => view.setInt16(i * 2, s, true));
+  return bytes;
+}
+
+export function encodeBase64(bytes: Uint8Array): string {
+  const parts: string[] = [];
+  for (let i = 0; i < bytes.length; i += BASE64_CHUNK) {
+    parts.push(String.fromCharCode.apply(null, bytes.subarray(i, i + BASE64_CHUNK) as unknown as number[]));
+  }
+  return btoa(parts.join(''));
+}
+
+export function decodeBase64(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export function createPcmBlob(samples: Float32Array, sampleRate = PCM_SAMPLE_RATE): { data: string; mimeType: string } {
+  return {
+    data: encodeBase64(pcm16ToBytes(floatToPcm16(samples))),
+    mimeType: `audio/pcm;rate=${sampleRate}`
+  };
+}
+
+/** Joins captured chunks into one buffer. */
+export function concatSamples(chunks: Float32Array[]): Float32Array {
+  const out = new Float32Array(chunks.reduce((n, c) => n + c.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+}
+
+/** Mono 16-bit PCM WAV file (44-byte RIFF header followed by the samples). */
+export function encodeWav(samples: Float32Array, sampleRate = PCM_SAMPLE_RATE): Uint8Array {
+  const pcm = pcm16ToBytes(floatToPcm16(samples));
+  const wav = new Uint8Array(44 + pcm.length);
+  const view = new DataView(wav.buffer);
+  const ascii = (offset: number, text: string) => [...text].forEach((c, i) => view.setUint8(offset + i, c.charCodeAt(0)));
+  ascii(0, 'RIFF');
+  view.setUint32(4, 36 + pcm.length, true);
+  ascii(8, 'WAVE');
+  ascii(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, 1, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  ascii(36, 'data');
+  view.setUint32(40, pcm.length, true);
+  wav.set(pcm, 44);
+  return wav;
+}
+
+// --- Resampling ---
+
+/**
+ * Carries a resampler across chunks. `offset` is the read position relative to the
+ * start of the next chunk (negative means between the previous chunk's last sample and
+ * the next chunk's first), `history` the raw samples the smoothing filter still needs,
+ * `previous` the last filtered sample.
+ */
+export interface ResamplerState {
+  offset: number;
+  history: number[];
+  previous: number;
+}
+
+export const initialResamplerState = (): ResamplerState => ({ offset: 0, history: [], previous: 0 });
+
+/**
+ * Converts one chunk of a stream from `fromRate` to `toRate` with linear interpolation.
+ * When downsampling, a moving average over one output period runs first so content
+ * above the new Nyquist frequency does not fold back as noise. Feeding consecutive
+ * chunks with the returned state gives the same result as resampling the whole stream.
+ */
+export function resample(
+  input: Float32Array,
+  fromRate: number,
+  toRate: number,
+  state: ResamplerState = initialResamplerState()
+): { output: Float32Array; state: ResamplerState } {
+  if (fromRate === toRate || input.length === 0) return { output: input.slice(), state };
+  const ratio = fromRate / toRate;
+  const taps = Math.max(1, Math.round(ratio));
+
+  const raw = [...state.history, ...Array.from(input)];
+  const lead = state.history.length;
+  const filtered = new Float32Array(input.length);
+  for (let i = 0; i < input.length; i++) {
+    const start = Math.max(0, lead + i - taps + 1);
+    let sum = 0;
+    for (let j = start; j <= lead + i; j++) sum += raw[j];
+    filtered[i] = sum / (lead + i - start + 1);
+  }
+
+  const output: number[] = [];
+  let position = state.offset;
+  const at = (index: number) => index < 0 ? state.previous : filtered[Math.min(index, filtered.length - 1)];
+  while (position <= filtered.length - 1) {
+    const index = Math.floor(position);
+    const frac = position - index;
+    output.push(at(index) * (1 - frac) + at(index + 1) * frac);
+    position += ratio;
+  }
+
+  return {
+    output: Float32Array.from(output),
+    state: {
+      offset: position - filtered.length,
+      history: taps > 1 ? raw.slice(raw.length - (taps - 1)) : [],
+      previous: filtered[filtered.length - 1]
+    }
+  };
+}
+
+// --- Voice Activity ---
+
+export interface VadOptions {
+  /** RMS level (0..1) above which a chunk counts as speech. */
+  threshold: number;
+  /** Keep sending this long after speech stops, so word endings are not cut. */
+  hangoverMs: number;
+}
+
+export const DEFAULT_VAD_OPTIONS: VadOptions = { threshold: 0.012, hangoverMs: 500 };
+
+export interface VadState {
+  speaking: boolean;
+  silentMs: number;
+}
+
+export const initialVadState = (): VadState => ({ speaking: false, silentMs: 0 });
+
+export function rmsLevel(samples: Float32Array): number {
+  if (samples.length === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  return Math.sqrt(sum / samples.length);
+}
+
+/** Level in dBFS, floored at -100 for silence. */
+export const levelToDb = (level: number) => level > 0 ? Math.max(-100, 20 * Math.log10(level)) : -100;
+
+/** Maps a level to 0..1 for a meter spanning -60..0 dBFS. */
+export const meterLevel = (level: number) => Math.max(0, Math.min(1, (levelToDb(level) + 60) / 60));
+
+/** Advances the detector by one chunk; `speaking` stays true through the hangover. */
+export function updateVad(state: VadState, level: number, chunkMs: number, options: VadOptions = DEFAULT_VAD_OPTIONS): VadState {
+  if (level >= options.threshold) return { speaking: true, silentMs: 0 };
+  const silentMs = state.silentMs + chunkMs;
+  return { speaking: state.speaking && silentMs <= options.hangoverMs, silentMs };
+}
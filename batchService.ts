@@ -0,0 +1,175 @@
+import { AccountTier, BatchColumnMapping, BatchRow, HistoryItem, TriageInput } from "./types";
+import { parseCsv, parseJsonl, toCsv } from "./fileUtils";
+import { createRateLimiter } from "./resilientCalls";
+import { TriageCancelledError } from "./triageErrors";
+
+// --- Bulk Ticket Import ---
+
+export interface ParsedTicketFile {
+  columns: string[];
+  records: Record<string, string>[];
+}
+
+export const DEFAULT_BATCH_CONCURRENCY = 3;
+
+/** Model calls started per minute in the batch panel; 0 means no limit. */
+export const DEFAULT_BATCH_REQUESTS_PER_MINUTE = 30;
+
+/** A .json export: an array of ticket objects, or a single ticket. */
+function parseJsonTickets(text: string): Record<string, unknown>[] {
+  let value: unknown;
+  try {
+    value = JSON.parse(text.replace(/^\uFEFF/, ''));
+  } catch {
+    throw new Error('Invalid JSON file');
+  }
+  const tickets = Array.isArray(value) ? value : [value];
+  const invalid = tickets.findIndex(t => !t || typeof t !== 'object' || Array.isArray(t));
+  if (invalid !== -1) throw new Error(`Ticket ${invalid + 1} in the JSON file is not an object`);
+  return tickets;
+}
+
+/**
+ * Reads a CSV (header row required), JSONL or JSON export into flat string records.
+ */
+export function parseTicketFile(filename: string, text: string): ParsedTicketFile {
+  if (/\.(jsonl|ndjson|json)$/i.test(filename)) {
+    const objects = /\.json$/i.test(filename) ? parseJsonTickets(text) : parseJsonl(text);
+    const columns = Array.from(new Set(objects.flatMap(o => Object.keys(o))));
+    const records = objects.map(o => Object.fromEntries(
+      columns.map(c => [c, o[c] === undefined || o[c] === null ? '' : typeof o[c] === 'object' ? JSON.stringify(o[c]) : String(o[c])])
+    ));
+    return { columns, records };
+  }
+
+  const [header, ...rows] = parseCsv(text);
+  if (!header) throw new Error('The CSV file is empty');
+  const columns = header.map(h => h.trim());
+  const records = rows.map(row => Object.fromEntries(columns.map((c, i) => [c, row[i] ?? ''])));
+  return { columns, records };
+}
+
+const COLUMN_HINTS: Record<keyof BatchColumnMapping, RegExp> = {
+  customer_message: /^(customer_?message|message|body|description|text|content|comment)$/i,
+  account_tier: /^(account_?tier|tier|plan|subscription)$/i,
+  recent_activity_summary: /^(recent_?activity(_summary)?|activity|context|notes)$/i
+};
+
+/** Picks a source column for each field by header name; unmatched fields map to ''. */
+export function guessColumnMapping(columns: string[]): BatchColumnMapping {
+  const find = (field: keyof BatchColumnMapping) => columns.find(c => COLUMN_HINTS[field].test(c.trim())) || '';
+  return {
+    customer_message: find('customer_message'),
+    account_tier: find('account_tier'),
+    recent_activity_summary: find('recent_activity_summary')
+  };
+}
+
+export function normalizeTier(value: string | undefined, fallback: AccountTier): AccountTier {
+  const match = Object.values(AccountTier).find(t => t.toLowerCase() === value?.trim().toLowerCase());
+  return match || fallback;
+}
+
+export function buildBatchRows(
+  records: Record<string, string>[],
+  mapping: BatchColumnMapping,
+  defaultTier: AccountTier,
+  useSearch: boolean
+): BatchRow[] {
+  return records.map((record, index) => {
+    const input: TriageInput = {
+      customer_message: (record[mapping.customer_message] || '').trim(),
+      account_tier: normalizeTier(mapping.account_tier ? record[mapping.account_tier] : undefined, defaultTier),
+      recent_activity_summary: (mapping.recent_activity_summary ? record[mapping.recent_activity_summary] : '') || '',
+      use_search: useSearch
+    };
+    return input.customer_message
+      ? { index, input, status: 'pending' }
+      : { index, input, status: 'failed', error: 'Missing customer_message' };
+  });
+}
+
+export interface BatchRunOptions {
+  concurrency?: number;
+  /** Spaces row starts to stay under an API quota; 0 or unset means no limit. */
+  requestsPerMinute?: number;
+  signal?: AbortSignal;
+  onUpdate?: (row: BatchRow) => void;
+}
+
+/**
+ * Triages every pending row with at most `concurrency` requests in flight and, with
+ * `requestsPerMinute`, no more row starts per minute than that. Aborting the signal is
+ * passed on to the rows in flight; they and every row not yet started end up cancelled.
+ */
+export async function runBatch(
+  rows: BatchRow[],
+  triage: (input: TriageInput, signal?: AbortSignal) => Promise<HistoryItem>,
+  options: BatchRunOptions = {}
+): Promise<BatchRow[]> {
+  const { concurrency = DEFAULT_BATCH_CONCURRENCY, requestsPerMinute, signal, onUpdate } = options;
+  const waitForSlot = requestsPerMinute ? createRateLimiter(requestsPerMinute) : undefined;
+  const results = rows.map(r => ({ ...r }));
+  const queue = results.filter(r => r.status === 'pending');
+
+  const update = (row: BatchRow, patch: Partial<BatchRow>) => {
+    Object.assign(row, patch);
+    onUpdate?.({ ...row });
+  };
+
+  const worker = async () => {
+    for (let row = queue.shift(); row; row = queue.shift()) {
+      try {
+        await waitForSlot?.(signal);
+      } catch {
+        // Only a cancel interrupts the wait.
+      }
+      if (signal?.aborted) {
+        update(row, { status: 'cancelled' });
+        continue;
+      }
+      update(row, { status: 'running' });
+      try {
+        update(row, { status: 'done', result: await triage(row.input, signal) });
+      } catch (err: any) {
+        update(row, err instanceof TriageCancelledError
+          ? { status: 'cancelled' }
+          : { status: 'failed', error: err?.message || 'Triage failed' });
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, concurrency) }, worker));
+  return results;
+}
+
+const EXPORT_COLUMNS = [
+  'row', 'status', 'error', 'source', 'customer_message', 'account_tier', 'recent_activity_summary',
+  'summary', 'priority', 'priority_reason', 'reply', 'troubleshooting_step', 'escalation_instructions',
+  'category', 'sentiment', 'confidence', 'tags'
+];
+
+export function exportBatchResults(rows: BatchRow[], format: 'csv' | 'jsonl'): string {
+  const records = rows.map(r => ({
+    row: r.index + 1,
+    status: r.status,
+    error: r.error || '',
+    source: r.source || '',
+    ...r.input,
+    summary: r.result?.summary || '',
+    priority: r.result?.priority || '',
+    priority_reason: r.result?.priority_reason || '',
+    reply: r.result?.reply || '',
+    troubleshooting_step: r.result?.troubleshooting_step || '',
+    escalation_instructions: r.result?.escalation_instructions || '',
+    category: r.result?.category || '',
+    sentiment: r.result?.sentiment || '',
+    confidence: r.result?.confidence ?? '',
+    tags: (r.result?.tags || []).join('; ')
+  }));
+
+  if (format === 'jsonl') {
+    return records.map(r => JSON.stringify(r)).join('\n');
+  }
+  return toCsv([EXPORT_COLUMNS, ...records.map(r => EXPORT_COLUMNS.map(c => (r as Record<string, unknown>)[c]))]);
+}
@@ -0,0 +1,194 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { HistoryItem, Priority, TriageCategory } from '../types';
+import { historyStore } from '../historyStore';
+import { ANALYTICS_CHARTS, AnalyticsBucket, AnalyticsChartId, RankedCount, RateStat, computeAnalytics, defaultAnalyticsRange, exportAnalyticsCsv } from '../historyAnalytics';
+import { downloadFile } from '../fileUtils';
+
+interface AnalyticsDashboardProps {
+  refreshKey: number;
+  categories: TriageCategory[];
+}
+
+const PRIORITY_BARS: Record<Priority, string> = {
+  [Priority.High]: 'bg-rose-500',
+  [Priority.Medium]: 'bg-amber-400',
+  [Priority.Low]: 'bg-emerald-400'
+};
+
+const toInputDate = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const ChartCard: React.FC<{ chart: AnalyticsChartId; onExport: (chart: AnalyticsChartId) => void; children: React.ReactNode }> = ({ chart, onExport, children }) => (
+  <div className="bg-white rounded-3xl border border-slate-200 p-6 space-y-4">
+    <div className="flex items-center justify-between">
+      <h4 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{ANALYTICS_CHARTS.find(c => c.id === chart)?.label}</h4>
+      <button onClick={() => onExport(chart)} className="text-[9px] font-black text-indigo-600 uppercase hover:underline">
+        <i className="fas fa-download mr-1"></i> CSV
+      </button>
+    </div>
+    {children}
+  </div>
+);
+
+const RateGauge: React.FC<{ label: string; stat: RateStat; color: string }> = ({ label, stat, color }) => (
+  <div className="space-y-2">
+    <div className="flex items-baseline justify-between">
+      <span className="text-[11px] font-bold text-slate-600">{label}</span>
+      <span className="text-2xl font-black text-slate-900">{Math.round(stat.rate * 100)}%</span>
+    </div>
+    <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+      <div className={`h-full ${color}`} style={{ width: `${stat.rate * 100}%` }}></div>
+    </div>
+    <p className="text-[9px] font-bold text-slate-400">{stat.count} of {stat.total} tickets</p>
+  </div>
+);
+
+const RankedList: React.FC<{ rows: RankedCount[]; empty: string }> = ({ rows, empty }) => {
+  if (rows.length === 0) return <p className="text-[11px] font-semibold text-slate-400">{empty}</p>;
+  const max = Math.max(...rows.map(r => r.count));
+  return (
+    <div className="space-y-2">
+      {rows.map((row, i) => (
+        <div key={i} className="space-y-1">
+          <div className="flex items-center justify-between gap-4">
+            <span className="text-[11px] font-semibold text-slate-700 line-clamp-1">{row.label}</span>
+            <span className="text-[10px] font-black text-slate-500">{row.count}</span>
+          </div>
+          <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden">
+            <div className="h-full bg-indigo-400" style={{ width: `${(row.count / max) * 100}%` }}></div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ refreshKey, categories }) => {
+  const [from, setFrom] = useState(() => toInputDate(defaultAnalyticsRange().from));
+  const [to, setTo] = useState(() => toInputDate(defaultAnalyticsRange().to));
+  const [bucket, setBucket] = useState<AnalyticsBucket>('day');
+  const [items, setItems] = useState<HistoryItem[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const range = useMemo(() => ({ from: new Date(`${from}T00:00:00`), to: new Date(`${to}T23:59:59.999`) }), [from, to]);
+  const validRange = !isNaN(range.from.getTime()) && !isNaN(range.to.getTime()) && range.from <= range.to;
+
+  useEffect(() => {
+    if (!validRange) return;
+    let cancelled = false;
+    setLoading(true);
+    historyStore.query({ from: range.from, to: range.to })
+      .then(({ items: matching }) => { if (!cancelled) setItems(matching); })
+      .catch(err => console.error('Failed to load analytics', err))
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [refreshKey, range, validRange]);
+
+  const analytics = useMemo(
+    () => computeAnalytics(validRange ? items : [], range, bucket, categories),
+    [items, range, bucket, categories, validRange]
+  );
+
+  const handleExport = (chart: AnalyticsChartId) => {
+    downloadFile(`helpflow-${chart}-${from}-to-${to}.csv`, exportAnalyticsCsv(analytics, chart), 'text/csv');
+  };
+
+  const maxVolume = Math.max(1, ...analytics.volume.map(p => p.total));
+  const maxTier = Math.max(1, ...analytics.priorityByTier.map(t => t.total));
+
+  return (
+    <div className="flex-1 flex flex-col space-y-6 animate-in fade-in duration-300">
+      <div className="bg-white rounded-3xl border border-slate-200 p-6 flex flex-wrap items-end gap-4">
+        <div>
+          <h3 className="text-xl font-black text-slate-900 tracking-tight">Triage Analytics</h3>
+          <p className="text-[11px] font-semibold text-slate-400">
+            {loading ? 'Loading…' : `${analytics.total} ticket${analytics.total === 1 ? '' : 's'} in range`}
+          </p>
+        </div>
+        <div className="flex-1"></div>
+        <div className="space-y-1">
+          <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1">From</label>
+          <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="block px-3 py-2 rounded-xl border border-slate-200 text-[11px] font-bold" />
+        </div>
+        <div className="space-y-1">
+          <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1">To</label>
+          <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className="block px-3 py-2 rounded-xl border border-slate-200 text-[11px] font-bold" />
+        </div>
+        <div className="flex rounded-xl border border-slate-200 overflow-hidden">
+          {(['day', 'week'] as AnalyticsBucket[]).map(b => (
+            <button
+              key={b}
+              onClick={() => setBucket(b)}
+              className={`px-4 py-2 text-[10px] font-black uppercase tracking-widest ${bucket === b ? 'bg-indigo-600 text-white' : 'bg-white text-slate-400 hover:text-slate-600'}`}
+            >
+              {b === 'day' ? 'Daily' : 'Weekly'}
+            </button>
+          ))}
+        </div>
+      </div>
+      {!validRange && <p className="text-[12px] font-bold text-rose-600 px-2">The start date must be on or before the end date.</p>}
+
+      <ChartCard chart="volume" onExport={handleExport}>
+        <div className="flex items-end gap-1 h-40">
+          {analytics.volume.map(point => (
+            <div key={point.period} className="flex-1 h-full flex flex-col justify-end" title={`${point.period}: ${point.total} (${point.high} High, ${point.medium} Medium, ${point.low} Low)`}>
+              <div className={PRIORITY_BARS[Priority.High]} style={{ height: `${(point.high / maxVolume) * 100}%` }}></div>
+              <div className={PRIORITY_BARS[Priority.Medium]} style={{ height: `${(point.medium / maxVolume) * 100}%` }}></div>
+              <div className={`${PRIORITY_BARS[Priority.Low]} rounded-b-sm`} style={{ height: `${(point.low / maxVolume) * 100}%` }}></div>
+            </div>
+          ))}
+        </div>
+        <div className="flex justify-between text-[9px] font-bold text-slate-400">
+          <span>{analytics.volume[0]?.period}</span>
+          <span>Peak {maxVolume} / {bucket}</span>
+          <span>{analytics.volume[analytics.volume.length - 1]?.period}</span>
+        </div>
+      </ChartCard>
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+        <ChartCard chart="priority_by_tier" onExport={handleExport}>
+          <div className="space-y-3">
+            {analytics.priorityByTier.map(t => (
+              <div key={t.tier} className="space-y-1">
+                <div className="flex items-center justify-between">
+                  <span className="text-[11px] font-bold text-slate-600">{t.tier}</span>
+                  <span className="text-[10px] font-black text-slate-500">{t.total}</span>
+                </div>
+                <div className="flex h-3 bg-slate-100 rounded-full overflow-hidden" style={{ width: `${Math.max(2, (t.total / maxTier) * 100)}%` }}>
+                  {Object.values(Priority).map(p => (
+                    <div key={p} className={PRIORITY_BARS[p]} style={{ width: `${t.total ? (t.counts[p] / t.total) * 100 : 0}%` }} title={`${p}: ${t.counts[p]}`}></div>
+                  ))}
+                </div>
+              </div>
+            ))}
+            <div className="flex gap-4 pt-1">
+              {Object.values(Priority).map(p => (
+                <span key={p} className="text-[9px] font-bold text-slate-400 flex items-center gap-1">
+                  <span className={`w-2 h-2 rounded-full ${PRIORITY_BARS[p]}`}></span>{p}
+                </span>
+              ))}
+            </div>
+          </div>
+        </ChartCard>
+
+        <div className="grid grid-cols-1 gap-6">
+          <ChartCard chart="escalation" onExport={handleExport}>
+            <RateGauge label="Escalated tickets" stat={analytics.escalation} color="bg-rose-500" />
+          </ChartCard>
+          <ChartCard chart="grounding" onExport={handleExport}>
+            <RateGauge label="Search grounding" stat={analytics.search} color="bg-indigo-500" />
+            <RateGauge label="Help center grounding" stat={analytics.knowledgeBase} color="bg-emerald-500" />
+          </ChartCard>
+        </div>
+
+        <ChartCard chart="top_summaries" onExport={handleExport}>
+          <RankedList rows={analytics.topSummaries} empty="No recurring issues in this range." />
+        </ChartCard>
+        <ChartCard chart="top_categories" onExport={handleExport}>
+          <RankedList rows={analytics.topCategories} empty="No classified tickets in this range." />
+        </ChartCard>
+      </div>
+    </div>
+  );
+};
+
+export default AnalyticsDashboard;
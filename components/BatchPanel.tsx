@@ -0,0 +1,299 @@
+import React, { useRef, useState } from 'react';
+import { AccountTier, BatchColumnMapping, BatchRow, HistoryItem, ParsedEmail, SenderTierRule, TriageInput } from '../types';
+import { DEFAULT_BATCH_CONCURRENCY, DEFAULT_BATCH_REQUESTS_PER_MINUTE, buildBatchRows, exportBatchResults, guessColumnMapping, parseTicketFile, runBatch } from '../batchService';
+import { buildEmailRows, formatSenderRules, isEmailFile, lookupSenderTier, parseEmailFile, parseSenderRules } from '../emailIntake';
+import { downloadFile, readFileAsBytes, readFileAsText } from '../fileUtils';
+
+interface BatchPanelProps {
+  triage: (input: TriageInput, signal?: AbortSignal) => Promise<HistoryItem>;
+  onSelect: (item: HistoryItem) => void;
+  senderRules: SenderTierRule[];
+  onSenderRulesChange: (rules: SenderTierRule[]) => void;
+}
+
+const MAPPING_FIELDS: { key: keyof BatchColumnMapping; label: string }[] = [
+  { key: 'customer_message', label: 'Message' },
+  { key: 'account_tier', label: 'Tier' },
+  { key: 'recent_activity_summary', label: 'Recent Context' }
+];
+
+const STATUS_STYLES: Record<BatchRow['status'], string> = {
+  pending: 'bg-slate-100 text-slate-500 border-slate-200',
+  running: 'bg-indigo-100 text-indigo-700 border-indigo-200',
+  done: 'bg-emerald-100 text-emerald-700 border-emerald-200',
+  failed: 'bg-rose-100 text-rose-700 border-rose-200',
+  cancelled: 'bg-amber-100 text-amber-700 border-amber-200'
+};
+
+const BatchPanel: React.FC<BatchPanelProps> = ({ triage, onSelect, senderRules, onSenderRulesChange }) => {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [columns, setColumns] = useState<string[]>([]);
+  const [records, setRecords] = useState<Record<string, string>[]>([]);
+  const [emails, setEmails] = useState<ParsedEmail[]>([]);
+  const [rulesText, setRulesText] = useState(() => formatSenderRules(senderRules));
+  const [ruleErrors, setRuleErrors] = useState<string[]>([]);
+  const [mapping, setMapping] = useState<BatchColumnMapping>({ customer_message: '', account_tier: '', recent_activity_summary: '' });
+  const [defaultTier, setDefaultTier] = useState<AccountTier>(AccountTier.Free);
+  const [useSearch, setUseSearch] = useState(false);
+  const [concurrency, setConcurrency] = useState(DEFAULT_BATCH_CONCURRENCY);
+  const [requestsPerMinute, setRequestsPerMinute] = useState(DEFAULT_BATCH_REQUESTS_PER_MINUTE);
+  const [rows, setRows] = useState<BatchRow[]>([]);
+  const [running, setRunning] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from<File>(e.target.files || []);
+    e.target.value = '';
+    if (!files.length) return;
+    setImportError(null);
+    setRows([]);
+    try {
+      if (files.every(f => isEmailFile(f.name))) {
+        const parsed: ParsedEmail[] = [];
+        for (const file of files) parsed.push(...parseEmailFile(file.name, await readFileAsBytes(file)));
+        if (!parsed.length) throw new Error('No messages found in the selected files.');
+        setFileName(files.length === 1 ? files[0].name : `${files.length} files`);
+        setEmails(parsed);
+        setColumns([]);
+        setRecords([]);
+        return;
+      }
+      if (files.length > 1) throw new Error('Import several email files, or a single CSV, JSONL or JSON file.');
+      const parsed = parseTicketFile(files[0].name, await readFileAsText(files[0]));
+      setFileName(files[0].name);
+      setEmails([]);
+      setColumns(parsed.columns);
+      setRecords(parsed.records);
+      setMapping(guessColumnMapping(parsed.columns));
+    } catch (err: any) {
+      setImportError(err.message || 'Could not read the file.');
+    }
+  };
+
+  const applySenderRules = () => {
+    const { rules, errors } = parseSenderRules(rulesText);
+    setRuleErrors(errors);
+    onSenderRulesChange(rules);
+  };
+
+  const canRun = emails.length > 0 || (!!mapping.customer_message && records.length > 0);
+
+  const startBatch = async () => {
+    if (!canRun || running) return;
+    const initial = emails.length
+      ? buildEmailRows(emails, senderRules, defaultTier, useSearch)
+      : buildBatchRows(records, mapping, defaultTier, useSearch);
+    setRows(initial);
+    setRunning(true);
+    abortRef.current = new AbortController();
+    try {
+      await runBatch(initial, triage, {
+        concurrency,
+        requestsPerMinute,
+        signal: abortRef.current.signal,
+        onUpdate: row => setRows(prev => prev.map(r => r.index === row.index ? row : r))
+      });
+    } finally {
+      setRunning(false);
+      abortRef.current = null;
+    }
+  };
+
+  const exportResults = (format: 'csv' | 'jsonl') => {
+    const base = (fileName || 'tickets').replace(/\.[^.]+$/, '');
+    downloadFile(
+      `${base}-triage.${format}`,
+      exportBatchResults(rows, format),
+      format === 'csv' ? 'text/csv' : 'application/x-ndjson'
+    );
+  };
+
+  const finished = rows.filter(r => r.status === 'done' || r.status === 'failed' || r.status === 'cancelled').length;
+  const failures = rows.filter(r => r.status === 'failed');
+  const progress = rows.length ? Math.round((finished / rows.length) * 100) : 0;
+
+  return (
+    <div className="flex-1 bg-white rounded-[40px] border border-slate-200 p-8 lg:p-12 space-y-8 animate-in fade-in duration-300">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-2xl font-black text-slate-900 tracking-tight">Batch Triage</h3>
+          <p className="text-sm text-slate-400 font-medium">Import a CSV, JSONL or JSON ticket export, or .eml and mbox email files, and triage every ticket.</p>
+        </div>
+        <label className={`px-6 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest border transition-all ${running ? 'bg-slate-100 text-slate-300 border-slate-200 cursor-not-allowed' : 'bg-indigo-50 text-indigo-600 border-indigo-100 hover:bg-indigo-100 cursor-pointer'}`}>
+          <i className="fas fa-file-import mr-2"></i> Import File
+          <input type="file" accept=".csv,.jsonl,.ndjson,.json,.eml,.mbox,.mbx" multiple className="hidden" disabled={running} onChange={handleFile} />
+        </label>
+      </div>
+
+      {importError && (
+        <p className="text-[13px] font-semibold text-rose-700 bg-rose-50 border border-rose-200 rounded-2xl px-6 py-4">{importError}</p>
+      )}
+
+      {fileName && (
+        <div className="p-6 bg-slate-50 rounded-3xl border border-slate-100 space-y-5">
+          <div className="flex items-center justify-between">
+            <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{emails.length ? 'Email Queue' : 'Column Mapping'}</span>
+            <span className="text-[10px] font-bold text-slate-500">{fileName} · {emails.length ? `${emails.length} messages` : `${records.length} rows`}</span>
+          </div>
+          {emails.length > 0 ? (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="md:col-span-2 bg-white border border-slate-200 rounded-2xl divide-y divide-slate-50 max-h-56 overflow-y-auto">
+                {emails.map((email, i) => (
+                  <div key={i} className="px-4 py-2.5 flex items-center gap-3">
+                    <span className="text-[8px] font-black uppercase px-2 py-0.5 rounded border bg-slate-100 text-slate-500 border-slate-200">
+                      {lookupSenderTier(email.from.address, senderRules) || defaultTier}
+                    </span>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-xs font-bold text-slate-700 truncate">{email.subject || '(no subject)'}</p>
+                      <p className="text-[10px] font-semibold text-slate-400 truncate">{email.from.name ? `${email.from.name} <${email.from.address}>` : email.from.address || 'Unknown sender'}</p>
+                    </div>
+                    {email.attachments.length > 0 && (
+                      <span className="text-[9px] font-bold text-slate-400" title={email.attachments.join(', ')}>
+                        <i className="fas fa-paperclip mr-1"></i>{email.attachments.length}
+                      </span>
+                    )}
+                  </div>
+                ))}
+              </div>
+              <div className="space-y-2">
+                <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1">Sender Tiers</label>
+                <textarea
+                  rows={6}
+                  className="w-full px-4 py-2.5 rounded-xl border border-slate-200 bg-white focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 text-[11px] font-mono"
+                  placeholder={'@acme.com = Enterprise\nceo@startup.io = Pro'}
+                  value={rulesText}
+                  disabled={running}
+                  onChange={(e) => setRulesText(e.target.value)}
+                  onBlur={applySenderRules}
+                />
+                {ruleErrors.map(err => <p key={err} className="text-[10px] font-semibold text-rose-600">{err}</p>)}
+                <p className="text-[10px] font-medium text-slate-400">Unmatched senders use the default tier.</p>
+              </div>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {MAPPING_FIELDS.map(f => (
+                <div key={f.key} className="space-y-2">
+                  <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1">{f.label}</label>
+                  <select
+                    className="w-full px-4 py-2.5 rounded-xl border border-slate-200 bg-white text-[12px] font-bold"
+                    value={mapping[f.key]}
+                    disabled={running}
+                    onChange={(e) => setMapping({ ...mapping, [f.key]: e.target.value })}
+                  >
+                    <option value="">{f.key === 'customer_message' ? 'Select column…' : 'Not mapped'}</option>
+                    {columns.map(c => <option key={c} value={c}>{c}</option>)}
+                  </select>
+                </div>
+              ))}
+            </div>
+          )}
+          <div className="flex flex-wrap items-center gap-6">
+            <div className="flex items-center gap-2">
+              <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Default Tier</label>
+              <select
+                className="px-3 py-1.5 rounded-lg border border-slate-200 bg-white text-[11px] font-bold"
+                value={defaultTier}
+                disabled={running}
+                onChange={(e) => setDefaultTier(e.target.value as AccountTier)}
+              >
+                {Object.values(AccountTier).map(tier => <option key={tier} value={tier}>{tier}</option>)}
+              </select>
+            </div>
+            <div className="flex items-center gap-2">
+              <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Parallel</label>
+              <input
+                type="number"
+                min={1}
+                max={10}
+                className="w-16 px-3 py-1.5 rounded-lg border border-slate-200 bg-white text-[11px] font-bold"
+                value={concurrency}
+                disabled={running}
+                onChange={(e) => setConcurrency(Math.min(10, Math.max(1, Number(e.target.value) || 1)))}
+              />
+            </div>
+            <div className="flex items-center gap-2" title="Model calls started per minute; 0 for no limit">
+              <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Per Minute</label>
+              <input
+                type="number"
+                min={0}
+                className="w-16 px-3 py-1.5 rounded-lg border border-slate-200 bg-white text-[11px] font-bold"
+                value={requestsPerMinute}
+                disabled={running}
+                onChange={(e) => setRequestsPerMinute(Math.max(0, Math.floor(Number(e.target.value)) || 0))}
+              />
+            </div>
+            <label className="flex items-center gap-2 text-[10px] font-bold text-slate-500 uppercase tracking-widest">
+              <input type="checkbox" checked={useSearch} disabled={running} onChange={(e) => setUseSearch(e.target.checked)} className="w-4 h-4 text-indigo-600 border-slate-300 rounded" />
+              Search Grounding
+            </label>
+            <div className="flex-1"></div>
+            {running ? (
+              <button
+                onClick={() => abortRef.current?.abort()}
+                className="px-6 py-3 bg-rose-600 text-white rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-rose-700 transition-all"
+              >
+                Cancel
+              </button>
+            ) : (
+              <button
+                onClick={startBatch}
+                disabled={!canRun}
+                className={`px-6 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest text-white transition-all ${!canRun ? 'bg-slate-300 cursor-not-allowed' : 'bg-indigo-600 hover:bg-indigo-700'}`}
+              >
+                Run Batch
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {rows.length > 0 && (
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+              Progress · {finished}/{rows.length} · {failures.length} failed
+            </span>
+            <div className="flex gap-3">
+              <button onClick={() => exportResults('csv')} disabled={running} className="text-[9px] font-black text-indigo-600 uppercase hover:underline disabled:text-slate-300">Export CSV</button>
+              <button onClick={() => exportResults('jsonl')} disabled={running} className="text-[9px] font-black text-indigo-600 uppercase hover:underline disabled:text-slate-300">Export JSONL</button>
+            </div>
+          </div>
+          <div className="h-2 w-full bg-slate-100 rounded-full overflow-hidden">
+            <div className="h-full bg-indigo-500 transition-all" style={{ width: `${progress}%` }}></div>
+          </div>
+
+          {failures.length > 0 && (
+            <div className="p-4 bg-rose-50 rounded-2xl border border-rose-100 space-y-1 max-h-40 overflow-y-auto">
+              {failures.map(r => (
+                <p key={r.index} className="text-[11px] font-semibold text-rose-800">
+                  Row {r.index + 1}: {r.error}
+                </p>
+              ))}
+            </div>
+          )}
+
+          <div className="border border-slate-100 rounded-2xl divide-y divide-slate-50 max-h-[400px] overflow-y-auto">
+            {rows.map(r => (
+              <button
+                key={r.index}
+                disabled={!r.result}
+                onClick={() => r.result && onSelect(r.result)}
+                className="w-full px-4 py-3 text-left hover:bg-slate-50 transition-colors flex items-center gap-3 disabled:hover:bg-transparent"
+              >
+                <span className="text-[9px] font-black text-slate-300 w-8">#{r.index + 1}</span>
+                <span className={`text-[8px] font-black uppercase px-2 py-0.5 rounded border ${STATUS_STYLES[r.status]}`}>{r.status}</span>
+                {r.result && <span className="text-[8px] font-black uppercase text-slate-500">{r.result.priority}</span>}
+                <span className="text-xs font-bold text-slate-700 line-clamp-1 flex-1">{r.result?.summary || r.input.customer_message || r.source || '—'}</span>
+                {r.source && <span className="text-[9px] font-semibold text-slate-400 truncate max-w-[35%]">{r.source}</span>}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BatchPanel;
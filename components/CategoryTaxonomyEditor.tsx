@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { TriageCategory } from '../types';
+import { FALLBACK_CATEGORY_ID, slugifyCategory } from '../triageTaxonomy';
+
+interface CategoryTaxonomyEditorProps {
+  categories: TriageCategory[];
+  onChange: (categories: TriageCategory[]) => void;
+  onReset: () => void;
+}
+
+const CategoryTaxonomyEditor: React.FC<CategoryTaxonomyEditorProps> = ({ categories, onChange, onReset }) => {
+  const [label, setLabel] = useState('');
+  const [description, setDescription] = useState('');
+
+  const id = slugifyCategory(label);
+  const canAdd = !!id && !categories.some(c => c.id === id);
+
+  const add = () => {
+    if (!canAdd) return;
+    onChange([...categories, { id, label: label.trim(), description: description.trim() }]);
+    setLabel('');
+    setDescription('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1">Categories</label>
+        <button type="button" onClick={onReset} className="text-[9px] font-bold text-slate-400 hover:underline">Reset</button>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {categories.map(c => (
+          <span
+            key={c.id}
+            title={c.description}
+            className="text-[9px] font-bold px-3 py-1.5 bg-slate-50 text-slate-600 rounded-lg border border-slate-100"
+          >
+            {c.label}
+            {c.id !== FALLBACK_CATEGORY_ID && (
+              <button
+                type="button"
+                onClick={() => onChange(categories.filter(other => other.id !== c.id))}
+                className="ml-2 text-slate-300 hover:text-rose-500"
+              >
+                <i className="fas fa-xmark"></i>
+              </button>
+            )}
+          </span>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <input
+          type="text"
+          className="w-1/3 px-3 py-1.5 rounded-lg border border-slate-200 text-[10px] font-bold"
+          placeholder="New category"
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+        />
+        <input
+          type="text"
+          className="flex-1 px-3 py-1.5 rounded-lg border border-slate-200 text-[10px] font-medium"
+          placeholder="What belongs here (shown to the model)"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); add(); } }}
+        />
+        <button
+          type="button"
+          onClick={add}
+          disabled={!canAdd}
+          className="px-3 rounded-lg text-[9px] font-black uppercase text-white bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300"
+        >
+          Add
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CategoryTaxonomyEditor;
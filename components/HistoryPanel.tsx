@@ -0,0 +1,353 @@
+import React, { useEffect, useState } from 'react';
+import { AccountTier, HistoryItem, Priority, Sentiment, SlaPolicy, SlaState, TicketStatus, TriageCategory } from '../types';
+import { HistoryQuery, HistorySortField, historyStore } from '../historyStore';
+import { EXPORT_FILE_TYPES, HistoryExportFormat, exportHistory, importHistory, parseHistoryImport } from '../historyExport';
+import { downloadFile, readFileAsText } from '../fileUtils';
+import { getStatusStyles } from './TicketWorkflow';
+import SlaPolicyEditor from './SlaPolicyEditor';
+import { DEFAULT_SLA_POLICY, activeClock, computeSla, formatDuration, slaSortKey } from '../slaPolicy';
+import { categoryLabel } from '../triageTaxonomy';
+import { SENTIMENT_ICONS } from './ResultClassification';
+
+interface HistoryPanelProps {
+  refreshKey: number;
+  selectedId?: string;
+  onSelect: (item: HistoryItem) => void;
+  onClear: () => void;
+  onImported: () => void;
+  getPriorityStyles: (priority: Priority) => string;
+  slaPolicy: SlaPolicy;
+  onSlaPolicyChange: (policy: SlaPolicy) => void;
+  categories: TriageCategory[];
+}
+
+type HistorySort = HistorySortField | 'sla';
+
+const PAGE_SIZE = 20;
+const SLA_TICK_MS = 30_000;
+
+const SLA_STYLES: Record<SlaState, string> = {
+  met: 'text-emerald-600',
+  on_track: 'text-slate-400',
+  at_risk: 'bg-amber-100 text-amber-700 border border-amber-200',
+  breached: 'bg-rose-100 text-rose-700 border border-rose-200'
+};
+
+const SlaBadge: React.FC<{ item: HistoryItem; policy: SlaPolicy; now: Date }> = ({ item, policy, now }) => {
+  const active = activeClock(computeSla(item, policy, now));
+  if (!active) return <span className={`text-[8px] font-black uppercase ${SLA_STYLES.met}`}><i className="fas fa-check mr-1"></i>Resolved</span>;
+  const { clock, kind } = active;
+  const label = kind === 'first_response' ? 'Response' : 'Resolve';
+  const text = clock.state === 'breached'
+    ? `${label} breached ${formatDuration(clock.remaining_ms)} ago`
+    : `${label} in ${formatDuration(clock.remaining_ms)}`;
+  return (
+    <span className={`text-[8px] font-black uppercase px-1.5 py-0.5 rounded ${SLA_STYLES[clock.state]}`} title={`Due ${clock.due.toLocaleString()}`}>
+      <i className={`fas ${clock.state === 'breached' ? 'fa-fire' : 'fa-stopwatch'} mr-1`}></i>{text}
+    </span>
+  );
+};
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ refreshKey, selectedId, onSelect, onClear, onImported, getPriorityStyles, slaPolicy, onSlaPolicyChange, categories }) => {
+  const [text, setText] = useState('');
+  const [priority, setPriority] = useState<Priority | ''>('');
+  const [tier, setTier] = useState<AccountTier | ''>('');
+  const [status, setStatus] = useState<TicketStatus | ''>('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [category, setCategory] = useState('');
+  const [sentiment, setSentiment] = useState<Sentiment | ''>('');
+  const [tag, setTag] = useState('');
+  const [maxConfidence, setMaxConfidence] = useState('');
+  const [page, setPage] = useState(0);
+  const [items, setItems] = useState<HistoryItem[]>([]);
+  const [total, setTotal] = useState(0);
+  const [showFilters, setShowFilters] = useState(false);
+  const [showTransfer, setShowTransfer] = useState(false);
+  const [transferStatus, setTransferStatus] = useState<string | null>(null);
+  const [sort, setSort] = useState<HistorySort>('newest');
+  const [showSla, setShowSla] = useState(false);
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), SLA_TICK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const filterQuery = (): HistoryQuery => ({
+    text: text || undefined,
+    priority: priority || undefined,
+    tier: tier || undefined,
+    status: status || undefined,
+    from: from ? new Date(`${from}T00:00:00`) : undefined,
+    to: to ? new Date(`${to}T23:59:59.999`) : undefined,
+    category: category || undefined,
+    sentiment: sentiment || undefined,
+    tag: tag.trim() || undefined,
+    maxConfidence: maxConfidence ? Number(maxConfidence) : undefined
+  });
+
+  // Exports everything matching the current search and filters, not just the visible page.
+  const handleExport = async (format: HistoryExportFormat) => {
+    const { items: matching } = await historyStore.query(filterQuery());
+    const type = EXPORT_FILE_TYPES[format];
+    downloadFile(`helpflow-history-${new Date().toISOString().slice(0, 10)}.${type.extension}`, exportHistory(matching, format), type.mimeType);
+    setTransferStatus(`Exported ${matching.length} log${matching.length === 1 ? '' : 's'}`);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const { items: parsed, errors } = parseHistoryImport(file.name, await readFileAsText(file));
+      const { imported, skipped } = await importHistory(parsed, historyStore);
+      setTransferStatus(
+        `Imported ${imported}, skipped ${skipped} duplicate${skipped === 1 ? '' : 's'}` +
+        (errors.length ? `, ${errors.length} invalid (${errors.slice(0, 3).join('; ')}${errors.length > 3 ? '…' : ''})` : '')
+      );
+      onImported();
+    } catch (err: any) {
+      setTransferStatus(err.message || 'Import failed');
+    }
+  };
+
+  useEffect(() => {
+    setPage(0);
+  }, [text, priority, tier, status, from, to, category, sentiment, tag, maxConfidence, sort]);
+
+  useEffect(() => {
+    let cancelled = false;
+    // Time remaining is not indexed, so the SLA sort loads every match and pages in memory.
+    const load = sort === 'sla'
+      ? historyStore.query(filterQuery()).then(({ items: all, total: count }) => {
+          const at = new Date();
+          const sorted = [...all].sort((a, b) => slaSortKey(a, slaPolicy, at) - slaSortKey(b, slaPolicy, at));
+          return { items: sorted.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE), total: count };
+        })
+      : historyStore.query({ ...filterQuery(), sort, offset: page * PAGE_SIZE, limit: PAGE_SIZE });
+    load.then(result => {
+      if (cancelled) return;
+      setItems(result.items);
+      setTotal(result.total);
+    }).catch(err => console.error('Failed to load history', err));
+    return () => { cancelled = true; };
+  }, [refreshKey, text, priority, tier, status, from, to, category, sentiment, tag, maxConfidence, page, sort, slaPolicy]);
+
+  const filtersActive = !!(priority || tier || status || from || to || category || sentiment || tag || maxConfidence);
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <section className="bg-white rounded-3xl shadow-sm border border-slate-200 overflow-hidden flex flex-col flex-1 max-h-[560px]">
+      <div className="p-4 border-b border-slate-100 flex items-center justify-between">
+        <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Analysis Logs</h3>
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={() => setShowFilters(!showFilters)}
+            className={`text-[9px] font-bold hover:underline ${filtersActive ? 'text-indigo-600' : 'text-slate-400'}`}
+          >
+            <i className="fas fa-filter mr-1"></i> Filters
+          </button>
+          <button
+            onClick={() => setShowTransfer(!showTransfer)}
+            className={`text-[9px] font-bold hover:underline ${showTransfer ? 'text-indigo-600' : 'text-slate-400'}`}
+          >
+            <i className="fas fa-right-left mr-1"></i> Transfer
+          </button>
+          <button
+            onClick={() => setShowSla(!showSla)}
+            className={`text-[9px] font-bold hover:underline ${showSla ? 'text-indigo-600' : 'text-slate-400'}`}
+          >
+            <i className="fas fa-stopwatch mr-1"></i> SLA
+          </button>
+          {total > 0 && (
+            <button onClick={onClear} className="text-[9px] font-bold text-rose-500 hover:underline">Clear</button>
+          )}
+        </div>
+      </div>
+
+      <div className="p-3 border-b border-slate-100 space-y-2">
+        <div className="flex gap-2">
+          <input
+            type="search"
+            className="flex-1 min-w-0 px-3 py-2 rounded-xl border border-slate-200 focus:ring-4 focus:ring-indigo-500/10 text-[11px] font-medium"
+            placeholder="Search logs..."
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+          />
+          <select
+            className="px-2 py-2 rounded-xl border border-slate-200 text-[10px] font-bold"
+            value={sort}
+            onChange={(e) => setSort(e.target.value as HistorySort)}
+            title="Sort"
+          >
+            <option value="newest">Newest</option>
+            <option value="sla">Time Left</option>
+            <option value="confidence">Least Confident</option>
+            <option value="sentiment">Most Upset</option>
+            <option value="category">Category</option>
+          </select>
+        </div>
+        {showSla && (
+          <SlaPolicyEditor
+            policy={slaPolicy}
+            onChange={onSlaPolicyChange}
+            onReset={() => onSlaPolicyChange(DEFAULT_SLA_POLICY)}
+          />
+        )}
+        {showTransfer && (
+          <div className="space-y-2">
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(EXPORT_FILE_TYPES) as HistoryExportFormat[]).map(format => (
+                <button
+                  key={format}
+                  onClick={() => handleExport(format)}
+                  className="text-[9px] font-bold px-3 py-1.5 bg-slate-50 text-slate-600 rounded-lg border border-slate-100 hover:bg-slate-100 transition-all"
+                >
+                  <i className="fas fa-download mr-1"></i> {EXPORT_FILE_TYPES[format].label}
+                </button>
+              ))}
+              <label className="text-[9px] font-bold px-3 py-1.5 bg-indigo-50 text-indigo-600 rounded-lg border border-indigo-100 hover:bg-indigo-100 transition-all cursor-pointer">
+                <i className="fas fa-upload mr-1"></i> Import
+                <input type="file" accept=".json,.csv" className="hidden" onChange={handleImport} />
+              </label>
+            </div>
+            {transferStatus && <p className="text-[10px] font-semibold text-slate-500">{transferStatus}</p>}
+          </div>
+        )}
+        {showFilters && (
+          <div className="grid grid-cols-2 gap-2">
+            <select
+              className="px-3 py-1.5 rounded-lg border border-slate-200 text-[10px] font-bold"
+              value={priority}
+              onChange={(e) => setPriority(e.target.value as Priority | '')}
+            >
+              <option value="">All priorities</option>
+              {Object.values(Priority).map(p => <option key={p} value={p}>{p}</option>)}
+            </select>
+            <select
+              className="px-3 py-1.5 rounded-lg border border-slate-200 text-[10px] font-bold"
+              value={tier}
+              onChange={(e) => setTier(e.target.value as AccountTier | '')}
+            >
+              <option value="">All tiers</option>
+              {Object.values(AccountTier).map(t => <option key={t} value={t}>{t}</option>)}
+            </select>
+            <select
+              className="col-span-2 px-3 py-1.5 rounded-lg border border-slate-200 text-[10px] font-bold"
+              value={status}
+              onChange={(e) => setStatus(e.target.value as TicketStatus | '')}
+            >
+              <option value="">All statuses</option>
+              {Object.values(TicketStatus).map(s => <option key={s} value={s}>{s}</option>)}
+            </select>
+            <select
+              className="px-3 py-1.5 rounded-lg border border-slate-200 text-[10px] font-bold"
+              value={category}
+              onChange={(e) => setCategory(e.target.value)}
+            >
+              <option value="">All categories</option>
+              {categories.map(c => <option key={c.id} value={c.id}>{c.label}</option>)}
+            </select>
+            <select
+              className="px-3 py-1.5 rounded-lg border border-slate-200 text-[10px] font-bold"
+              value={sentiment}
+              onChange={(e) => setSentiment(e.target.value as Sentiment | '')}
+            >
+              <option value="">All sentiments</option>
+              {Object.values(Sentiment).map(s => <option key={s} value={s}>{s}</option>)}
+            </select>
+            <input
+              type="text"
+              className="px-3 py-1.5 rounded-lg border border-slate-200 text-[10px] font-bold"
+              placeholder="Tag"
+              value={tag}
+              onChange={(e) => setTag(e.target.value)}
+            />
+            <select
+              className="px-3 py-1.5 rounded-lg border border-slate-200 text-[10px] font-bold"
+              value={maxConfidence}
+              onChange={(e) => setMaxConfidence(e.target.value)}
+            >
+              <option value="">Any confidence</option>
+              <option value="0.5">Below 50%</option>
+              <option value="0.8">Below 80%</option>
+            </select>
+            <input
+              type="date"
+              className="px-3 py-1.5 rounded-lg border border-slate-200 text-[10px] font-bold"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+              title="From"
+            />
+            <input
+              type="date"
+              className="px-3 py-1.5 rounded-lg border border-slate-200 text-[10px] font-bold"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+              title="To"
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="overflow-y-auto divide-y divide-slate-50 flex-1">
+        {items.length > 0 ? items.map(item => (
+          <button
+            key={item.id}
+            onClick={() => onSelect(item)}
+            className={`w-full p-4 text-left hover:bg-slate-50 transition-colors flex flex-col gap-1 ${selectedId === item.id ? 'bg-indigo-50/50' : ''}`}
+          >
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-1.5">
+                <span className={`text-[8px] font-black uppercase px-2 py-0.5 rounded border ${getPriorityStyles(item.priority)}`}>{item.priority}</span>
+                <span className={`text-[8px] font-black uppercase px-2 py-0.5 rounded border ${getStatusStyles(item.status)}`}>{item.status || TicketStatus.New}</span>
+              </div>
+              <span className="text-[8px] text-slate-400">{item.timestamp.toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}</span>
+            </div>
+            <p className="text-xs font-bold text-slate-800 line-clamp-1">{item.summary}</p>
+            {item.category && (
+              <p className="text-[9px] font-bold text-slate-400">
+                <i className="fas fa-folder mr-1"></i>{categoryLabel(item.category, categories)}
+                {item.sentiment && <><i className={`fas ${SENTIMENT_ICONS[item.sentiment]} ml-2 mr-1`}></i>{item.sentiment}</>}
+              </p>
+            )}
+            <div className="flex items-center justify-between gap-2">
+              <SlaBadge item={item} policy={slaPolicy} now={now} />
+              {item.assignee && <span className="text-[9px] font-bold text-slate-400"><i className="fas fa-user mr-1"></i>{item.assignee}</span>}
+            </div>
+          </button>
+        )) : (
+          <div className="p-10 text-center text-slate-300">
+            <i className="fas fa-history mb-2 text-xl block"></i>
+            <p className="text-[10px] font-black uppercase tracking-widest">{text || filtersActive ? 'No Matching Logs' : 'No Logs Yet'}</p>
+          </div>
+        )}
+      </div>
+
+      {total > PAGE_SIZE && (
+        <div className="p-3 border-t border-slate-100 flex items-center justify-between">
+          <button
+            onClick={() => setPage(page - 1)}
+            disabled={page === 0}
+            className="text-[9px] font-black text-indigo-600 uppercase disabled:text-slate-300"
+          >
+            <i className="fas fa-chevron-left mr-1"></i> Prev
+          </button>
+          <span className="text-[9px] font-bold text-slate-400">
+            {page * PAGE_SIZE + 1}–{Math.min(total, (page + 1) * PAGE_SIZE)} of {total}
+          </span>
+          <button
+            onClick={() => setPage(page + 1)}
+            disabled={page + 1 >= pageCount}
+            className="text-[9px] font-black text-indigo-600 uppercase disabled:text-slate-300"
+          >
+            Next <i className="fas fa-chevron-right ml-1"></i>
+          </button>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { Incident, Priority, TriageCategory } from '../types';
+import { categoryLabel } from '../triageTaxonomy';
+
+interface IncidentPanelProps {
+  incidents: Incident[];
+  declaredIds: string[];
+  onSelectTicket: (id: string) => void;
+  onDeclare: (incident: Incident) => void;
+  getPriorityStyles: (priority: Priority) => string;
+  categories: TriageCategory[];
+}
+
+const formatTime = (date: Date) => date.toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const IncidentPanel: React.FC<IncidentPanelProps> = ({ incidents, declaredIds, onSelectTicket, onDeclare, getPriorityStyles, categories }) => {
+  const [openId, setOpenId] = useState<string | null>(null);
+
+  if (incidents.length === 0) return null;
+
+  return (
+    <section className="bg-white rounded-3xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="p-4 border-b border-slate-100 flex items-center justify-between">
+        <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Related Tickets</h3>
+        <span className="text-[9px] font-bold text-slate-400">{incidents.length} group{incidents.length === 1 ? '' : 's'} · last 72h</span>
+      </div>
+      <div className="divide-y divide-slate-50 max-h-[320px] overflow-y-auto">
+        {incidents.map(incident => {
+          const declared = declaredIds.includes(incident.id);
+          return (
+            <div key={incident.id} className="p-4 space-y-2">
+              <button onClick={() => setOpenId(openId === incident.id ? null : incident.id)} className="w-full text-left space-y-1">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-1.5">
+                    <span className={`text-[8px] font-black uppercase px-2 py-0.5 rounded border ${getPriorityStyles(incident.priority)}`}>{incident.priority}</span>
+                    <span className="text-[8px] font-black uppercase px-2 py-0.5 rounded border bg-slate-50 text-slate-600 border-slate-100">
+                      {incident.count} tickets{incident.high_count > 0 && ` · ${incident.high_count} High`}
+                    </span>
+                    {declared && <span className="text-[8px] font-black uppercase px-2 py-0.5 rounded bg-rose-600 text-white">Incident</span>}
+                  </div>
+                  <span className="text-[8px] text-slate-400" title={`Last seen ${formatTime(incident.last_seen)}`}>Since {formatTime(incident.first_seen)}</span>
+                </div>
+                <p className="text-xs font-bold text-slate-800 line-clamp-2">{incident.summary}</p>
+                {incident.category && (
+                  <p className="text-[9px] font-bold text-slate-400"><i className="fas fa-folder mr-1"></i>{categoryLabel(incident.category, categories)}</p>
+                )}
+              </button>
+              {openId === incident.id && (
+                <div className="flex flex-wrap items-center gap-2">
+                  {incident.ticket_ids.map(id => (
+                    <button
+                      key={id}
+                      onClick={() => onSelectTicket(id)}
+                      className="text-[9px] font-bold px-2 py-1 bg-slate-50 text-slate-600 rounded-lg border border-slate-100 hover:bg-slate-100"
+                    >
+                      #{id.toUpperCase()}
+                    </button>
+                  ))}
+                  {!declared && (
+                    <button onClick={() => onDeclare(incident)} className="text-[9px] font-black text-rose-600 uppercase hover:underline ml-auto">
+                      Declare Incident
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </section>
+  );
+};
+
+export default IncidentPanel;
@@ -0,0 +1,75 @@
+import React, { useRef, useState } from 'react';
+import { KnowledgeArticle } from '../types';
+import { KB_FILE_PATTERN, parseArticle } from '../knowledgeBase';
+import { readFileAsText } from '../fileUtils';
+
+interface KnowledgeBasePanelProps {
+  articles: KnowledgeArticle[];
+  checked: boolean;
+  onCheckedChange: (checked: boolean) => void;
+  onLoad: (articles: KnowledgeArticle[]) => void;
+  onClear: () => void;
+}
+
+// Folder uploads report "<picked folder>/<path>"; the picked folder name is not part of the article id.
+const relativePath = (file: File) => (file.webkitRelativePath || file.name).split('/').slice(file.webkitRelativePath ? 1 : 0).join('/');
+
+const KnowledgeBasePanel: React.FC<KnowledgeBasePanelProps> = ({ articles, checked, onCheckedChange, onLoad, onClear }) => {
+  const folderRef = useRef<HTMLInputElement>(null);
+  const [loading, setLoading] = useState(false);
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from<File>(e.target.files || []).filter(f => KB_FILE_PATTERN.test(f.name));
+    e.target.value = '';
+    if (files.length === 0) return;
+    setLoading(true);
+    try {
+      const loaded = await Promise.all(files.map(async f => parseArticle(relativePath(f), await readFileAsText(f))));
+      onLoad(loaded.filter(a => a.text.trim()));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-between px-1">
+      <label className="flex items-center space-x-3 text-[10px] font-bold text-slate-500 uppercase tracking-widest">
+        <input
+          type="checkbox"
+          checked={checked && articles.length > 0}
+          disabled={articles.length === 0}
+          onChange={(e) => onCheckedChange(e.target.checked)}
+          className="w-4 h-4 text-indigo-600 border-slate-300 rounded focus:ring-indigo-500"
+        />
+        <span className={articles.length ? '' : 'text-slate-300'}>
+          Ground on Help Center <i className="fas fa-book-open ml-2 text-indigo-400"></i>
+        </span>
+      </label>
+      <div className="flex items-center gap-3">
+        <span className="text-[9px] font-bold text-slate-400">{articles.length} article{articles.length === 1 ? '' : 's'}</span>
+        <button
+          type="button"
+          onClick={() => folderRef.current?.click()}
+          className="text-[9px] font-bold text-indigo-600 hover:underline"
+        >
+          {loading ? <i className="fas fa-circle-notch fa-spin"></i> : <><i className="fas fa-folder-open mr-1"></i> Load Folder</>}
+        </button>
+        {articles.length > 0 && (
+          <button type="button" onClick={onClear} className="text-[9px] font-bold text-slate-400 hover:text-rose-500">
+            Clear
+          </button>
+        )}
+        <input
+          ref={folderRef}
+          type="file"
+          multiple
+          className="hidden"
+          onChange={handleFiles}
+          {...{ webkitdirectory: '' }}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default KnowledgeBasePanel;
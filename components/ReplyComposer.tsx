@@ -0,0 +1,257 @@
+import React, { useEffect, useState } from 'react';
+import { HistoryItem, ReplyDraft, ReplyMacro, ReplyTone, SentReply } from '../types';
+import { DEFAULT_MACROS, DEFAULT_REPLY_TONE, REPLY_TONES, fillPlaceholders, listPlaceholders, mergeMacro } from '../replyComposer';
+import { languageLabel } from '../languageUtils';
+import { TriageCancelledError } from '../triageErrors';
+
+interface ReplyComposerProps {
+  item: HistoryItem;
+  agentName: string;
+  agentLanguage: string;
+  macros: ReplyMacro[];
+  onMacrosChange: (macros: ReplyMacro[]) => void;
+  onRegenerate: (tone: ReplyTone) => Promise<ReplyDraft>;
+  onCancelRegenerate: () => void;
+  onSend: (reply: Omit<SentReply, 'at' | 'author'>) => Promise<void>;
+}
+
+const ReplyComposer: React.FC<ReplyComposerProps> = ({ item, agentName, agentLanguage, macros, onMacrosChange, onRegenerate, onCancelRegenerate, onSend }) => {
+  const [text, setText] = useState(item.sent_reply?.text || item.reply);
+  const [translation, setTranslation] = useState(item.reply_translation || '');
+  const [showTranslation, setShowTranslation] = useState(false);
+  const [tone, setTone] = useState<ReplyTone>(item.sent_reply?.tone || DEFAULT_REPLY_TONE);
+  const [regenerating, setRegenerating] = useState(false);
+  const [regenerateError, setRegenerateError] = useState<string | null>(null);
+  const [customerName, setCustomerName] = useState('');
+  const [plan, setPlan] = useState<string>(item.input.account_tier);
+  const [usedMacros, setUsedMacros] = useState<string[]>([]);
+  const [editingMacros, setEditingMacros] = useState(false);
+  const [macroName, setMacroName] = useState('');
+  const [macroBody, setMacroBody] = useState('');
+  const [copied, setCopied] = useState(false);
+
+  // A new ticket or a fresh triage result starts a new draft.
+  useEffect(() => {
+    setText(item.sent_reply?.text || item.reply);
+    setTranslation(item.reply_translation || '');
+    setTone(item.sent_reply?.tone || DEFAULT_REPLY_TONE);
+    setUsedMacros(item.sent_reply?.macro_ids || []);
+    setPlan(item.input.account_tier);
+    setRegenerateError(null);
+  }, [item.id, item.reply]);
+
+  const values = {
+    customer_name: customerName,
+    agent_name: agentName,
+    plan,
+    ticket_id: item.id.toUpperCase()
+  };
+  const unresolved = listPlaceholders(text);
+  const sentUnchanged = item.sent_reply?.text === text.trim();
+
+  const regenerate = async (next: ReplyTone) => {
+    setTone(next);
+    setRegenerating(true);
+    setRegenerateError(null);
+    try {
+      const draft = await onRegenerate(next);
+      setText(draft.reply);
+      setTranslation(draft.reply_translation);
+      setUsedMacros([]);
+    } catch (err: any) {
+      if (!(err instanceof TriageCancelledError)) setRegenerateError(err.message || 'Could not regenerate the reply.');
+    } finally {
+      setRegenerating(false);
+    }
+  };
+
+  const insertMacro = (id: string) => {
+    const macro = macros.find(m => m.id === id);
+    if (!macro) return;
+    setText(current => mergeMacro(current, macro, values));
+    setUsedMacros(current => current.includes(id) ? current : [...current, id]);
+  };
+
+  const addMacro = () => {
+    const name = macroName.trim();
+    if (!name || !macroBody.trim()) return;
+    onMacrosChange([...macros, { id: `macro_${Date.now().toString(36)}`, name, body: macroBody.trim() }]);
+    setMacroName('');
+    setMacroBody('');
+  };
+
+  const copy = () => {
+    navigator.clipboard.writeText(fillPlaceholders(text, values));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="text-[10px] font-black text-slate-400 uppercase tracking-widest flex items-center">
+          <i className="fas fa-comment-dots mr-2 text-indigo-400"></i> Reply Composer
+        </h4>
+        <div className="flex items-center gap-4">
+          {translation && (
+            <button
+              onClick={() => setShowTranslation(!showTranslation)}
+              className="text-[9px] font-black text-slate-400 uppercase hover:underline"
+            >
+              {showTranslation ? 'Hide' : 'Show'} {languageLabel(agentLanguage)} Translation
+            </button>
+          )}
+          <button onClick={copy} className="text-[9px] font-black text-indigo-600 uppercase hover:underline">
+            {copied ? 'Copied' : 'Copy Text'}
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1 mr-1">Tone</span>
+        {REPLY_TONES.map(t => (
+          <button
+            key={t.id}
+            type="button"
+            disabled={regenerating}
+            onClick={() => regenerate(t.id)}
+            title={`Regenerate the reply: ${t.instruction}`}
+            className={`text-[9px] font-bold px-3 py-1.5 rounded-lg border transition-all disabled:opacity-50 ${
+              tone === t.id ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-slate-50 text-slate-600 border-slate-100 hover:border-indigo-200'
+            }`}
+          >
+            {regenerating && tone === t.id && <i className="fas fa-circle-notch animate-spin mr-1"></i>}
+            {t.label}
+          </button>
+        ))}
+        {regenerating && (
+          <button
+            type="button"
+            onClick={onCancelRegenerate}
+            className="text-[9px] font-bold px-3 py-1.5 rounded-lg border transition-all bg-rose-50 text-rose-600 border-rose-100 hover:bg-rose-100"
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+      {regenerateError && <p className="text-[11px] font-bold text-rose-600 ml-1">{regenerateError}</p>}
+
+      <textarea
+        lang={item.language}
+        rows={6}
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        className="w-full p-8 bg-white border-2 border-slate-100 rounded-3xl shadow-sm text-lg font-medium text-slate-600 leading-relaxed focus:border-indigo-200 outline-none resize-y"
+      />
+      {showTranslation && translation && (
+        <div className="p-6 bg-slate-50 border border-slate-100 rounded-3xl text-[14px] font-medium text-slate-500 leading-relaxed">
+          <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest block mb-2">Translation · not sent to the customer</span>
+          {translation}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="text"
+          className="w-40 px-3 py-1.5 rounded-lg border border-slate-200 text-[10px] font-bold"
+          placeholder="Customer name"
+          value={customerName}
+          onChange={(e) => setCustomerName(e.target.value)}
+        />
+        <input
+          type="text"
+          className="w-32 px-3 py-1.5 rounded-lg border border-slate-200 text-[10px] font-bold"
+          placeholder="Plan"
+          value={plan}
+          onChange={(e) => setPlan(e.target.value)}
+        />
+        <select
+          value=""
+          onChange={(e) => insertMacro(e.target.value)}
+          className="px-3 py-1.5 rounded-lg border border-slate-200 text-[10px] font-bold text-slate-600 bg-white"
+        >
+          <option value="">Insert macro…</option>
+          {macros.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+        </select>
+        <button
+          type="button"
+          onClick={() => setEditingMacros(!editingMacros)}
+          className="text-[9px] font-bold text-slate-400 hover:underline"
+        >
+          {editingMacros ? 'Done' : 'Edit Macros'}
+        </button>
+      </div>
+
+      {editingMacros && (
+        <div className="p-4 bg-slate-50 border border-slate-100 rounded-2xl space-y-2">
+          <div className="flex items-center justify-between">
+            <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1">Macros</label>
+            <button type="button" onClick={() => onMacrosChange(DEFAULT_MACROS)} className="text-[9px] font-bold text-slate-400 hover:underline">Reset</button>
+          </div>
+          {macros.map(m => (
+            <div key={m.id} className="flex items-start gap-2 text-[11px]">
+              <span className="w-1/4 font-bold text-slate-700">{m.name}</span>
+              <span className="flex-1 text-slate-500 whitespace-pre-line">{m.body}</span>
+              <button
+                type="button"
+                onClick={() => onMacrosChange(macros.filter(other => other.id !== m.id))}
+                className="text-slate-300 hover:text-rose-500"
+              >
+                <i className="fas fa-xmark"></i>
+              </button>
+            </div>
+          ))}
+          <div className="flex gap-2">
+            <input
+              type="text"
+              className="w-1/4 px-3 py-1.5 rounded-lg border border-slate-200 text-[10px] font-bold"
+              placeholder="Macro name"
+              value={macroName}
+              onChange={(e) => setMacroName(e.target.value)}
+            />
+            <textarea
+              rows={2}
+              className="flex-1 px-3 py-1.5 rounded-lg border border-slate-200 text-[10px] font-medium"
+              placeholder="Text with {customer_name}, {agent_name}, {plan}, {ticket_id} or {ai_draft}"
+              value={macroBody}
+              onChange={(e) => setMacroBody(e.target.value)}
+            />
+            <button
+              type="button"
+              onClick={addMacro}
+              disabled={!macroName.trim() || !macroBody.trim()}
+              className="px-3 rounded-lg text-[9px] font-black uppercase text-white bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300"
+            >
+              Add
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between">
+        <p className="text-[11px] font-bold text-amber-600 ml-1">
+          {unresolved.length > 0 && (
+            <><i className="fas fa-triangle-exclamation mr-1"></i> Unfilled: {unresolved.map(p => `{${p}}`).join(', ')}</>
+          )}
+        </p>
+        <div className="flex items-center gap-4">
+          {item.sent_reply && (
+            <span className="text-[9px] font-bold text-slate-400">
+              Sent by {item.sent_reply.author} · {new Date(item.sent_reply.at).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+            </span>
+          )}
+          <button
+            type="button"
+            onClick={() => onSend({ text, tone, macro_ids: usedMacros })}
+            disabled={!text.trim() || unresolved.length > 0 || sentUnchanged}
+            className="px-5 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest text-white bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300 transition-all"
+          >
+            <i className="fas fa-paper-plane mr-2"></i> {item.sent_reply ? 'Send Update' : 'Mark as Sent'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReplyComposer;
@@ -0,0 +1,59 @@
+import React from 'react';
+import { Sentiment, TriageCategory, TriageResult } from '../types';
+import { categoryLabel } from '../triageTaxonomy';
+
+interface ResultClassificationProps {
+  result: TriageResult;
+  categories: TriageCategory[];
+}
+
+export const SENTIMENT_ICONS: Record<Sentiment, string> = {
+  [Sentiment.Positive]: 'fa-face-smile',
+  [Sentiment.Neutral]: 'fa-face-meh',
+  [Sentiment.Frustrated]: 'fa-face-frown',
+  [Sentiment.Angry]: 'fa-face-angry'
+};
+
+const SENTIMENT_STYLES: Record<Sentiment, string> = {
+  [Sentiment.Positive]: 'bg-emerald-50 text-emerald-700 border-emerald-100',
+  [Sentiment.Neutral]: 'bg-slate-50 text-slate-600 border-slate-100',
+  [Sentiment.Frustrated]: 'bg-amber-50 text-amber-700 border-amber-100',
+  [Sentiment.Angry]: 'bg-rose-50 text-rose-700 border-rose-100'
+};
+
+const confidenceColor = (confidence: number) =>
+  confidence >= 0.8 ? 'bg-emerald-500' : confidence >= 0.5 ? 'bg-amber-500' : 'bg-rose-500';
+
+const ResultClassification: React.FC<ResultClassificationProps> = ({ result, categories }) => {
+  // Tickets triaged before classification existed have none of these fields.
+  if (!result.category && !result.sentiment && result.confidence === undefined && !result.tags?.length) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 mb-12">
+      {result.category && (
+        <span className="text-[10px] font-black uppercase tracking-widest px-3 py-1.5 rounded-full border bg-indigo-50 text-indigo-700 border-indigo-100">
+          <i className="fas fa-folder mr-1"></i> {categoryLabel(result.category, categories)}
+        </span>
+      )}
+      {result.sentiment && (
+        <span className={`text-[10px] font-black uppercase tracking-widest px-3 py-1.5 rounded-full border ${SENTIMENT_STYLES[result.sentiment]}`}>
+          <i className={`fas ${SENTIMENT_ICONS[result.sentiment]} mr-1`}></i> {result.sentiment}
+        </span>
+      )}
+      {typeof result.confidence === 'number' && (
+        <span className="flex items-center gap-2 text-[10px] font-black text-slate-500 uppercase tracking-widest" title="Model confidence in priority and category">
+          Confidence
+          <span className="w-16 h-1.5 bg-slate-100 rounded-full overflow-hidden">
+            <span className={`block h-full ${confidenceColor(result.confidence)}`} style={{ width: `${Math.round(result.confidence * 100)}%` }}></span>
+          </span>
+          {Math.round(result.confidence * 100)}%
+        </span>
+      )}
+      {(result.tags || []).map(tag => (
+        <span key={tag} className="text-[9px] font-bold px-2 py-1 bg-slate-50 text-slate-500 rounded-lg border border-slate-100">#{tag}</span>
+      ))}
+    </div>
+  );
+};
+
+export default ResultClassification;
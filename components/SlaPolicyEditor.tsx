@@ -0,0 +1,67 @@
+import React from 'react';
+import { AccountTier, Priority, SlaPolicy, SlaTarget } from '../types';
+
+interface SlaPolicyEditorProps {
+  policy: SlaPolicy;
+  onChange: (policy: SlaPolicy) => void;
+  onReset: () => void;
+}
+
+// Targets are stored in minutes but edited in hours, which is how the commitments are sold.
+const toHours = (minutes: number) => Math.round((minutes / 60) * 100) / 100;
+
+const SlaPolicyEditor: React.FC<SlaPolicyEditorProps> = ({ policy, onChange, onReset }) => {
+  const update = (tier: AccountTier, priority: Priority, field: keyof SlaTarget, hours: string) => {
+    const minutes = Math.max(1, Math.round(Number(hours) * 60) || 1);
+    onChange({
+      ...policy,
+      [tier]: { ...policy[tier], [priority]: { ...policy[tier][priority], [field]: minutes } }
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">SLA Targets (hours: first response / resolution)</span>
+        <button onClick={onReset} className="text-[9px] font-bold text-slate-400 hover:underline">Reset</button>
+      </div>
+      <table className="w-full text-[10px]">
+        <thead>
+          <tr>
+            <th></th>
+            {Object.values(Priority).map(p => (
+              <th key={p} className="font-black text-slate-400 uppercase tracking-widest pb-1">{p}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {Object.values(AccountTier).map(tier => (
+            <tr key={tier}>
+              <td className="font-bold text-slate-500 pr-2">{tier}</td>
+              {Object.values(Priority).map(priority => (
+                <td key={priority} className="p-0.5">
+                  <div className="flex gap-0.5">
+                    {(['first_response_minutes', 'resolution_minutes'] as const).map(field => (
+                      <input
+                        key={field}
+                        type="number"
+                        min={0.1}
+                        step={0.5}
+                        title={field === 'first_response_minutes' ? 'First response (h)' : 'Resolution (h)'}
+                        className="w-full min-w-0 px-1.5 py-1 rounded border border-slate-200 text-[10px] font-bold"
+                        value={toHours(policy[tier][priority][field])}
+                        onChange={(e) => update(tier, priority, field, e.target.value)}
+                      />
+                    ))}
+                  </div>
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default SlaPolicyEditor;
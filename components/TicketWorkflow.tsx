@@ -0,0 +1,271 @@
+import React, { useEffect, useState } from 'react';
+import { AccountTier, HistoryItem, Priority, TicketAuditEntry, TicketStatus, TriageInput } from '../types';
+import { addTicketNote, latestMessageTime, setTicketAssignee, setTicketStatus } from '../ticketLifecycle';
+import { appendFollowUp, threadMessages, turnCount } from '../conversationThread';
+
+interface TicketWorkflowProps {
+  item: HistoryItem;
+  actor: string;
+  onActorChange: (actor: string) => void;
+  onUpdate: (update: (item: HistoryItem) => HistoryItem) => void;
+  /** Resolve to false when the ticket was not updated, so the draft is kept. */
+  onRetriage: (input: TriageInput) => Promise<boolean>;
+  onFollowUp: (input: TriageInput) => Promise<boolean>;
+  onCancelRetriage: () => void;
+  retriaging: boolean;
+  getPriorityStyles: (priority: Priority) => string;
+}
+
+const PRIORITY_RANK: Record<Priority, number> = { [Priority.Low]: 0, [Priority.Medium]: 1, [Priority.High]: 2 };
+
+const STATUS_STYLES: Record<TicketStatus, string> = {
+  [TicketStatus.New]: 'bg-sky-50 text-sky-700 border-sky-100',
+  [TicketStatus.InProgress]: 'bg-indigo-50 text-indigo-700 border-indigo-100',
+  [TicketStatus.Escalated]: 'bg-rose-50 text-rose-700 border-rose-100',
+  [TicketStatus.WaitingOnCustomer]: 'bg-amber-50 text-amber-700 border-amber-100',
+  [TicketStatus.Resolved]: 'bg-emerald-50 text-emerald-700 border-emerald-100'
+};
+
+export const getStatusStyles = (status: TicketStatus = TicketStatus.New) => STATUS_STYLES[status];
+
+function describeAudit(entry: TicketAuditEntry): string {
+  switch (entry.action) {
+    case 'created': return 'Ticket created';
+    case 'status': return `Status: ${entry.from} → ${entry.to}`;
+    case 'assignee': return entry.to ? `Assigned to ${entry.to}` : `Unassigned from ${entry.from}`;
+    case 'note': return 'Added a note';
+    case 'retriage': return `Re-triaged: ${entry.from} → ${entry.to}`;
+    case 'follow_up': return `Customer follow-up: ${entry.from} → ${entry.to}`;
+    case 'reply_sent': return entry.to ? `Reply sent (${entry.to})` : 'Reply sent';
+  }
+}
+
+const formatTime = (iso: string) => new Date(iso).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const TicketWorkflow: React.FC<TicketWorkflowProps> = ({ item, actor, onActorChange, onUpdate, onRetriage, onFollowUp, onCancelRetriage, retriaging, getPriorityStyles }) => {
+  const [assignee, setAssignee] = useState(item.assignee || '');
+  const [note, setNote] = useState('');
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState<TriageInput>(item.input);
+  const [followUp, setFollowUp] = useState('');
+  const [agentReply, setAgentReply] = useState(item.reply);
+
+  useEffect(() => {
+    setAssignee(item.assignee || '');
+  }, [item.id, item.assignee]);
+
+  useEffect(() => {
+    setEditing(false);
+    setDraft(item.input);
+  }, [item.id]);
+
+  // Prefer the reply marked as sent; otherwise the current suggestion is the most likely one.
+  useEffect(() => {
+    setAgentReply(item.sent_reply?.text || item.reply);
+  }, [item.id, item.reply, item.sent_reply]);
+
+  const commitAssignee = () => onUpdate(t => setTicketAssignee(t, assignee, actor));
+
+  const submitNote = () => {
+    if (!note.trim()) return;
+    onUpdate(t => addTicketNote(t, note, actor));
+    setNote('');
+  };
+
+  const submitRetriage = async () => {
+    if (await onRetriage(draft)) setEditing(false);
+  };
+
+  const submitFollowUp = async () => {
+    if (!followUp.trim()) return;
+    if (await onFollowUp(appendFollowUp(item.input, followUp, latestMessageTime(item), agentReply))) setFollowUp('');
+  };
+
+  const versions = item.versions || [];
+  const thread = threadMessages(item.input, latestMessageTime(item));
+  // Every result so far, oldest first, so each row can be compared with the one before it.
+  const results = [...versions, { ...item, at: '' }];
+  const audit = [...(item.audit || [])].reverse();
+
+  return (
+    <div className="bg-white rounded-[40px] border border-slate-200 p-8 lg:p-12 space-y-8">
+      <div className="flex items-center justify-between">
+        <h4 className="text-[10px] font-black text-slate-400 uppercase tracking-widest flex items-center">
+          <i className="fas fa-list-check mr-2 text-indigo-400"></i> Ticket Workflow
+        </h4>
+        <label className="flex items-center gap-2 text-[10px] font-black text-slate-400 uppercase tracking-widest">
+          Acting As
+          <input
+            type="text"
+            className="w-32 px-3 py-1.5 rounded-lg border border-slate-200 text-[11px] font-bold normal-case tracking-normal text-slate-700"
+            value={actor}
+            onChange={(e) => onActorChange(e.target.value)}
+          />
+        </label>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="space-y-2">
+          <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1">Status</label>
+          <select
+            className={`w-full px-4 py-2.5 rounded-xl border text-[12px] font-bold ${getStatusStyles(item.status)}`}
+            value={item.status || TicketStatus.New}
+            onChange={(e) => onUpdate(t => setTicketStatus(t, e.target.value as TicketStatus, actor))}
+          >
+            {Object.values(TicketStatus).map(s => <option key={s} value={s}>{s}</option>)}
+          </select>
+        </div>
+        <div className="space-y-2">
+          <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1">Assignee</label>
+          <input
+            type="text"
+            className="w-full px-4 py-2.5 rounded-xl border border-slate-200 focus:ring-4 focus:ring-indigo-500/10 text-[12px] font-medium"
+            placeholder="Unassigned"
+            value={assignee}
+            onChange={(e) => setAssignee(e.target.value)}
+            onBlur={commitAssignee}
+            onKeyDown={(e) => e.key === 'Enter' && commitAssignee()}
+          />
+        </div>
+      </div>
+
+      {/* Internal Notes */}
+      <div className="space-y-3">
+        <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1">Internal Notes</label>
+        {(item.notes || []).map(n => (
+          <div key={n.id} className="p-4 bg-slate-50 rounded-2xl border border-slate-100">
+            <p className="text-[13px] font-medium text-slate-700 whitespace-pre-wrap">{n.text}</p>
+            <p className="text-[9px] font-bold text-slate-400 mt-2">{n.author} · {formatTime(n.at)}</p>
+          </div>
+        ))}
+        <div className="flex gap-3">
+          <textarea
+            className="flex-1 h-16 px-4 py-3 rounded-2xl border border-slate-200 focus:ring-4 focus:ring-indigo-500/10 resize-none text-[12px] font-medium"
+            placeholder="Add an internal note..."
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+          />
+          <button
+            onClick={submitNote}
+            disabled={!note.trim()}
+            className="px-5 rounded-2xl text-[10px] font-black uppercase tracking-widest text-white bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300"
+          >
+            Add
+          </button>
+        </div>
+      </div>
+
+      {/* Conversation */}
+      <div className="space-y-3">
+        <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1">Conversation ({turnCount(item.input)} customer turn{turnCount(item.input) === 1 ? '' : 's'})</label>
+        <div className="space-y-2">
+          {thread.map((m, i) => (
+            <div key={i} className={`p-4 rounded-2xl border max-w-[85%] ${m.author === 'agent' ? 'ml-auto bg-indigo-50 border-indigo-100' : 'bg-slate-50 border-slate-100'}`}>
+              <p className="text-[13px] font-medium text-slate-700 whitespace-pre-wrap">{m.text}</p>
+              <p className="text-[9px] font-bold text-slate-400 mt-2">{m.author === 'agent' ? 'Agent' : 'Customer'}{m.at ? ` · ${formatTime(m.at)}` : ''}</p>
+            </div>
+          ))}
+        </div>
+        <div className="p-5 bg-slate-50 rounded-3xl border border-slate-100 space-y-3">
+          <textarea
+            className="w-full h-16 px-4 py-3 rounded-2xl border border-slate-200 resize-none text-[12px] font-medium"
+            placeholder="Reply sent to the customer (optional)"
+            value={agentReply}
+            onChange={(e) => setAgentReply(e.target.value)}
+          />
+          <textarea
+            className="w-full h-20 px-4 py-3 rounded-2xl border border-slate-200 resize-none text-[12px] font-medium"
+            placeholder="Paste the customer's follow-up..."
+            value={followUp}
+            onChange={(e) => setFollowUp(e.target.value)}
+          />
+          <button
+            onClick={retriaging ? onCancelRetriage : submitFollowUp}
+            disabled={!retriaging && !followUp.trim()}
+            className={`w-full py-3 rounded-2xl font-black text-white uppercase text-[10px] tracking-widest disabled:bg-slate-300 ${retriaging ? 'bg-rose-600 hover:bg-rose-700' : 'bg-indigo-600 hover:bg-indigo-700'}`}
+          >
+            {retriaging ? <><i className="fas fa-circle-notch fa-spin mr-2"></i> Cancel</> : 'Add Follow-up & Re-triage'}
+          </button>
+        </div>
+      </div>
+
+      {/* Re-triage */}
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1">Re-triage</label>
+          <button onClick={() => setEditing(!editing)} className="text-[9px] font-black text-indigo-600 uppercase hover:underline">
+            {editing ? 'Cancel' : 'Edit Input & Re-run'}
+          </button>
+        </div>
+        {editing && (
+          <div className="p-5 bg-slate-50 rounded-3xl border border-slate-100 space-y-3">
+            <textarea
+              className="w-full h-28 px-4 py-3 rounded-2xl border border-slate-200 resize-none text-[12px] font-medium"
+              value={draft.customer_message}
+              onChange={(e) => setDraft({ ...draft, customer_message: e.target.value })}
+            />
+            <div className="grid grid-cols-2 gap-3">
+              <select
+                className="px-4 py-2.5 rounded-xl border border-slate-200 bg-white text-[12px] font-bold"
+                value={draft.account_tier}
+                onChange={(e) => setDraft({ ...draft, account_tier: e.target.value as AccountTier })}
+              >
+                {Object.values(AccountTier).map(tier => <option key={tier} value={tier}>{tier}</option>)}
+              </select>
+              <input
+                type="text"
+                className="px-4 py-2.5 rounded-xl border border-slate-200 text-[12px] font-medium"
+                placeholder="Recent context"
+                value={draft.recent_activity_summary}
+                onChange={(e) => setDraft({ ...draft, recent_activity_summary: e.target.value })}
+              />
+            </div>
+            <button
+              onClick={retriaging ? onCancelRetriage : submitRetriage}
+              disabled={!retriaging && !draft.customer_message.trim()}
+              className={`w-full py-3 rounded-2xl font-black text-white uppercase text-[10px] tracking-widest disabled:bg-slate-300 ${retriaging ? 'bg-rose-600 hover:bg-rose-700' : 'bg-indigo-600 hover:bg-indigo-700'}`}
+            >
+              {retriaging ? <><i className="fas fa-circle-notch fa-spin mr-2"></i> Cancel</> : 'Re-triage Ticket'}
+            </button>
+          </div>
+        )}
+        {versions.length > 0 && (
+          <div className="space-y-2">
+            {results.map((v, i) => ({ v, i, prev: results[i - 1] })).reverse().map(({ v, i, prev }) => {
+              const escalated = prev && PRIORITY_RANK[v.priority] > PRIORITY_RANK[prev.priority];
+              const newTurn = prev && turnCount(v.input) > turnCount(prev.input);
+              return (
+                <div key={v.at + i} className={`flex items-center gap-3 px-4 py-2 rounded-xl border ${escalated ? 'bg-rose-50 border-rose-100' : 'bg-slate-50 border-slate-100'}`}>
+                  <span className="text-[9px] font-black text-slate-400">{i === versions.length ? 'Now' : `v${i + 1}`}</span>
+                  <span className="text-[9px] font-bold text-slate-400" title="Customer turns">T{turnCount(v.input)}</span>
+                  {prev && prev.priority !== v.priority && (
+                    <span className="text-[8px] font-black uppercase text-slate-400">{prev.priority} →</span>
+                  )}
+                  <span className={`text-[8px] font-black uppercase px-2 py-0.5 rounded border ${getPriorityStyles(v.priority)}`}>{v.priority}</span>
+                  <span className={`text-xs font-bold line-clamp-1 flex-1 ${prev && prev.summary !== v.summary ? 'text-slate-700' : 'text-slate-400'}`}>{v.summary}</span>
+                  {escalated && newTurn && <span className="text-[8px] font-black uppercase text-rose-600">Escalated by follow-up</span>}
+                  {v.at && <span className="text-[9px] text-slate-400">{formatTime(v.at)}</span>}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* Audit Trail */}
+      <div className="space-y-3">
+        <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1">Audit Trail</label>
+        <div className="border-l-2 border-slate-100 ml-2 space-y-3">
+          {audit.map((entry, i) => (
+            <div key={entry.at + i} className="pl-4">
+              <p className="text-[12px] font-semibold text-slate-700">{describeAudit(entry)}</p>
+              <p className="text-[9px] font-bold text-slate-400">{entry.actor} · {formatTime(entry.at)}</p>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TicketWorkflow;
@@ -0,0 +1,73 @@
+import React, { useRef, useState } from 'react';
+import { VoiceSession } from '../types';
+import { formatOffset, recordingUrl, turnOffset } from '../voiceSession';
+
+interface VoiceSessionReplayProps {
+  session: VoiceSession;
+}
+
+const VoiceSessionReplay: React.FC<VoiceSessionReplayProps> = ({ session }) => {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [position, setPosition] = useState(0);
+  const offsets = session.turns.map(turn => turnOffset(session, turn));
+  // The turn being played is the last one that started before the playhead.
+  const playing = session.recording ? offsets.reduce((current, offset, i) => offset <= position ? i : current, -1) : -1;
+  const durationSeconds = (new Date(session.ended_at).getTime() - new Date(session.started_at).getTime()) / 1000;
+
+  const seek = (offset: number) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.currentTime = offset;
+    audio.play();
+  };
+
+  return (
+    <div className="bg-white rounded-[40px] border border-slate-200 p-8 lg:p-12 space-y-6">
+      <div className="flex items-center justify-between">
+        <h4 className="text-[10px] font-black text-slate-400 uppercase tracking-widest flex items-center">
+          <i className="fas fa-phone-volume mr-2 text-indigo-400"></i> Voice Call
+        </h4>
+        <span className="text-[9px] font-bold text-slate-400">
+          {new Date(session.started_at).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })} · {formatOffset(Math.max(0, durationSeconds))} · {session.turns.length} turns
+        </span>
+      </div>
+
+      {session.recording ? (
+        <audio
+          ref={audioRef}
+          controls
+          src={recordingUrl(session.recording)}
+          onTimeUpdate={(e) => setPosition(e.currentTarget.currentTime)}
+          className="w-full"
+        />
+      ) : (
+        <p className="text-[11px] font-semibold text-slate-400">No recording was kept for this call.</p>
+      )}
+      {session.recording?.truncated && (
+        <p className="text-[11px] font-semibold text-slate-400">Only the first {formatOffset(session.recording.duration_ms / 1000)} of the call was recorded.</p>
+      )}
+
+      <div className="max-h-80 overflow-y-auto space-y-3 pr-2">
+        {session.turns.map((turn, i) => (
+          <div key={i} className={`flex ${turn.isUser ? 'justify-end' : 'justify-start'}`}>
+            <button
+              type="button"
+              onClick={() => seek(offsets[i])}
+              disabled={!session.recording}
+              className={`max-w-[80%] text-left px-4 py-2 rounded-2xl text-[13px] font-medium transition-all ${
+                turn.isUser ? 'bg-indigo-600 text-white' : 'bg-slate-50 text-slate-700 border border-slate-100'
+              } ${playing === i ? 'ring-4 ring-amber-300' : ''}`}
+            >
+              <span className={`block text-[9px] font-black uppercase tracking-widest mb-1 ${turn.isUser ? 'text-indigo-200' : 'text-slate-400'}`}>
+                {turn.isUser ? 'Caller' : 'Agent'} · {formatOffset(offsets[i])}
+              </span>
+              {turn.text}
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default VoiceSessionReplay;
@@ -0,0 +1,33 @@
+import { ThreadMessage, TriageInput } from "./types";
+
+// --- Conversation Threads ---
+// A ticket's input is the latest customer message plus the earlier turns in `thread`.
+// These helpers let rules and prompts see the whole conversation.
+
+/** The full conversation, oldest first, ending with the latest customer message. */
+export function threadMessages(input: TriageInput, at = ''): ThreadMessage[] {
+  return [...(input.thread || []), { author: 'customer', text: input.customer_message, at }];
+}
+
+/** Everything the customer has written, for keyword rules that should fire on any turn. */
+export function customerText(input: TriageInput): string {
+  return threadMessages(input).filter(m => m.author === 'customer').map(m => m.text).join('\n');
+}
+
+export const turnCount = (input: TriageInput) => threadMessages(input).filter(m => m.author === 'customer').length;
+
+/**
+ * Moves the current customer message into the thread, optionally followed by the
+ * agent's reply, and makes the follow-up the new latest message.
+ * `previousAt` is when the current message was received.
+ */
+export function appendFollowUp(input: TriageInput, followUp: string, previousAt: string, agentReply = ''): TriageInput {
+  const now = new Date().toISOString();
+  const thread = [...threadMessages(input, previousAt)];
+  if (agentReply.trim()) thread.push({ author: 'agent', text: agentReply.trim(), at: now });
+  return { ...input, thread, customer_message: followUp.trim() };
+}
+
+export function formatThread(messages: ThreadMessage[]): string {
+  return messages.map(m => `${m.author === 'agent' ? 'Agent' : 'Customer'}: ${m.text.replace(/\s+/g, ' ')}`).join('\n');
+}
@@ -0,0 +1,418 @@
+import { AccountTier, BatchRow, EmailAddress, ParsedEmail, SenderTierRule, TriageInput } from "./types";
+import { htmlToText } from "./knowledgeBase";
+
+// --- Email Intake ---
+// Parses .eml and mbox files into triage input. Messages are handled as binary strings
+// (one character per byte) until each part is decoded with its own charset, so 8-bit
+// bodies in ISO-8859-1, Windows-1252 or Shift_JIS come out right.
+
+export const EMAIL_FILE_PATTERN = /\.(eml|mbox|mbx)$/i;
+
+// Deeper nesting than this is not a real email.
+const MAX_MIME_DEPTH = 10;
+
+// Lines from the end of the body searched for a sign-off such as "Thanks,".
+const SIGNATURE_MAX_LINES = 8;
+
+const BYTE_CHUNK = 0x8000;
+
+export const isEmailFile = (filename: string) => EMAIL_FILE_PATTERN.test(filename);
+
+function bytesToBinary(bytes: Uint8Array): string {
+  const parts: string[] = [];
+  for (let i = 0; i < bytes.length; i += BYTE_CHUNK) {
+    parts.push(String.fromCharCode.apply(null, bytes.subarray(i, i + BYTE_CHUNK) as unknown as number[]));
+  }
+  return parts.join('');
+}
+
+const binaryToBytes = (binary: string) => Uint8Array.from(binary, c => c.charCodeAt(0) & 0xff);
+
+/** Decodes bytes in the given charset; unknown charsets fall back to UTF-8. */
+function decodeText(bytes: Uint8Array, charset = 'utf-8'): string {
+  try {
+    return new TextDecoder(charset.trim() || 'utf-8').decode(bytes);
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+}
+
+/** Lenient, so a damaged part cannot fail the import: stray characters are skipped, and so is a lone last character that holds no whole byte. */
+function base64ToBytes(text: string): Uint8Array {
+  let clean = text.replace(/[^A-Za-z0-9+/]/g, '');
+  if (clean.length % 4 === 1) clean = clean.slice(0, -1);
+  return binaryToBytes(atob(clean.padEnd(Math.ceil(clean.length / 4) * 4, '=')));
+}
+
+/** Quoted-printable to bytes; in headers (RFC 2047 "Q" encoding) an underscore is a space. */
+function quotedPrintableToBytes(text: string, header = false): Uint8Array {
+  const src = header ? text.replace(/_/g, ' ') : text.replace(/=\r?\n/g, '');
+  const out: number[] = [];
+  for (let i = 0; i < src.length; i++) {
+    const hex = src.slice(i + 1, i + 3);
+    if (src[i] === '=' && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+      out.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      out.push(src.charCodeAt(i) & 0xff);
+    }
+  }
+  return Uint8Array.from(out);
+}
+
+function decodeTransfer(body: string, encoding = ''): Uint8Array {
+  switch (encoding.trim().toLowerCase()) {
+    case 'base64': return base64ToBytes(body);
+    case 'quoted-printable': return quotedPrintableToBytes(body);
+    default: return binaryToBytes(body);
+  }
+}
+
+// --- Headers ---
+
+const ENCODED_WORD = /=\?([^?\s]+)\?([bBqQ])\?([^?\s]*)\?=/g;
+
+/** Raw 8-bit header text is usually UTF-8 from modern clients. */
+const rawHeaderText = (binary: string) => /[\x80-\xff]/.test(binary) ? decodeText(binaryToBytes(binary)) : binary;
+
+/**
+ * Decodes RFC 2047 encoded words. Adjacent words in the same charset are decoded together,
+ * since clients split multi-byte characters across them.
+ */
+export function decodeHeader(value: string): string {
+  let out = '';
+  let last = 0;
+  let pending: { charset: string; bytes: number[] } | null = null;
+  const flush = () => {
+    if (pending) out += decodeText(Uint8Array.from(pending.bytes), pending.charset);
+    pending = null;
+  };
+
+  for (const match of value.matchAll(ENCODED_WORD)) {
+    const between = value.slice(last, match.index);
+    const charset = match[1].split('*')[0].toLowerCase();
+    const bytes = match[2].toUpperCase() === 'B' ? base64ToBytes(match[3]) : quotedPrintableToBytes(match[3], true);
+    if (!(pending && pending.charset === charset && !between.trim())) {
+      flush();
+      out += rawHeaderText(between);
+    }
+    pending = pending || { charset, bytes: [] };
+    pending.bytes.push(...bytes);
+    last = match.index! + match[0].length;
+  }
+  flush();
+  return out + rawHeaderText(value.slice(last));
+}
+
+interface HeaderValue {
+  value: string;
+  params: Record<string, string>;
+}
+
+/**
+ * Splits a structured header such as Content-Type into its value and parameters,
+ * including RFC 2231 continuations and charset-encoded values (`filename*=utf-8''...`).
+ */
+function parseHeaderParams(header: string): HeaderValue {
+  const [value, ...rest] = header.match(/(?:"(?:[^"\\]|\\.)*"|[^;])+/g) || [''];
+  const segments = new Map<string, { index: number; text: string; encoded: boolean }[]>();
+  for (const part of rest) {
+    const eq = part.indexOf('=');
+    if (eq === -1) continue;
+    const key = part.slice(0, eq).trim().toLowerCase();
+    const raw = part.slice(eq + 1).trim();
+    const text = raw.startsWith('"') ? raw.slice(1, -1).replace(/\\(.)/g, '$1') : raw;
+    const [, name, index, star] = /^([^*]+)(?:\*(\d+))?(\*)?$/.exec(key) || [];
+    if (!name) continue;
+    segments.set(name, [...(segments.get(name) || []), { index: Number(index || 0), text, encoded: !!star }]);
+  }
+
+  const params: Record<string, string> = {};
+  for (const [name, parts] of segments) {
+    parts.sort((a, b) => a.index - b.index);
+    if (!parts.some(p => p.encoded)) {
+      params[name] = decodeHeader(parts.map(p => p.text).join(''));
+      continue;
+    }
+    let charset = 'utf-8';
+    const binary = parts.map((p, i) => {
+      if (!p.encoded) return p.text;
+      let text = p.text;
+      if (i === 0) {
+        const [cs, , data] = text.split("'");
+        if (data !== undefined) {
+          charset = cs || charset;
+          text = data;
+        }
+      }
+      return text.replace(/%([0-9A-Fa-f]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+    }).join('');
+    params[name] = decodeText(binaryToBytes(binary), charset);
+  }
+  return { value: value.trim().toLowerCase(), params };
+}
+
+export function parseAddress(header: string): EmailAddress {
+  const decoded = decodeHeader(header).trim();
+  const angle = /^(.*)<([^>]+)>/.exec(decoded);
+  if (angle) {
+    return { name: angle[1].trim().replace(/^"(.*)"$/, '$1').trim(), address: angle[2].trim().toLowerCase() };
+  }
+  const bare = /[^\s<>()"]+@[^\s<>()"]+/.exec(decoded)?.[0] || '';
+  return { name: decoded.replace(bare, '').replace(/[()"]/g, '').trim(), address: bare.toLowerCase() };
+}
+
+// --- MIME ---
+
+interface MimeEntity {
+  headers: Map<string, string>;
+  body: string;
+}
+
+function parseEntity(raw: string): MimeEntity {
+  const separator = /\r?\n\r?\n/.exec(raw);
+  const head = separator ? raw.slice(0, separator.index) : raw;
+  const headers = new Map<string, string>();
+  for (const line of head.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    if (!headers.has(name)) headers.set(name, line.slice(colon + 1).trim());
+  }
+  return { headers, body: separator ? raw.slice(separator.index + separator[0].length) : '' };
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** The parts between the boundary lines; the preamble and epilogue are dropped. */
+function splitMultipart(body: string, boundary: string): string[] {
+  const segments = `\n${body}`.split(new RegExp(`\\r?\\n--${escapeRegExp(boundary)}`));
+  const parts: string[] = [];
+  for (const segment of segments.slice(1)) {
+    if (segment.startsWith('--')) break;
+    parts.push(segment.replace(/^[ \t]*\r?\n/, ''));
+  }
+  return parts;
+}
+
+interface EmailContent {
+  plain: string[];
+  html: string[];
+  attachments: string[];
+}
+
+const contentType = (entity: MimeEntity) => parseHeaderParams(entity.headers.get('content-type') || 'text/plain');
+
+function isAttachment(entity: MimeEntity): boolean {
+  const disposition = parseHeaderParams(entity.headers.get('content-disposition') || '');
+  return disposition.value === 'attachment' || !!disposition.params.filename || !!contentType(entity).params.name;
+}
+
+function attachmentName(entity: MimeEntity): string {
+  const disposition = parseHeaderParams(entity.headers.get('content-disposition') || '');
+  return disposition.params.filename || contentType(entity).params.name || 'unnamed attachment';
+}
+
+function collectContent(entity: MimeEntity, content: EmailContent, depth = 0) {
+  const { value: type, params } = contentType(entity);
+
+  if (type.startsWith('multipart/') && params.boundary && depth < MAX_MIME_DEPTH) {
+    const parts = splitMultipart(entity.body, params.boundary).map(parseEntity);
+    if (type === 'multipart/alternative') {
+      // The renderings carry the same text: take plain text, which needs no conversion.
+      const plain = parts.find(p => contentType(p).value === 'text/plain' && !isAttachment(p));
+      const chosen = plain || parts.find(p => contentType(p).value === 'text/html') || parts[parts.length - 1];
+      if (chosen) collectContent(chosen, content, depth + 1);
+      return;
+    }
+    parts.forEach(part => collectContent(part, content, depth + 1));
+    return;
+  }
+
+  if (isAttachment(entity)) {
+    content.attachments.push(attachmentName(entity));
+  } else if (type === 'message/rfc822') {
+    const subject = parseEntity(entity.body).headers.get('subject');
+    content.attachments.push(subject ? `${decodeHeader(subject)}.eml` : 'forwarded message.eml');
+  } else if (type === 'text/plain' || type === 'text/html') {
+    const text = decodeText(decodeTransfer(entity.body, entity.headers.get('content-transfer-encoding')), params.charset);
+    (type === 'text/html' ? content.html : content.plain).push(text);
+  }
+  // Other unnamed parts (calendar data, delivery reports) carry no customer text.
+}
+
+// --- Body Cleanup ---
+
+const QUOTE_HEADERS = [
+  /^On\b.{0,300}\bwrote:$/i,
+  /^Am\b.{0,300}\bschrieb.{0,100}:$/i,
+  /^Le\b.{0,300}\ba écrit\s?:$/i,
+  /^El\b.{0,300}\bescribió:$/i,
+  /^-{2,}\s*(Original Message|Ursprüngliche Nachricht|Message d'origine)\s*-{2,}$/i
+];
+
+const SIGN_OFF = /^(thanks|thank you|many thanks|thanks in advance|best|best regards|kind regards|regards|warm regards|cheers|sincerely|mit freundlichen grüßen|viele grüße|cordialement|saludos)[\s,.!]*$/i;
+const DEVICE_SIGNATURE = /^(sent from my\b|get outlook for\b|sent from mail for\b|von meinem .+ gesendet)/i;
+const DISCLAIMER = /^(confidentiality notice|disclaimer\b|this (e-?mail|message)( and any (files|attachments)[^.]*)? (is|are|may (be|contain)) (confidential|privileged|intended))/i;
+
+/** Cuts the body at the first reply header ("On ... wrote:", Outlook's From/Sent block) and drops "> " lines. */
+export function stripQuotedText(text: string): string {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  let end = lines.length;
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    // Clients wrap long attribution lines, so "wrote:" may be on the next line.
+    const joined = `${line} ${(lines[i + 1] || '').trim()}`;
+    if (QUOTE_HEADERS.some(p => p.test(line) || p.test(joined))) {
+      end = i;
+      break;
+    }
+    if (/^From:\s/i.test(line) && lines.slice(i + 1, i + 5).some(l => /^(Sent|Date):\s/i.test(l.trim()))) {
+      end = i > 0 && /^_{10,}$/.test(lines[i - 1].trim()) ? i - 1 : i;
+      break;
+    }
+  }
+  return lines.slice(0, end).filter(l => !/^\s*>/.test(l)).join('\n');
+}
+
+/**
+ * Cuts the "-- " signature, legal disclaimers and a closing sign-off with the name block below it.
+ * A sign-off only counts once body text precedes it, so a message opening with "Thanks!" keeps its body.
+ */
+export function stripSignature(text: string): string {
+  const lines = text.split('\n');
+  let end = lines.length;
+  const delimiter = lines.findIndex(l => /^--\s?$/.test(l));
+  if (delimiter !== -1) end = delimiter;
+  const disclaimer = lines.findIndex(l => DISCLAIMER.test(l.trim()));
+  if (disclaimer !== -1 && disclaimer < end) end = disclaimer;
+  const firstText = lines.findIndex(l => l.trim());
+  for (let i = Math.max(firstText + 1, end - SIGNATURE_MAX_LINES); i < end; i++) {
+    if (SIGN_OFF.test(lines[i].trim())) {
+      end = i;
+      break;
+    }
+  }
+  return lines.slice(0, end).filter(l => !DEVICE_SIGNATURE.test(l.trim())).join('\n');
+}
+
+export const cleanEmailBody = (text: string) =>
+  stripSignature(stripQuotedText(text)).replace(/[ \t]+$/gm, '').replace(/\n{3,}/g, '\n\n').trim();
+
+/** HTML mail keeps quoted history in blockquotes and reply containers, which are removed before conversion. */
+function emailHtmlToText(html: string): string {
+  let stripped = html;
+  // Innermost blockquotes go first, so nested quotes unwind.
+  for (let previous = ''; previous !== stripped;) {
+    previous = stripped;
+    stripped = stripped.replace(/<blockquote\b[^>]*>(?:(?!<blockquote\b)[\s\S])*?<\/blockquote>/gi, '');
+  }
+  stripped = stripped.replace(/<(div|hr)\b[^>]*(id="(divRplyFwdMsg|appendonsend)"|class="gmail_quote)[\s\S]*$/i, '');
+  return htmlToText(stripped).text;
+}
+
+// --- Messages ---
+
+/** Parses one message given as a binary string. */
+function parseMessage(raw: string): ParsedEmail {
+  const entity = parseEntity(raw.replace(/^From [^\r\n]*\r?\n/, ''));
+  const content: EmailContent = { plain: [], html: [], attachments: [] };
+  collectContent(entity, content);
+  const body = content.plain.some(t => t.trim())
+    ? content.plain.join('\n\n')
+    : content.html.map(emailHtmlToText).join('\n\n');
+  const date = new Date(entity.headers.get('date') || '');
+  return {
+    from: parseAddress(entity.headers.get('from') || ''),
+    subject: decodeHeader(entity.headers.get('subject') || '').replace(/\s+/g, ' ').trim(),
+    date: isNaN(date.getTime()) ? '' : date.toISOString(),
+    message_id: (entity.headers.get('message-id') || '').trim(),
+    text: cleanEmailBody(body),
+    attachments: content.attachments.map(name => name.trim()).filter(Boolean)
+  };
+}
+
+/** Splits an mbox at its "From " envelope lines and unescapes ">From " in bodies. */
+export function splitMbox(raw: string): string[] {
+  return raw
+    .split(/(?:^|\r?\n)From \S+ [^\r\n]*\d{4}[^\r\n]*\r?\n/)
+    .filter(message => message.trim())
+    .map(message => message.replace(/^>(>*From )/gm, '$1'));
+}
+
+const looksLikeMbox = (binary: string) => /^From \S+ /.test(binary);
+
+/** Parses an .eml file or an mbox of many messages. */
+export function parseEmailFile(filename: string, bytes: Uint8Array): ParsedEmail[] {
+  const binary = bytesToBinary(bytes).replace(/^\xef\xbb\xbf/, '');
+  const messages = /\.(mbox|mbx)$/i.test(filename) || looksLikeMbox(binary) ? splitMbox(binary) : [binary];
+  return messages.map(parseMessage);
+}
+
+// --- Sender Tiers ---
+
+/** Exact addresses win over domains; a domain also matches its subdomains, the longest match wins. */
+export function lookupSenderTier(address: string, rules: SenderTierRule[]): AccountTier | undefined {
+  const email = address.trim().toLowerCase();
+  if (!email) return undefined;
+  const exact = rules.find(r => r.pattern.trim().toLowerCase() === email);
+  if (exact) return exact.tier;
+  const domain = email.split('@')[1] || '';
+  const matches = rules
+    .map(r => ({ rule: r, domain: r.pattern.trim().toLowerCase().replace(/^@/, '') }))
+    .filter(m => !m.domain.includes('@') && (domain === m.domain || domain.endsWith(`.${m.domain}`)));
+  return matches.sort((a, b) => b.domain.length - a.domain.length)[0]?.rule.tier;
+}
+
+/** Reads "pattern = Tier" lines (a comma works too); blank lines and # comments are skipped. */
+export function parseSenderRules(text: string): { rules: SenderTierRule[]; errors: string[] } {
+  const rules: SenderTierRule[] = [];
+  const errors: string[] = [];
+  text.split(/\r?\n/).forEach((line, i) => {
+    const content = line.replace(/#.*$/, '').trim();
+    if (!content) return;
+    const [pattern, tierName] = content.split(/\s*[=,]\s*/);
+    const tier = Object.values(AccountTier).find(t => t.toLowerCase() === tierName?.toLowerCase());
+    if (!pattern || !tier) {
+      errors.push(`Line ${i + 1}: expected "address or @domain = ${Object.values(AccountTier).join('|')}"`);
+      return;
+    }
+    rules.push({ pattern: pattern.toLowerCase(), tier });
+  });
+  return { rules, errors };
+}
+
+export const formatSenderRules = (rules: SenderTierRule[]) => rules.map(r => `${r.pattern} = ${r.tier}`).join('\n');
+
+// --- Queue ---
+
+const REPLY_PREFIX = /^((re|fwd?|aw|wg|sv|tr)(\[\d+\])?\s*:\s*)+/i;
+
+/**
+ * The subject leads the message unless the body already repeats it; attachment names are
+ * appended to the given recent activity.
+ */
+export function emailToTriageInput(email: ParsedEmail, tier: AccountTier, useSearch = false, activity = ''): TriageInput {
+  const subject = email.subject.replace(REPLY_PREFIX, '').trim();
+  const repeated = !subject || email.text.toLowerCase().includes(subject.toLowerCase());
+  return {
+    customer_message: [repeated ? '' : subject, email.text].filter(Boolean).join('\n\n'),
+    account_tier: tier,
+    recent_activity_summary: [activity.trim(), email.attachments.length ? `Attachments: ${email.attachments.join(', ')}` : '']
+      .filter(Boolean).join('; '),
+    use_search: useSearch
+  };
+}
+
+export const emailSource = (email: ParsedEmail) =>
+  `${email.from.address || 'unknown sender'} · ${email.subject || '(no subject)'}`;
+
+export function buildEmailRows(emails: ParsedEmail[], rules: SenderTierRule[], defaultTier: AccountTier, useSearch: boolean, activity = ''): BatchRow[] {
+  return emails.map((email, index) => {
+    const input = emailToTriageInput(email, lookupSenderTier(email.from.address, rules) || defaultTier, useSearch, activity);
+    const source = emailSource(email);
+    return input.customer_message
+      ? { index, input, source, status: 'pending' }
+      : { index, input, source, status: 'failed', error: 'Email has no message text' };
+  });
+}
@@ -0,0 +1,163 @@
+import { EvalCaseResult, EvalDiff, EvalReport, GoldenCase, Priority, TriageInput, TriageResult } from "./types";
+import { CONTRACT_KEYS, validateTriageResult } from "./triageValidator";
+import { ContractViolationError } from "./triageErrors";
+
+// --- Golden-Set Evaluation ---
+
+const PRIORITIES = Object.values(Priority);
+
+type TriageFn = (input: TriageInput) => Promise<TriageResult>;
+
+function emptyConfusionMatrix(): Record<Priority, Record<Priority, number>> {
+  return Object.fromEntries(
+    PRIORITIES.map(expected => [expected, Object.fromEntries(PRIORITIES.map(actual => [actual, 0]))])
+  ) as Record<Priority, Record<Priority, number>>;
+}
+
+function ratio(hits: number, total: number): number {
+  return total === 0 ? 0 : Math.round((hits / total) * 1000) / 1000;
+}
+
+/**
+ * Stand-in for the model that replays stored results keyed by golden case id, so
+ * the eval can run offline and deterministically.
+ */
+export function createRecordedTriage(cases: GoldenCase[], recordings: Record<string, TriageResult>): TriageFn {
+  return async (input) => {
+    const key = JSON.stringify(input);
+    const match = cases.find(c => JSON.stringify(c.input) === key);
+    const recorded = match && recordings[match.id];
+    if (!recorded) throw new Error(`No recorded response for case "${match?.id ?? 'unknown'}"`);
+    return recorded;
+  };
+}
+
+async function evaluateCase(goldenCase: GoldenCase, triage: TriageFn): Promise<{ result: EvalCaseResult; raw?: TriageResult }> {
+  const base = { id: goldenCase.id, expected_priority: goldenCase.expected_priority };
+  try {
+    const raw = await triage(goldenCase.input);
+    // Only the contract keys are checked; grounding_sources and provider are added client-side.
+    const contract = Object.fromEntries(CONTRACT_KEYS.map(k => [k, raw[k]]));
+    const actual = PRIORITIES.includes(raw.priority) ? raw.priority : null;
+    const escalated = !!raw.escalation_instructions?.trim();
+    return {
+      raw,
+      result: {
+        ...base,
+        actual_priority: actual,
+        priority_correct: actual === goldenCase.expected_priority,
+        escalation_correct: goldenCase.expected_escalation === undefined ? null : escalated === goldenCase.expected_escalation,
+        violations: validateTriageResult(contract)
+      }
+    };
+  } catch (err: any) {
+    return {
+      result: {
+        ...base,
+        actual_priority: null,
+        priority_correct: false,
+        escalation_correct: goldenCase.expected_escalation === undefined ? null : false,
+        violations: err instanceof ContractViolationError ? err.violations : [],
+        error: err?.message || String(err)
+      }
+    };
+  }
+}
+
+/**
+ * Runs every golden case through `triage` sequentially and aggregates the report.
+ * Also returns the raw results keyed by case id so they can be saved as recordings.
+ */
+export async function runEval(
+  cases: GoldenCase[],
+  triage: TriageFn,
+  provider: string
+): Promise<{ report: EvalReport; recordings: Record<string, TriageResult> }> {
+  const results: EvalCaseResult[] = [];
+  const recordings: Record<string, TriageResult> = {};
+  for (const goldenCase of cases) {
+    const { result, raw } = await evaluateCase(goldenCase, triage);
+    results.push(result);
+    if (raw) recordings[goldenCase.id] = raw;
+  }
+
+  const confusion_matrix = emptyConfusionMatrix();
+  const violation_counts: Record<string, number> = {};
+  for (const r of results) {
+    if (r.actual_priority) confusion_matrix[r.expected_priority][r.actual_priority]++;
+    for (const v of r.violations) {
+      const key = `${v.field}:${v.rule}`;
+      violation_counts[key] = (violation_counts[key] || 0) + 1;
+    }
+  }
+  const escalationChecked = results.filter(r => r.escalation_correct !== null);
+
+  return {
+    recordings,
+    report: {
+      run_at: new Date().toISOString(),
+      provider,
+      total: results.length,
+      priority_accuracy: ratio(results.filter(r => r.priority_correct).length, results.length),
+      escalation_accuracy: escalationChecked.length ? ratio(escalationChecked.filter(r => r.escalation_correct).length, escalationChecked.length) : null,
+      confusion_matrix,
+      violation_counts,
+      error_count: results.filter(r => r.error).length,
+      cases: results
+    }
+  };
+}
+
+const totalViolations = (report: EvalReport) => Object.values(report.violation_counts).reduce((a, b) => a + b, 0);
+
+export function diffReports(previous: EvalReport, current: EvalReport): EvalDiff {
+  const before = new Map(previous.cases.map(c => [c.id, c.actual_priority]));
+  return {
+    accuracy_delta: Math.round((current.priority_accuracy - previous.priority_accuracy) * 1000) / 1000,
+    violation_delta: totalViolations(current) - totalViolations(previous),
+    changed: current.cases
+      .filter(c => before.has(c.id) && before.get(c.id) !== c.actual_priority)
+      .map(c => ({ id: c.id, before: before.get(c.id) ?? null, after: c.actual_priority, expected: c.expected_priority }))
+  };
+}
+
+const pct = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+export function formatReport(report: EvalReport, diff?: EvalDiff | null): string {
+  const lines = [
+    `Golden-set eval · ${report.provider} · ${report.run_at}`,
+    `Cases: ${report.total}   Errors: ${report.error_count}`,
+    `Priority accuracy: ${pct(report.priority_accuracy)}`,
+    `Escalation accuracy: ${report.escalation_accuracy === null ? 'n/a' : pct(report.escalation_accuracy)}`,
+    '',
+    'Confusion matrix (rows = expected, columns = actual)',
+    ['', ...PRIORITIES].map(h => h.padEnd(8)).join(''),
+    ...PRIORITIES.map(expected =>
+      [expected, ...PRIORITIES.map(actual => String(report.confusion_matrix[expected][actual]))].map(c => c.padEnd(8)).join('')
+    ),
+    '',
+    'Contract violations',
+    ...(Object.keys(report.violation_counts).length
+      ? Object.entries(report.violation_counts).map(([k, n]) => `  ${k}: ${n}`)
+      : ['  none'])
+  ];
+
+  const failures = report.cases.filter(c => !c.priority_correct);
+  if (failures.length) {
+    lines.push('', 'Mismatches');
+    failures.forEach(c => lines.push(`  ${c.id}: expected ${c.expected_priority}, got ${c.actual_priority ?? 'error'}${c.error ? ` (${c.error})` : ''}`));
+  }
+
+  if (diff) {
+    lines.push(
+      '',
+      'Compared with previous run',
+      `  Accuracy: ${diff.accuracy_delta >= 0 ? '+' : ''}${pct(diff.accuracy_delta)}`,
+      `  Violations: ${diff.violation_delta >= 0 ? '+' : ''}${diff.violation_delta}`,
+      ...(diff.changed.length
+        ? diff.changed.map(c => `  ${c.id}: ${c.before ?? 'error'} -> ${c.after ?? 'error'} (expected ${c.expected})`)
+        : ['  No priority changes'])
+    );
+  }
+  return lines.join('\n');
+}
@@ -1,14 +1,27 @@
 
-import { GoogleGenAI, Type, Modality, LiveServerMessage } from "@google/genai";
-import { TriageInput, TriageResult, GroundingSource } from "./types";
+import { GoogleGenAI, Type, Content, FinishReason, GenerateContentConfig, GenerateContentResponse } from "@google/genai";
+import { TriageInput, TriageResult, GroundingSource, TriageOptions, ContractViolation, ReplyDraft, ReplyDraftRequest } from "./types";
+import { ContractViolationError, ModelRefusalError, TriageError, TruncatedResponseError } from "./triageErrors";
+import { buildRepairPrompt, parseTriageResponse, validateReplyDraft, validateTriageResult } from "./triageValidator";
+import { formatKnowledgeContext, knowledgeSources } from "./knowledgeBase";
+import { DEFAULT_CATEGORIES, SENTIMENTS, formatTaxonomy, withFallbackCategory } from "./triageTaxonomy";
+import { DEFAULT_AGENT_LANGUAGE, detectLanguage } from "./languageUtils";
+import { toneInstruction } from "./replyComposer";
+import { CallOptions, resilientCall } from "./resilientCalls";
+import { createTriageCache, triageCacheKey } from "./triageCache";
 
 const SYSTEM_INSTRUCTION = `You are a deterministic triage assistant. Follow these rules exactly:
 - Role: customer support triage assistant for HelpFlow.
 - Behavior: always return a single JSON object matching the Golden Prompt schema and keys exactly.
 - Tone: empathetic and concise in the "reply" field; factual and actionable elsewhere.
-- Length limits: reply <= 60 words; troubleshooting_step <= 30 words; summary <= 120 characters; priority_reason <= 200 characters.
+- Length limits: reply <= 60 words; troubleshooting_step <= 30 words; summary <= 120 characters; priority_reason <= 200 characters. In Chinese or Japanese, count every 2 characters as one word.
+- Language: detect the customer's language and return its ISO 639-1 code in "language". Write "reply" in the customer's language. Write summary, priority_reason, troubleshooting_step and escalation_instructions in agent_language from the input. Set "reply_translation" to the reply translated into agent_language, or "" when the customer writes in agent_language.
 - Priority rules: set High for data loss, crashes for paid tiers, duplicate billing, security incidents, or legal/medical/financial requests; include escalation_instructions for High.
 - Ambiguity: assume reasonable defaults and state assumptions in priority_reason.
+- Classification: pick exactly one category id from the taxonomy below; sentiment is the customer's mood (Positive|Neutral|Frustrated|Angry); confidence is 0 to 1 for your priority and category; tags are up to 5 short lowercase keywords.
+- Knowledge base: when help-center passages are provided, base troubleshooting_step and reply on them and name the article you rely on; ignore passages that do not fit the issue.
+- Threads: when a thread is given it lists earlier customer and agent messages, oldest first, and customer_message is the latest customer message; triage the conversation as a whole and reply to the latest message.
+- Privacy: placeholders such as [EMAIL_1] or [PHONE_1] stand for redacted personal data; reuse them verbatim when needed and never guess the original values.
 - Safety: never give legal, medical, or financial advice; escalate instead.
 - Output enforcement: if you cannot produce valid JSON, return {"error":"unable_to_generate_valid_json"}.
 
@@ -19,62 +32,187 @@ Output format (strict JSON only):
   "priority_reason": "<one-sentence reason>",
   "reply": "<suggested reply, <=60 words>",
   "troubleshooting_step": "<one short step, <=30 words>",
-  "escalation_instructions": "<one-line or empty string>"
+  "escalation_instructions": "<one-line or empty string>",
+  "category": "<category id from the taxonomy>",
+  "sentiment": "<Positive|Neutral|Frustrated|Angry>",
+  "confidence": <number between 0 and 1>,
+  "tags": ["<keyword>", "..."],
+  "language": "<ISO 639-1 code of the customer's language>",
+  "reply_translation": "<reply in agent_language, or empty string>"
 }
 
 Constraints:
 - Return ONLY valid JSON with the exact keys above and no extra keys.
 - If recent_activity_summary is empty, assume "no recent changes".`;
 
-export const triageMessage = async (input: TriageInput): Promise<TriageResult> => {
+export const DEFAULT_MAX_ATTEMPTS = 3;
+
+// Search-grounded results depend on what the web says today, so they are never cached.
+const triageCache = createTriageCache();
+
+const buildResponseSchema = (categoryIds: string[]) => ({
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING },
+    priority: { type: Type.STRING, enum: ["High", "Medium", "Low"] },
+    priority_reason: { type: Type.STRING },
+    reply: { type: Type.STRING },
+    troubleshooting_step: { type: Type.STRING },
+    escalation_instructions: { type: Type.STRING },
+    category: { type: Type.STRING, enum: categoryIds },
+    sentiment: { type: Type.STRING, enum: SENTIMENTS },
+    confidence: { type: Type.NUMBER },
+    tags: { type: Type.ARRAY, items: { type: Type.STRING } },
+    language: { type: Type.STRING },
+    reply_translation: { type: Type.STRING }
+  },
+  required: [
+    "summary", "priority", "priority_reason", "reply", "troubleshooting_step", "escalation_instructions",
+    "category", "sentiment", "confidence", "tags", "language", "reply_translation"
+  ],
+});
+
+export const triageMessage = async (input: TriageInput, options: TriageOptions = {}): Promise<TriageResult> => {
+  const cacheKey = input.use_search ? null : triageCacheKey(input, options);
+  const cached = cacheKey ? triageCache.get(cacheKey) : undefined;
+  if (cached) return cached;
+
   const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
+  const maxAttempts = Math.max(1, options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS);
+  const categories = withFallbackCategory(options.categories || DEFAULT_CATEGORIES);
+  const categoryIds = categories.map(c => c.id);
+  const systemInstruction = `${SYSTEM_INSTRUCTION}\n\nCategory taxonomy (id: meaning):\n${formatTaxonomy(categories)}`;
+
   const processedInput = {
     ...input,
-    recent_activity_summary: input.recent_activity_summary?.trim() || "no recent changes"
+    recent_activity_summary: input.recent_activity_summary?.trim() || "no recent changes",
+    thread: input.thread?.length ? input.thread.map(({ author, text }) => ({ author, text })) : undefined,
+    agent_language: options.agentLanguage || DEFAULT_AGENT_LANGUAGE
   };
 
-  const response = await ai.models.generateContent({
-    model: "gemini-3-flash-preview",
-    contents: `Input: ${JSON.stringify(processedInput)}`,
-    config: {
-      systemInstruction: SYSTEM_INSTRUCTION,
-      temperature: 0.0,
-      maxOutputTokens: 300,
-      responseMimeType: "application/json",
-      tools: input.use_search ? [{ googleSearch: {} }] : undefined,
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          summary: { type: Type.STRING },
-          priority: { type: Type.STRING, enum: ["High", "Medium", "Low"] },
-          priority_reason: { type: Type.STRING },
-          reply: { type: Type.STRING },
-          troubleshooting_step: { type: Type.STRING },
-          escalation_instructions: { type: Type.STRING }
-        },
-        required: ["summary", "priority", "priority_reason", "reply", "troubleshooting_step", "escalation_instructions"],
-      }
-    }
-  });
-
-  const raw = response.text; 
-  if (!raw) throw new Error('Empty response from AI engine');
-
-  let result: TriageResult;
-  try {
-    result = JSON.parse(raw.trim());
-  } catch (e) {
-    const start = raw.indexOf('{');
-    const end = raw.lastIndexOf('}');
-    if (start !== -1 && end !== -1) {
-      result = JSON.parse(raw.slice(start, end + 1));
-    } else {
-      throw new Error('Could not parse JSON response');
+  const knowledge = options.knowledge || [];
+  const prompt = knowledge.length
+    ? `Input: ${JSON.stringify(processedInput)}\n\nHelp-center passages:\n${formatKnowledgeContext(knowledge)}`
+    : `Input: ${JSON.stringify(processedInput)}`;
+  const contents: Content[] = [{ role: 'user', parts: [{ text: prompt }] }];
+  const { parsed, response } = await generateValidJson(ai, contents, {
+    systemInstruction,
+    temperature: 0.0,
+    maxOutputTokens: 600,
+    responseMimeType: "application/json",
+    tools: input.use_search ? [{ googleSearch: {} }] : undefined,
+    responseSchema: buildResponseSchema(categoryIds)
+  }, obj => validateTriageResult(obj, categoryIds), maxAttempts, options);
+
+  const result = parsed as unknown as TriageResult;
+  const grounding_sources = [...knowledgeSources(knowledge), ...extractGroundingSources(input, response)];
+  const triaged: TriageResult = { ...result, grounding_sources, provider: 'gemini' };
+  if (cacheKey) triageCache.set(cacheKey, triaged);
+  return triaged;
+};
+
+const REPLY_SYSTEM_INSTRUCTION = `You rewrite the customer-facing reply of an existing HelpFlow support triage. Follow these rules exactly:
+- Keep the facts, priority and next step of the triage; change only wording and tone.
+- Length: reply <= 60 words. In Chinese or Japanese, count every 2 characters as one word.
+- Language: write "reply" in the customer's language given as language. Set "reply_translation" to the reply translated into agent_language, or "" when both languages are the same.
+- Privacy: placeholders such as [EMAIL_1] stand for redacted personal data; reuse them verbatim.
+- Safety: never give legal, medical, or financial advice.
+- Output: return ONLY a JSON object {"reply": "...", "reply_translation": "..."}.`;
+
+const REPLY_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    reply: { type: Type.STRING },
+    reply_translation: { type: Type.STRING }
+  },
+  required: ["reply", "reply_translation"],
+};
+
+/** Regenerates only the reply of an existing triage result in the requested tone. */
+export const regenerateReply = async (request: ReplyDraftRequest, options: TriageOptions = {}): Promise<ReplyDraft> => {
+  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  const { input, result, tone } = request;
+  const context = {
+    customer_message: input.customer_message,
+    thread: input.thread?.length ? input.thread.map(({ author, text }) => ({ author, text })) : undefined,
+    account_tier: input.account_tier,
+    summary: result.summary,
+    priority: result.priority,
+    troubleshooting_step: result.troubleshooting_step,
+    current_reply: result.reply,
+    language: result.language || detectLanguage(input.customer_message),
+    agent_language: options.agentLanguage || DEFAULT_AGENT_LANGUAGE,
+    tone: toneInstruction(tone)
+  };
+  const contents: Content[] = [{ role: 'user', parts: [{ text: `Input: ${JSON.stringify(context)}` }] }];
+  const { parsed } = await generateValidJson(ai, contents, {
+    systemInstruction: REPLY_SYSTEM_INSTRUCTION,
+    temperature: 0.4,
+    maxOutputTokens: 400,
+    responseMimeType: "application/json",
+    responseSchema: REPLY_SCHEMA
+  }, validateReplyDraft, Math.max(1, options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS), options);
+  return parsed as unknown as ReplyDraft;
+};
+
+/**
+ * Calls the model until its JSON passes `validate`. Each failed attempt appends the
+ * model's answer and a repair request to the conversation. Every call has its own
+ * timeout and retries on rate limits and server errors (`resilientCalls.ts`).
+ */
+async function generateValidJson(
+  ai: GoogleGenAI,
+  contents: Content[],
+  config: GenerateContentConfig,
+  validate: (value: Record<string, unknown>) => ContractViolation[],
+  maxAttempts: number,
+  callOptions: CallOptions = {}
+): Promise<{ parsed: Record<string, unknown>; response: GenerateContentResponse }> {
+  let lastError: Error | null = null;
+  let violations: ContractViolation[] = [];
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const response = await resilientCall(
+      abortSignal => ai.models.generateContent({ model: "gemini-3-flash-preview", contents, config: { ...config, abortSignal } }),
+      callOptions
+    );
+
+    const raw = response.text;
+    if (!raw) throw new Error('Empty response from AI engine');
+    const truncated = response.candidates?.[0]?.finishReason === FinishReason.MAX_TOKENS;
+
+    try {
+      const parsed = parseTriageResponse(raw, truncated);
+      violations = validate(parsed);
+      lastError = null;
+      if (violations.length === 0) return { parsed, response };
+    } catch (e) {
+      if (!(e instanceof TriageError)) throw e;
+      lastError = e;
+      violations = [describeResponseError(e)];
     }
+
+    contents.push(
+      { role: 'model', parts: [{ text: raw }] },
+      { role: 'user', parts: [{ text: buildRepairPrompt(violations) }] }
+    );
   }
 
-  // Extract grounding chunks if search was used
+  throw lastError || new ContractViolationError(violations, maxAttempts);
+}
+
+function describeResponseError(e: TriageError): ContractViolation {
+  if (e instanceof TruncatedResponseError) {
+    return { field: 'response', rule: 'truncated', message: 'the response was cut off before the JSON object was complete; keep every field shorter' };
+  }
+  if (e instanceof ModelRefusalError) {
+    return { field: 'response', rule: 'model_error', message: `you returned the error fallback "${e.code}"; produce a valid triage object instead` };
+  }
+  return { field: 'response', rule: 'invalid_json', message: 'the response was not a valid triage JSON object' };
+}
+
+// Extract grounding chunks if search was used
+function extractGroundingSources(input: TriageInput, response: GenerateContentResponse): GroundingSource[] {
   const grounding_sources: GroundingSource[] = [];
   if (input.use_search && response.candidates?.[0]?.groundingMetadata?.groundingChunks) {
     response.candidates[0].groundingMetadata.groundingChunks.forEach((chunk: any) => {
@@ -86,55 +224,5 @@ export const triageMessage = async (input: TriageInput): Promise<TriageResult> =
       }
     });
   }
-
-  return { ...result, grounding_sources };
-};
-
-// --- Live Audio Utilities ---
-
-export function decodeBase64(base64: string): Uint8Array {
-  const binaryString = atob(base64);
-  const bytes = new Uint8Array(binaryString.length);
-  for (let i = 0; i < binaryString.length; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
-  }
-  return bytes;
-}
-
-export async function decodeAudioData(
-  data: Uint8Array,
-  ctx: AudioContext,
-  sampleRate: number,
-  numChannels: number,
-): Promise<AudioBuffer> {
-  const dataInt16 = new Int16Array(data.buffer);
-  const frameCount = dataInt16.length / numChannels;
-  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
-
-  for (let channel = 0; channel < numChannels; channel++) {
-    const channelData = buffer.getChannelData(channel);
-    for (let i = 0; i < frameCount; i++) {
-      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
-    }
-  }
-  return buffer;
-}
-
-export function encodeBase64(bytes: Uint8Array): string {
-  let binary = '';
-  for (let i = 0; i < bytes.byteLength; i++) {
-    binary += String.fromCharCode(bytes[i]);
-  }
-  return btoa(binary);
-}
-
-export function createPcmBlob(data: Float32Array): { data: string; mimeType: string } {
-  const int16 = new Int16Array(data.length);
-  for (let i = 0; i < data.length; i++) {
-    int16[i] = data[i] * 32768;
-  }
-  return {
-    data: encodeBase64(new Uint8Array(int16.buffer)),
-    mimeType: 'audio/pcm;rate=16000',
-  };
+  return grounding_sources;
 }
@@ -0,0 +1,308 @@
+import {
+  AccountTier, ApiFieldError, HelpdeskConnector, HelpdeskConnectorOptions, HelpdeskRequest, HelpdeskTarget, HelpdeskTicket,
+  Priority, ThreadMessage, TriageInput, TriageResult
+} from "./types";
+import { htmlToText } from "./knowledgeBase";
+import { categoryLabel } from "./triageTaxonomy";
+
+// --- Helpdesk Connectors ---
+// Adapters between helpdesk webhooks and triage. Each one maps a ticket payload to a
+// TriageInput and turns the TriageResult into the platform's API calls: an internal
+// note carrying the suggested reply, and a priority update.
+
+/** The payload is not a ticket this connector understands. */
+export class WebhookPayloadError extends Error {
+  constructor(public readonly details: ApiFieldError[]) {
+    super('Webhook payload could not be mapped to a ticket');
+    this.name = 'WebhookPayloadError';
+  }
+}
+
+/** The helpdesk rejected an update or could not be reached (`status` 0). */
+export class HelpdeskDeliveryError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+    this.name = 'HelpdeskDeliveryError';
+  }
+}
+
+/** The connector is missing a setting it needs to build the updates, e.g. Intercom's admin id. */
+export class HelpdeskConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HelpdeskConfigError';
+  }
+}
+
+type JsonObject = Record<string, unknown>;
+
+interface WebhookMessage {
+  author: ThreadMessage['author'];
+  text: string;
+  at: string;
+}
+
+const isObject = (value: unknown): value is JsonObject => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const asObject = (value: unknown): JsonObject => isObject(value) ? value : {};
+
+const asArray = (value: unknown): unknown[] => Array.isArray(value) ? value : [];
+
+/** Reads a nested field, e.g. field(payload, 'data', 'item'); undefined when any step is not an object. */
+const field = (value: unknown, ...path: string[]): unknown =>
+  path.reduce<unknown>((current, key) => isObject(current) ? current[key] : undefined, value);
+
+const asText = (value: unknown) => typeof value === 'string' ? value : typeof value === 'number' ? String(value) : '';
+
+const htmlText = (value: unknown) => htmlToText(asText(value)).text;
+
+const unixToIso = (seconds: unknown) => typeof seconds === 'number' ? new Date(seconds * 1000).toISOString() : '';
+
+/** Tags arrive as arrays, comma lists or space-separated strings depending on the webhook template. */
+const tagList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.map(t => isObject(t) ? asText(t.name) : asText(t)) : asText(value).split(/[,\s]+/);
+
+/** Finds a tier named in a field value or tag, e.g. "Enterprise", "plan_pro" or "tier:free". */
+export function tierFromValues(values: unknown[]): AccountTier | undefined {
+  for (const value of values) {
+    const words = asText(value).toLowerCase().split(/[^a-z]+/);
+    const match = Object.values(AccountTier).find(t => words.includes(t.toLowerCase()));
+    if (match) return match;
+  }
+  return undefined;
+}
+
+/** Puts the subject in front of the opening message, where it usually adds context. */
+function withSubject(messages: WebhookMessage[], subject: string): WebhookMessage[] {
+  const [first, ...rest] = messages;
+  if (!first || !subject || first.text.toLowerCase().includes(subject.toLowerCase())) return messages;
+  return [{ ...first, text: `${subject}\n\n${first.text}` }, ...rest];
+}
+
+/**
+ * Builds the TriageInput: the latest customer message is triaged, everything before it
+ * becomes the thread, and agent messages after it are dropped.
+ */
+function toTriageInput(ticketId: string, messages: WebhookMessage[], tier: AccountTier, activity: string): TriageInput {
+  const errors: ApiFieldError[] = [];
+  if (!ticketId) errors.push({ field: 'id', message: 'is required' });
+  const texts = messages.map(m => ({ ...m, text: m.text.trim() })).filter(m => m.text);
+  const latest = texts.map(m => m.author).lastIndexOf('customer');
+  if (latest === -1) errors.push({ field: 'message', message: 'no customer message found' });
+  if (errors.length) throw new WebhookPayloadError(errors);
+
+  const thread = texts.slice(0, latest);
+  return {
+    customer_message: texts[latest].text,
+    account_tier: tier,
+    recent_activity_summary: activity.trim(),
+    ...(thread.length ? { thread } : {})
+  };
+}
+
+// --- Notes ---
+
+/** The internal note posted back to the ticket, as plain text. */
+export function formatInternalNote(result: TriageResult): string {
+  const details = [
+    result.category && `Category: ${categoryLabel(result.category)}`,
+    result.sentiment && `Sentiment: ${result.sentiment}`,
+    result.confidence !== undefined && `Confidence: ${Math.round(result.confidence * 100)}%`
+  ].filter(Boolean).join(' · ');
+  const lines = [
+    `HelpFlow triage · ${result.priority} priority`,
+    `Summary: ${result.summary}`,
+    `Reason: ${result.priority_reason}`,
+    details,
+    result.troubleshooting_step && `Next step: ${result.troubleshooting_step}`,
+    result.escalation_instructions && `Escalation: ${result.escalation_instructions}`,
+    result.policy_check?.overridden && `Policy: raised from ${result.policy_check.model_priority} by "${result.policy_check.rule_label}"`
+  ].filter(Boolean);
+  const reply = ['Suggested reply:', result.reply];
+  if (result.reply_translation) reply.push('', `Translation: ${result.reply_translation}`);
+  return [...lines, '', ...reply].join('\n');
+}
+
+const escapeHtml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const formatInternalNoteHtml = (result: TriageResult) =>
+  formatInternalNote(result).split('\n\n').map(p => `<p>${escapeHtml(p).replace(/\n/g, '<br>')}</p>`).join('');
+
+const noteTags = (result: TriageResult) => ['helpflow', ...(result.category ? [`helpflow_${result.category}`] : [])];
+
+// --- Zendesk ---
+// Trigger webhooks with a `ticket` object (id, subject, description, tags, custom_fields,
+// optional comments with author roles) or event webhooks with the ticket under `detail`.
+
+const ZENDESK_PRIORITY: Record<Priority, string> = {
+  [Priority.High]: 'urgent',
+  [Priority.Medium]: 'normal',
+  [Priority.Low]: 'low'
+};
+
+/** custom_fields as an [{ id, value }] array or a plain object, keyed by id and name. */
+function zendeskFields(value: unknown): JsonObject {
+  if (isObject(value)) return value;
+  return Object.fromEntries(asArray(value).filter(isObject).flatMap(f => [[asText(f.id), f.value], [asText(f.name), f.value]]));
+}
+
+export const zendeskConnector: HelpdeskConnector = {
+  platform: 'zendesk',
+  label: 'Zendesk',
+  parseWebhook: (payload: unknown, options: HelpdeskConnectorOptions = {}): HelpdeskTicket => {
+    const ticket = field(payload, 'ticket') ?? field(payload, 'detail');
+    if (!isObject(ticket)) throw new WebhookPayloadError([{ field: 'ticket', message: 'is required' }]);
+    const fields = zendeskFields(ticket.custom_fields);
+    const comments: WebhookMessage[] = asArray(ticket.comments).filter(isObject).map(c => ({
+      author: (field(c, 'author', 'role') ?? c.author_role) === 'end-user' ? 'customer' : 'agent',
+      text: asText(c.plain_body) || htmlText(c.html_body) || asText(c.body),
+      at: asText(c.created_at)
+    }));
+    const messages = comments.length ? comments : [{ author: 'customer' as const, text: asText(ticket.description), at: asText(ticket.created_at) }];
+    const tier = tierFromValues([fields[options.tierField || 'account_tier'], ...tagList(ticket.tags)]) || options.defaultTier || AccountTier.Free;
+    const ticketId = asText(ticket.id);
+    return {
+      platform: 'zendesk',
+      ticket_id: ticketId,
+      input: toTriageInput(ticketId, withSubject(messages, asText(ticket.subject).trim()), tier, asText(fields[options.activityField || 'recent_activity']))
+    };
+  },
+  buildUpdates: (ticketId: string, result: TriageResult): HelpdeskRequest[] => [{
+    method: 'PUT',
+    path: `/api/v2/tickets/${encodeURIComponent(ticketId)}.json`,
+    body: {
+      ticket: {
+        priority: ZENDESK_PRIORITY[result.priority],
+        comment: { body: formatInternalNote(result), public: false },
+        additional_tags: noteTags(result)
+      }
+    }
+  }]
+};
+
+// --- Freshdesk ---
+// Automation webhooks with placeholders under `freshdesk_webhook` (ticket_id, ticket_subject,
+// ticket_description, ticket_tags, ticket_cf_* custom fields), or a ticket as returned by the
+// API with custom_fields and optional conversations.
+
+const FRESHDESK_PRIORITY: Record<Priority, number> = {
+  [Priority.High]: 4,
+  [Priority.Medium]: 2,
+  [Priority.Low]: 1
+};
+
+export const freshdeskConnector: HelpdeskConnector = {
+  platform: 'freshdesk',
+  label: 'Freshdesk',
+  parseWebhook: (payload: unknown, options: HelpdeskConnectorOptions = {}): HelpdeskTicket => {
+    const ticket = isObject(payload) ? payload.freshdesk_webhook ?? payload.ticket ?? payload : undefined;
+    if (!isObject(ticket)) throw new WebhookPayloadError([{ field: 'freshdesk_webhook', message: 'is required' }]);
+    const customField = (name: string) => field(ticket, 'custom_fields', name) ?? ticket[`ticket_${name}`] ?? ticket[name];
+    const conversations: WebhookMessage[] = asArray(ticket.conversations)
+      .filter(isObject)
+      .filter(c => !c.private)
+      .map(c => ({ author: c.incoming ? 'customer' : 'agent', text: asText(c.body_text) || htmlText(c.body), at: asText(c.created_at) }));
+    const description = asText(ticket.description_text) || htmlText(ticket.ticket_description ?? ticket.description);
+    const messages = [{ author: 'customer' as const, text: description, at: asText(ticket.created_at) }, ...conversations];
+    const tier = tierFromValues([customField(options.tierField || 'cf_account_tier'), ...tagList(ticket.ticket_tags ?? ticket.tags)]) || options.defaultTier || AccountTier.Free;
+    const ticketId = asText(ticket.ticket_id ?? ticket.id);
+    return {
+      platform: 'freshdesk',
+      ticket_id: ticketId,
+      input: toTriageInput(ticketId, withSubject(messages, asText(ticket.ticket_subject ?? ticket.subject).trim()), tier, asText(customField(options.activityField || 'cf_recent_activity')))
+    };
+  },
+  buildUpdates: (ticketId: string, result: TriageResult): HelpdeskRequest[] => [
+    {
+      method: 'POST',
+      path: `/api/v2/tickets/${encodeURIComponent(ticketId)}/notes`,
+      body: { body: formatInternalNoteHtml(result), private: true }
+    },
+    {
+      method: 'PUT',
+      path: `/api/v2/tickets/${encodeURIComponent(ticketId)}`,
+      body: { priority: FRESHDESK_PRIORITY[result.priority] }
+    }
+  ]
+};
+
+// --- Intercom ---
+// `conversation.user.created` / `conversation.user.replied` notifications with the
+// conversation under data.item. Intercom has no ticket priority levels, so the priority
+// goes into a conversation attribute.
+
+export const INTERCOM_PRIORITY_ATTRIBUTE = 'HelpFlow Priority';
+
+const INTERCOM_CUSTOMER_TYPES = ['user', 'lead', 'contact'];
+
+export const intercomConnector: HelpdeskConnector = {
+  platform: 'intercom',
+  label: 'Intercom',
+  parseWebhook: (payload: unknown, options: HelpdeskConnectorOptions = {}): HelpdeskTicket => {
+    const conversation = isObject(payload) ? field(payload, 'data', 'item') ?? payload : undefined;
+    const source = field(conversation, 'source');
+    if (!isObject(conversation) || !isObject(source)) {
+      throw new WebhookPayloadError([{ field: 'data.item.source', message: 'is required' }]);
+    }
+    const toMessage = (part: JsonObject): WebhookMessage => ({
+      author: INTERCOM_CUSTOMER_TYPES.includes(asText(field(part, 'author', 'type'))) ? 'customer' : 'agent',
+      text: htmlText(part.body),
+      at: unixToIso(part.created_at)
+    });
+    const messages = [
+      toMessage({ ...source, created_at: source.created_at ?? conversation.created_at }),
+      ...asArray(field(conversation, 'conversation_parts', 'conversation_parts'))
+        .filter(isObject)
+        .filter(p => p.part_type === 'comment')
+        .map(toMessage)
+    ];
+    const attributes = asObject(conversation.custom_attributes);
+    const tier = tierFromValues([attributes[options.tierField || 'Account Tier'], ...tagList(field(conversation, 'tags', 'tags'))]) || options.defaultTier || AccountTier.Free;
+    const ticketId = asText(conversation.id);
+    return {
+      platform: 'intercom',
+      ticket_id: ticketId,
+      input: toTriageInput(ticketId, withSubject(messages, htmlText(source.subject)), tier, asText(attributes[options.activityField || 'Recent Activity']))
+    };
+  },
+  buildUpdates: (ticketId: string, result: TriageResult, options: HelpdeskConnectorOptions = {}): HelpdeskRequest[] => {
+    if (!options.adminId) throw new HelpdeskConfigError('Intercom notes need an admin id; set options.adminId for the intercom helpdesk');
+    return [
+      {
+        method: 'POST',
+        path: `/conversations/${encodeURIComponent(ticketId)}/reply`,
+        body: { message_type: 'note', type: 'admin', admin_id: options.adminId, body: formatInternalNoteHtml(result) }
+      },
+      {
+        method: 'PUT',
+        path: `/conversations/${encodeURIComponent(ticketId)}`,
+        body: { custom_attributes: { [INTERCOM_PRIORITY_ATTRIBUTE]: result.priority } }
+      }
+    ];
+  }
+};
+
+export const HELPDESK_CONNECTORS: HelpdeskConnector[] = [zendeskConnector, freshdeskConnector, intercomConnector];
+
+export const getHelpdeskConnector = (platform: string): HelpdeskConnector | undefined =>
+  HELPDESK_CONNECTORS.find(c => c.platform === platform);
+
+/** Sends the updates in order, so the note is in place before the priority changes. */
+export async function deliverHelpdeskUpdates(target: HelpdeskTarget, requests: HelpdeskRequest[]): Promise<void> {
+  const base = target.url.trim().replace(/\/+$/, '');
+  for (const request of requests) {
+    let response: Response;
+    try {
+      response = await fetch(base + request.path, {
+        method: request.method,
+        headers: { 'Content-Type': 'application/json', Accept: 'application/json', ...target.headers },
+        body: JSON.stringify(request.body)
+      });
+    } catch {
+      throw new HelpdeskDeliveryError(0, `Could not reach ${base}`);
+    }
+    if (!response.ok) {
+      throw new HelpdeskDeliveryError(response.status, `${request.method} ${request.path} answered ${response.status}`);
+    }
+  }
+}
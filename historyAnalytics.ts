@@ -0,0 +1,179 @@
+import { AccountTier, HistoryItem, Priority, TicketStatus, TriageCategory } from "./types";
+import { clusterIncidents } from "./incidentClustering";
+import { categoryLabel } from "./triageTaxonomy";
+import { toCsv } from "./fileUtils";
+
+// --- History Analytics ---
+// Aggregates over stored HistoryItems for the dashboard. Every chart can also be
+// flattened to CSV rows, so the numbers on screen are the numbers in the export.
+
+export type AnalyticsBucket = 'day' | 'week';
+
+export type AnalyticsChartId = 'volume' | 'priority_by_tier' | 'escalation' | 'grounding' | 'top_summaries' | 'top_categories';
+
+export const ANALYTICS_CHARTS: { id: AnalyticsChartId; label: string }[] = [
+  { id: 'volume', label: 'Ticket Volume' },
+  { id: 'priority_by_tier', label: 'Priority by Tier' },
+  { id: 'escalation', label: 'Escalation Rate' },
+  { id: 'grounding', label: 'Grounding Usage' },
+  { id: 'top_summaries', label: 'Recurring Issues' },
+  { id: 'top_categories', label: 'Top Categories' }
+];
+
+export const TOP_LIMIT = 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface VolumePoint {
+  period: string;
+  total: number;
+  high: number;
+  medium: number;
+  low: number;
+}
+
+export interface TierBreakdown {
+  tier: AccountTier;
+  total: number;
+  counts: Record<Priority, number>;
+}
+
+export interface RateStat {
+  count: number;
+  total: number;
+  rate: number;
+}
+
+export interface RankedCount {
+  label: string;
+  count: number;
+}
+
+export interface HistoryAnalytics {
+  total: number;
+  volume: VolumePoint[];
+  priorityByTier: TierBreakdown[];
+  escalation: RateStat;
+  search: RateStat;
+  knowledgeBase: RateStat;
+  topSummaries: RankedCount[];
+  topCategories: RankedCount[];
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+const dateKey = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+/** Local midnight of the day, or of the Monday starting the week. */
+function bucketStart(date: Date, bucket: AnalyticsBucket): Date {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  if (bucket === 'week') start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  return start;
+}
+
+function nextBucket(date: Date, bucket: AnalyticsBucket): Date {
+  const next = new Date(date);
+  next.setDate(next.getDate() + (bucket === 'week' ? 7 : 1));
+  return next;
+}
+
+const rate = (count: number, total: number): RateStat => ({ count, total, rate: total ? count / total : 0 });
+
+/** Escalated means the triage asked for escalation or an agent moved the ticket to Escalated. */
+export function wasEscalated(item: HistoryItem): boolean {
+  return !!item.escalation_instructions?.trim()
+    || item.status === TicketStatus.Escalated
+    || (item.audit || []).some(e => e.action === 'status' && e.to === TicketStatus.Escalated);
+}
+
+// Empty periods are kept so gaps show up as zero instead of disappearing from the chart.
+function volumeSeries(items: HistoryItem[], from: Date, to: Date, bucket: AnalyticsBucket): VolumePoint[] {
+  const points = new Map<string, VolumePoint>();
+  for (let at = bucketStart(from, bucket); at <= to; at = nextBucket(at, bucket)) {
+    const period = dateKey(at);
+    points.set(period, { period, total: 0, high: 0, medium: 0, low: 0 });
+  }
+  for (const item of items) {
+    const point = points.get(dateKey(bucketStart(item.timestamp, bucket)));
+    if (!point) continue;
+    point.total++;
+    if (item.priority === Priority.High) point.high++;
+    else if (item.priority === Priority.Medium) point.medium++;
+    else point.low++;
+  }
+  return Array.from(points.values());
+}
+
+function priorityByTier(items: HistoryItem[]): TierBreakdown[] {
+  return Object.values(AccountTier).map(tier => {
+    const inTier = items.filter(item => item.input.account_tier === tier);
+    const counts = Object.fromEntries(Object.values(Priority).map(p => [p, inTier.filter(item => item.priority === p).length])) as Record<Priority, number>;
+    return { tier, total: inTier.length, counts };
+  });
+}
+
+function topCategories(items: HistoryItem[], categories: TriageCategory[]): RankedCount[] {
+  const counts = new Map<string, number>();
+  items.forEach(item => { if (item.category) counts.set(item.category, (counts.get(item.category) || 0) + 1); });
+  return Array.from(counts.entries())
+    .map(([id, count]) => ({ label: categoryLabel(id, categories), count }))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, TOP_LIMIT);
+}
+
+/**
+ * Builds every dashboard chart from items in [from, to].
+ * Recurring summaries come from incident clustering, since model summaries rarely repeat word for word.
+ */
+export function computeAnalytics(
+  items: HistoryItem[],
+  range: { from: Date; to: Date },
+  bucket: AnalyticsBucket = 'day',
+  categories: TriageCategory[] = []
+): HistoryAnalytics {
+  const inRange = items.filter(item => item.timestamp >= range.from && item.timestamp <= range.to);
+  const total = inRange.length;
+  return {
+    total,
+    volume: volumeSeries(inRange, range.from, range.to, bucket),
+    priorityByTier: priorityByTier(inRange),
+    escalation: rate(inRange.filter(wasEscalated).length, total),
+    search: rate(inRange.filter(item => item.input.use_search).length, total),
+    knowledgeBase: rate(inRange.filter(item => item.input.use_knowledge_base).length, total),
+    topSummaries: clusterIncidents(inRange).slice(0, TOP_LIMIT).map(incident => ({ label: incident.summary, count: incident.count })),
+    topCategories: topCategories(inRange, categories)
+  };
+}
+
+/** Header row plus data rows for one chart, as exported to CSV. */
+export function analyticsChartRows(analytics: HistoryAnalytics, chart: AnalyticsChartId): unknown[][] {
+  const percent = (stat: RateStat) => (stat.rate * 100).toFixed(1);
+  switch (chart) {
+    case 'volume':
+      return [['period', 'total', 'high', 'medium', 'low'], ...analytics.volume.map(p => [p.period, p.total, p.high, p.medium, p.low])];
+    case 'priority_by_tier':
+      return [
+        ['account_tier', 'total', ...Object.values(Priority).map(p => p.toLowerCase())],
+        ...analytics.priorityByTier.map(t => [t.tier, t.total, ...Object.values(Priority).map(p => t.counts[p])])
+      ];
+    case 'escalation':
+      return [['metric', 'count', 'total', 'percent'], ['escalated', analytics.escalation.count, analytics.escalation.total, percent(analytics.escalation)]];
+    case 'grounding':
+      return [
+        ['grounding', 'count', 'total', 'percent'],
+        ['search', analytics.search.count, analytics.search.total, percent(analytics.search)],
+        ['knowledge_base', analytics.knowledgeBase.count, analytics.knowledgeBase.total, percent(analytics.knowledgeBase)]
+      ];
+    case 'top_summaries':
+      return [['summary', 'tickets'], ...analytics.topSummaries.map(s => [s.label, s.count])];
+    case 'top_categories':
+      return [['category', 'tickets'], ...analytics.topCategories.map(c => [c.label, c.count])];
+  }
+}
+
+export const exportAnalyticsCsv = (analytics: HistoryAnalytics, chart: AnalyticsChartId) => toCsv(analyticsChartRows(analytics, chart));
+
+/** Default dashboard range: the last 30 days including today. */
+export function defaultAnalyticsRange(now = new Date()): { from: Date; to: Date } {
+  const to = new Date(now.getFullYear(), now.getMonth(), now.getDate(), 23, 59, 59, 999);
+  return { from: new Date(to.getTime() - 30 * DAY_MS + 1), to };
+}
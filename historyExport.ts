@@ -0,0 +1,255 @@
+import { AccountTier, GroundingSource, HistoryItem, Priority, Sentiment, TicketStatus } from "./types";
+import { HISTORY_SCHEMA_VERSION, HistoryStore, migrateRecord } from "./historyStore";
+import { parseCsv, toCsv } from "./fileUtils";
+import { formatThread } from "./conversationThread";
+import { DEFAULT_REPLY_TONE } from "./replyComposer";
+import { formatTranscript } from "./voiceSession";
+
+// --- History Export/Import ---
+
+export type HistoryExportFormat = 'csv' | 'json' | 'md';
+
+export const EXPORT_FILE_TYPES: Record<HistoryExportFormat, { extension: string; mimeType: string; label: string }> = {
+  csv: { extension: 'csv', mimeType: 'text/csv', label: 'CSV' },
+  json: { extension: 'json', mimeType: 'application/json', label: 'JSON' },
+  md: { extension: 'md', mimeType: 'text/markdown', label: 'Markdown Handoff' }
+};
+
+const CSV_COLUMNS = [
+  'id', 'timestamp', 'priority', 'status', 'assignee', 'summary', 'priority_reason', 'reply', 'troubleshooting_step',
+  'escalation_instructions', 'category', 'sentiment', 'confidence', 'tags', 'language', 'reply_translation', 'sent_reply', 'customer_message', 'thread', 'account_tier', 'recent_activity_summary',
+  'use_search', 'use_knowledge_base', 'provider', 'grounding_sources'
+];
+
+// Grounding sources are flattened to "Title <uri> | Title <uri>" so CSV stays one row per ticket.
+const formatSources = (sources: GroundingSource[] = []) => sources.map(s => `${s.title} <${s.uri}>`).join(' | ');
+
+function parseSources(value: string): GroundingSource[] {
+  return value.split(' | ').map(part => part.trim()).filter(Boolean).map(part => {
+    const match = part.match(/^(.*?)\s*<([^>]+)>$/);
+    return match ? { title: match[1] || 'Source', uri: match[2] } : { title: 'Source', uri: part };
+  });
+}
+
+export function exportHistoryCsv(items: HistoryItem[]): string {
+  return toCsv([
+    CSV_COLUMNS,
+    ...items.map(item => [
+      item.id,
+      item.timestamp.toISOString(),
+      item.priority,
+      item.status || '',
+      item.assignee || '',
+      item.summary,
+      item.priority_reason,
+      item.reply,
+      item.troubleshooting_step,
+      item.escalation_instructions,
+      item.category || '',
+      item.sentiment || '',
+      item.confidence ?? '',
+      (item.tags || []).join('; '),
+      item.language || '',
+      item.reply_translation || '',
+      item.sent_reply?.text || '',
+      item.input.customer_message,
+      item.input.thread?.length ? JSON.stringify(item.input.thread) : '',
+      item.input.account_tier,
+      item.input.recent_activity_summary,
+      item.input.use_search ? 'true' : 'false',
+      item.input.use_knowledge_base ? 'true' : 'false',
+      item.provider || '',
+      formatSources(item.grounding_sources)
+    ])
+  ]);
+}
+
+export function exportHistoryJson(items: HistoryItem[]): string {
+  return JSON.stringify({
+    format: 'helpflow-history',
+    schema_version: HISTORY_SCHEMA_VERSION,
+    exported_at: new Date().toISOString(),
+    items
+  }, null, 2);
+}
+
+export function exportHistoryMarkdown(items: HistoryItem[]): string {
+  const lines = [
+    '# HelpFlow Shift Handoff',
+    '',
+    `_Generated ${new Date().toLocaleString()} · ${items.length} ticket${items.length === 1 ? '' : 's'}_`
+  ];
+
+  for (const priority of Object.values(Priority)) {
+    const group = items.filter(item => item.priority === priority);
+    if (group.length === 0) continue;
+    lines.push('', `## ${priority} (${group.length})`);
+    for (const item of group) {
+      lines.push(
+        '',
+        `### ${item.summary}`,
+        `- **ID:** ${item.id.toUpperCase()} · **Tier:** ${item.input.account_tier} · **Logged:** ${item.timestamp.toLocaleString()}`,
+        `- **Status:** ${item.status || 'New'}${item.assignee ? ` · **Assignee:** ${item.assignee}` : ''}`,
+        ...(item.category ? [`- **Category:** ${item.category}${item.sentiment ? ` · **Sentiment:** ${item.sentiment}` : ''}${item.tags?.length ? ` · **Tags:** ${item.tags.join(', ')}` : ''}`] : []),
+        `- **Reason:** ${item.priority_reason}`,
+        `- **Next step:** ${item.troubleshooting_step}`
+      );
+      if (item.escalation_instructions) lines.push(`- **Escalation:** ${item.escalation_instructions}`);
+      if (item.grounding_sources?.length) {
+        lines.push(`- **Sources:** ${item.grounding_sources.map(s => `[${s.title}](${s.uri})`).join(', ')}`);
+      }
+      if (item.input.thread?.length) {
+        lines.push('- **Earlier in thread:**', ...formatThread(item.input.thread).split('\n').map(l => `  - ${l}`));
+      }
+      lines.push(`- **Customer:** ${item.input.customer_message.replace(/\s+/g, ' ')}`);
+      if (item.voice_session?.turns.length) {
+        lines.push('- **Call transcript:**', ...formatTranscript(item.voice_session).split('\n').map(l => `  - ${l}`));
+      }
+      if (item.sent_reply) lines.push(`- **Sent reply (${item.sent_reply.author}):** ${item.sent_reply.text.replace(/\s+/g, ' ')}`);
+      (item.notes || []).forEach(n => lines.push(`- **Note (${n.author}):** ${n.text.replace(/\s+/g, ' ')}`));
+    }
+  }
+  return lines.join('\n') + '\n';
+}
+
+export function exportHistory(items: HistoryItem[], format: HistoryExportFormat): string {
+  switch (format) {
+    case 'csv': return exportHistoryCsv(items);
+    case 'json': return exportHistoryJson(items);
+    case 'md': return exportHistoryMarkdown(items);
+  }
+}
+
+const isThreadMessage = (m: any) => m && (m.author === 'customer' || m.author === 'agent') && typeof m.text === 'string';
+
+// List fields the history panel filters, searches and renders; a wrong shape would break every query.
+const LIST_FIELDS: [keyof HistoryItem, (entry: any) => boolean][] = [
+  ['tags', t => typeof t === 'string'],
+  ['notes', n => n && typeof n.text === 'string' && typeof n.author === 'string'],
+  ['audit', a => a && typeof a.action === 'string' && typeof a.at === 'string'],
+  ['versions', v => v && Object.values(Priority).includes(v.priority) && v.input && typeof v.input.customer_message === 'string'],
+  ['grounding_sources', g => g && typeof g.title === 'string' && typeof g.uri === 'string']
+];
+
+function validateRecord(raw: any, label: string): { item?: HistoryItem; error?: string } {
+  if (!raw || typeof raw !== 'object') return { error: `${label}: not an object` };
+  if (typeof raw.id !== 'string' || !raw.id.trim()) return { error: `${label}: missing id` };
+  if (!Object.values(Priority).includes(raw.priority)) return { error: `${label}: invalid priority "${raw.priority}"` };
+  if (!raw.input || typeof raw.input.customer_message !== 'string') return { error: `${label}: missing input.customer_message` };
+  if (!Object.values(AccountTier).includes(raw.input.account_tier)) return { error: `${label}: invalid account tier "${raw.input.account_tier}"` };
+  if (raw.input.thread !== undefined && !(Array.isArray(raw.input.thread) && raw.input.thread.every(isThreadMessage))) {
+    return { error: `${label}: invalid input.thread` };
+  }
+  if (raw.sentiment !== undefined && !Object.values(Sentiment).includes(raw.sentiment)) return { error: `${label}: invalid sentiment "${raw.sentiment}"` };
+  if (raw.confidence !== undefined && !(typeof raw.confidence === 'number' && raw.confidence >= 0 && raw.confidence <= 1)) {
+    return { error: `${label}: confidence must be a number between 0 and 1` };
+  }
+  if (raw.sent_reply !== undefined && !(raw.sent_reply && typeof raw.sent_reply.text === 'string' && typeof raw.sent_reply.at === 'string')) {
+    return { error: `${label}: invalid sent_reply` };
+  }
+  if (raw.voice_session !== undefined && !(raw.voice_session && Array.isArray(raw.voice_session.turns) && raw.voice_session.turns.every((t: any) => t && typeof t.text === 'string'))) {
+    return { error: `${label}: invalid voice_session` };
+  }
+  if (raw.status !== undefined && !Object.values(TicketStatus).includes(raw.status)) return { error: `${label}: invalid status "${raw.status}"` };
+  for (const [key, isEntry] of LIST_FIELDS) {
+    if (raw[key] !== undefined && !(Array.isArray(raw[key]) && raw[key].every(isEntry))) return { error: `${label}: invalid ${key}` };
+  }
+  for (const key of ['summary', 'priority_reason', 'reply', 'troubleshooting_step', 'escalation_instructions']) {
+    if (typeof raw[key] !== 'string') return { error: `${label}: "${key}" must be a string` };
+  }
+
+  const record = migrateRecord(raw);
+  const timestamp = new Date(record.timestamp);
+  if (isNaN(timestamp.getTime())) return { error: `${label}: invalid timestamp` };
+  const { schema_version, ...item } = record;
+  return { item: { ...item, timestamp } };
+}
+
+// Threads travel as a JSON array in one CSV cell; an unreadable cell is left for validation to reject.
+function parseThreadCell(value: string): unknown {
+  if (!value.trim()) return undefined;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+function csvRowToRecord(row: Record<string, string>) {
+  return {
+    id: row.id,
+    timestamp: row.timestamp,
+    priority: row.priority,
+    status: row.status || undefined,
+    assignee: row.assignee || '',
+    summary: row.summary,
+    priority_reason: row.priority_reason,
+    reply: row.reply,
+    troubleshooting_step: row.troubleshooting_step,
+    escalation_instructions: row.escalation_instructions || '',
+    category: row.category || undefined,
+    sentiment: row.sentiment || undefined,
+    confidence: row.confidence ? Number(row.confidence) : undefined,
+    tags: row.tags ? row.tags.split(';').map(t => t.trim()).filter(Boolean) : undefined,
+    language: row.language || undefined,
+    reply_translation: row.reply_translation || undefined,
+    // CSV keeps only the sent text; who sent it and when are not exported.
+    sent_reply: row.sent_reply ? { text: row.sent_reply, at: row.timestamp, author: row.assignee || 'import', tone: DEFAULT_REPLY_TONE, macro_ids: [] } : undefined,
+    provider: row.provider || undefined,
+    grounding_sources: parseSources(row.grounding_sources || ''),
+    input: {
+      customer_message: row.customer_message,
+      thread: parseThreadCell(row.thread || ''),
+      account_tier: row.account_tier,
+      recent_activity_summary: row.recent_activity_summary || '',
+      use_search: row.use_search === 'true',
+      use_knowledge_base: row.use_knowledge_base === 'true'
+    }
+  };
+}
+
+/**
+ * Reads a JSON or CSV history export. Invalid records are reported, not thrown.
+ */
+export function parseHistoryImport(filename: string, text: string): { items: HistoryItem[]; errors: string[] } {
+  let raws: any[];
+  if (/\.csv$/i.test(filename)) {
+    const [header, ...rows] = parseCsv(text);
+    if (!header) return { items: [], errors: ['The CSV file is empty'] };
+    raws = rows.map(row => csvRowToRecord(Object.fromEntries(header.map((h, i) => [h.trim(), row[i] ?? '']))));
+  } else {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      return { items: [], errors: ['The file is not valid JSON'] };
+    }
+    raws = Array.isArray(parsed) ? parsed : Array.isArray(parsed?.items) ? parsed.items : null;
+    if (!raws) return { items: [], errors: ['Expected an array of history items'] };
+  }
+
+  const items: HistoryItem[] = [];
+  const errors: string[] = [];
+  raws.forEach((raw, i) => {
+    const { item, error } = validateRecord(raw, `Record ${i + 1}`);
+    if (item) items.push(item);
+    if (error) errors.push(error);
+  });
+  return { items, errors };
+}
+
+/**
+ * Writes imported items to the store, skipping ids that already exist there or
+ * appear earlier in the same file.
+ */
+export async function importHistory(items: HistoryItem[], store: HistoryStore): Promise<{ imported: number; skipped: number }> {
+  const seen = new Set<string>();
+  const fresh: HistoryItem[] = [];
+  for (const item of items) {
+    if (seen.has(item.id) || await store.get(item.id)) continue;
+    seen.add(item.id);
+    fresh.push(item);
+  }
+  await store.putMany(fresh);
+  return { imported: fresh.length, skipped: items.length - fresh.length };
+}
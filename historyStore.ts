@@ -0,0 +1,347 @@
+import { AccountTier, HistoryItem, Priority, Sentiment, TicketStatus } from "./types";
+
+// --- History Store ---
+// Versioned persistence for triage history. IndexedDB in the browser, in-memory for
+// tests and non-browser runtimes. Items are written one at a time instead of
+// re-serializing the whole history on every change.
+
+export const HISTORY_SCHEMA_VERSION = 2;
+export const LEGACY_HISTORY_KEY = 'helpflow_history';
+
+const DB_NAME = 'helpflow';
+const STORE_NAME = 'history';
+
+export type HistorySortField = 'newest' | 'confidence' | 'sentiment' | 'category';
+
+export interface HistoryQuery {
+  priority?: Priority;
+  tier?: AccountTier;
+  status?: TicketStatus;
+  category?: string;
+  sentiment?: Sentiment;
+  tag?: string;
+  /** Only items whose confidence is below this value; items without a score never match. */
+  maxConfidence?: number;
+  from?: Date;
+  to?: Date;
+  text?: string;
+  sort?: HistorySortField;
+  offset?: number;
+  limit?: number;
+}
+
+export interface HistoryPage {
+  items: HistoryItem[];
+  total: number;
+}
+
+export interface HistoryStore {
+  put: (item: HistoryItem) => Promise<void>;
+  putMany: (items: HistoryItem[]) => Promise<void>;
+  get: (id: string) => Promise<HistoryItem | undefined>;
+  query: (query?: HistoryQuery) => Promise<HistoryPage>;
+  delete: (id: string) => Promise<void>;
+  clear: () => Promise<void>;
+}
+
+/** Shape of a record at rest: timestamps as epoch millis so they can be indexed. */
+interface StoredHistoryRecord extends Omit<HistoryItem, 'timestamp'> {
+  timestamp: number;
+  schema_version: number;
+}
+
+function toRecord(item: HistoryItem): StoredHistoryRecord {
+  return { ...item, timestamp: item.timestamp.getTime(), schema_version: HISTORY_SCHEMA_VERSION };
+}
+
+function fromRecord(record: StoredHistoryRecord): HistoryItem {
+  const { schema_version, ...item } = record;
+  return { ...item, timestamp: new Date(record.timestamp) };
+}
+
+/**
+ * Upgrades a record of any earlier schema version to the current one.
+ * Version 0 is the pre-store localStorage shape with ISO string timestamps.
+ */
+export function migrateRecord(raw: any): StoredHistoryRecord {
+  let record = { ...raw };
+  const version: number = typeof record.schema_version === 'number' ? record.schema_version : 0;
+  if (version < 1) {
+    record = {
+      ...record,
+      timestamp: new Date(record.timestamp).getTime() || Date.now(),
+      grounding_sources: record.grounding_sources || [],
+      schema_version: 1
+    };
+  }
+  if (version < 2) {
+    const created = new Date(record.timestamp).toISOString();
+    record = {
+      ...record,
+      status: record.status || TicketStatus.New,
+      assignee: record.assignee || '',
+      notes: record.notes || [],
+      audit: record.audit || [{ at: created, actor: 'HelpFlow', action: 'created' }],
+      versions: record.versions || [],
+      schema_version: 2
+    };
+  }
+  return record as StoredHistoryRecord;
+}
+
+export function matchesQuery(item: HistoryItem, query: HistoryQuery): boolean {
+  if (query.priority && item.priority !== query.priority) return false;
+  if (query.tier && item.input.account_tier !== query.tier) return false;
+  if (query.status && (item.status || TicketStatus.New) !== query.status) return false;
+  if (query.category && item.category !== query.category) return false;
+  if (query.sentiment && item.sentiment !== query.sentiment) return false;
+  if (query.tag && !(item.tags || []).some(t => t.toLowerCase() === query.tag!.trim().toLowerCase())) return false;
+  if (query.maxConfidence !== undefined && !(typeof item.confidence === 'number' && item.confidence < query.maxConfidence)) return false;
+  if (query.from && item.timestamp < query.from) return false;
+  if (query.to && item.timestamp > query.to) return false;
+  const text = query.text?.trim().toLowerCase();
+  if (text) {
+    const haystack = [
+      item.id,
+      item.summary,
+      item.priority_reason,
+      item.reply,
+      item.sent_reply?.text,
+      item.input.customer_message,
+      item.input.recent_activity_summary,
+      ...(item.input.thread || []).map(m => m.text),
+      ...(item.voice_session?.turns || []).map(t => t.text),
+      item.assignee,
+      ...(item.tags || []),
+      ...(item.notes || []).map(n => n.text)
+    ].join(' ').toLowerCase();
+    if (!haystack.includes(text)) return false;
+  }
+  return true;
+}
+
+// Most negative first, so upset customers surface at the top.
+const SENTIMENT_RANK: Record<Sentiment, number> = {
+  [Sentiment.Angry]: 0,
+  [Sentiment.Frustrated]: 1,
+  [Sentiment.Neutral]: 2,
+  [Sentiment.Positive]: 3
+};
+
+/**
+ * Orders items that arrive newest-first. Sorts are stable, so ties stay newest-first.
+ * Confidence sorts lowest first to put uncertain results up for review.
+ */
+function sortItems(items: HistoryItem[], sort: HistorySortField = 'newest'): HistoryItem[] {
+  switch (sort) {
+    case 'newest': return items;
+    case 'confidence': return [...items].sort((a, b) => (a.confidence ?? 2) - (b.confidence ?? 2));
+    case 'sentiment': return [...items].sort((a, b) => (a.sentiment ? SENTIMENT_RANK[a.sentiment] : 4) - (b.sentiment ? SENTIMENT_RANK[b.sentiment] : 4));
+    case 'category': return [...items].sort((a, b) => (a.category || '\uffff').localeCompare(b.category || '\uffff'));
+  }
+}
+
+function paginate(items: HistoryItem[], query: HistoryQuery): HistoryPage {
+  const offset = query.offset || 0;
+  const end = query.limit ? offset + query.limit : undefined;
+  return { items: items.slice(offset, end), total: items.length };
+}
+
+export function createMemoryHistoryStore(initial: HistoryItem[] = []): HistoryStore {
+  const records = new Map(initial.map(item => [item.id, toRecord(item)]));
+
+  return {
+    put: async (item) => { records.set(item.id, toRecord(item)); },
+    putMany: async (items) => { items.forEach(item => records.set(item.id, toRecord(item))); },
+    get: async (id) => {
+      const record = records.get(id);
+      return record ? fromRecord(record) : undefined;
+    },
+    query: async (query = {}) => {
+      const items = Array.from(records.values())
+        .map(fromRecord)
+        .filter(item => matchesQuery(item, query))
+        .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+      return paginate(sortItems(items, query.sort), query);
+    },
+    delete: async (id) => { records.delete(id); },
+    clear: async () => { records.clear(); }
+  };
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('History transaction aborted'));
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, HISTORY_SCHEMA_VERSION);
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      if (event.oldVersion < 1) {
+        const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        store.createIndex('timestamp', 'timestamp');
+        store.createIndex('priority', ['priority', 'timestamp']);
+        store.createIndex('tier', ['input.account_tier', 'timestamp']);
+      }
+      if (event.oldVersion < 2) {
+        const store = request.transaction!.objectStore(STORE_NAME);
+        store.createIndex('status', ['status', 'timestamp']);
+        // Existing records lack a status, so they would be missing from the new index.
+        store.openCursor().onsuccess = (e) => {
+          const cursor = (e.target as IDBRequest<IDBCursorWithValue | null>).result;
+          if (!cursor) return;
+          cursor.update(migrateRecord(cursor.value));
+          cursor.continue();
+        };
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Moves the legacy localStorage blob into the store. The key is removed only after
+ * the write transaction commits, so a failed migration is retried on next load.
+ */
+async function migrateLegacyHistory(db: IDBDatabase) {
+  const saved = localStorage.getItem(LEGACY_HISTORY_KEY);
+  if (!saved) return;
+  let legacy: unknown;
+  try {
+    legacy = JSON.parse(saved);
+  } catch {
+    console.warn('Discarding unreadable legacy history blob');
+    localStorage.removeItem(LEGACY_HISTORY_KEY);
+    return;
+  }
+  if (Array.isArray(legacy) && legacy.length > 0) {
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    legacy.forEach(raw => tx.objectStore(STORE_NAME).put(migrateRecord(raw)));
+    await transactionDone(tx);
+  }
+  localStorage.removeItem(LEGACY_HISTORY_KEY);
+}
+
+type IndexedField = 'priority' | 'tier' | 'status';
+
+interface IndexSource {
+  /** The query filter the index range already applies, if any. */
+  field?: IndexedField;
+  index: IDBIndex;
+  range: IDBKeyRange;
+}
+
+/** Whether the query filters on anything beyond the index range, so records must be checked one by one. */
+function hasUnindexedFilters(query: HistoryQuery, indexed?: IndexedField): boolean {
+  const fieldFilters = (['priority', 'tier', 'status'] as IndexedField[]).filter(f => f !== indexed && query[f]);
+  return fieldFilters.length > 0 || !!query.category || !!query.sentiment || !!query.tag
+    || query.maxConfidence !== undefined || !!query.text?.trim();
+}
+
+/**
+ * Opens a newest-first cursor over the source range, skips `skip` records, and hands each
+ * record to `visit` until it returns false or the range ends.
+ */
+function walkNewestFirst(source: IndexSource, skip: number, visit: (record: StoredHistoryRecord) => boolean): Promise<void> {
+  return new Promise((resolve, reject) => {
+    let skipped = skip === 0;
+    const request = source.index.openCursor(source.range, 'prev');
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return resolve();
+      if (!skipped) {
+        skipped = true;
+        return cursor.advance(skip);
+      }
+      if (visit(cursor.value)) cursor.continue();
+      else resolve();
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function createIndexedDbHistoryStore(): HistoryStore {
+  const ready = openDatabase().then(async db => {
+    await migrateLegacyHistory(db);
+    return db;
+  });
+
+  const write = async (fn: (store: IDBObjectStore) => void) => {
+    const tx = (await ready).transaction(STORE_NAME, 'readwrite');
+    fn(tx.objectStore(STORE_NAME));
+    await transactionDone(tx);
+  };
+
+  // Walks the narrowest index newest-first and applies the remaining filters in memory.
+  // Newest-first pages stop reading once the page is full; other sorts need every match.
+  const query = async (query: HistoryQuery = {}): Promise<HistoryPage> => {
+    const store = (await ready).transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+    const from = query.from?.getTime() ?? 0;
+    const to = query.to?.getTime() ?? Number.MAX_SAFE_INTEGER;
+    const source: IndexSource = query.priority
+      ? { field: 'priority', index: store.index('priority'), range: IDBKeyRange.bound([query.priority, from], [query.priority, to]) }
+      : query.tier
+        ? { field: 'tier', index: store.index('tier'), range: IDBKeyRange.bound([query.tier, from], [query.tier, to]) }
+        : query.status
+          ? { field: 'status', index: store.index('status'), range: IDBKeyRange.bound([query.status, from], [query.status, to]) }
+          : { index: store.index('timestamp'), range: IDBKeyRange.bound(from, to) };
+    const newest = (query.sort || 'newest') === 'newest';
+    const offset = query.offset || 0;
+    const pageEnd = newest && query.limit ? offset + query.limit : Infinity;
+
+    // Every record in the range matches, so the index counts them and the cursor skips the offset.
+    if (newest && !hasUnindexedFilters(query, source.field)) {
+      const items: HistoryItem[] = [];
+      const [total] = await Promise.all([
+        promisify(source.index.count(source.range)),
+        walkNewestFirst(source, offset, record => {
+          items.push(fromRecord(migrateRecord(record)));
+          return offset + items.length < pageEnd;
+        })
+      ]);
+      return { items, total };
+    }
+
+    const matches: HistoryItem[] = [];
+    let total = 0;
+    await walkNewestFirst(source, 0, record => {
+      const item = fromRecord(migrateRecord(record));
+      if (!matchesQuery(item, query)) return true;
+      if (total++ < pageEnd) matches.push(item);
+      return true;
+    });
+    return newest
+      ? { items: matches.slice(offset), total }
+      : paginate(sortItems(matches, query.sort), query);
+  };
+
+  return {
+    put: (item) => write(store => store.put(toRecord(item))),
+    putMany: (items) => write(store => items.forEach(item => store.put(toRecord(item)))),
+    get: async (id) => {
+      const store = (await ready).transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+      const record = await promisify<StoredHistoryRecord | undefined>(store.get(id));
+      return record ? fromRecord(migrateRecord(record)) : undefined;
+    },
+    query,
+    delete: (id) => write(store => store.delete(id)),
+    clear: () => write(store => store.clear())
+  };
+}
+
+export const historyStore: HistoryStore = typeof indexedDB !== 'undefined'
+  ? createIndexedDbHistoryStore()
+  : createMemoryHistoryStore();
@@ -0,0 +1,9 @@
+import { HistoryItem, TriageInput, TriageResult } from "./types";
+import { initTicket } from "./ticketLifecycle";
+
+export const createHistoryItem = (triaged: TriageResult, input: TriageInput): HistoryItem => initTicket({
+  ...triaged,
+  id: Math.random().toString(36).substring(2, 9),
+  timestamp: new Date(),
+  input: { ...input }
+});
@@ -0,0 +1,151 @@
+import { DuplicateMatch, HistoryItem, Incident, Priority, TriageInput } from "./types";
+import { tokenize } from "./knowledgeBase";
+import { customerText } from "./conversationThread";
+
+// --- Duplicates & Incidents ---
+// Near-identical tickets are found by cosine similarity over the customer's words and
+// word pairs. Similar tickets are grouped into incidents; a burst of High tickets in
+// one incident suggests an outage rather than isolated problems.
+
+/** How far back duplicate detection and the incident view look. */
+export const RECENT_WINDOW_MS = 72 * 60 * 60 * 1000;
+export const DUPLICATE_THRESHOLD = 0.5;
+export const CLUSTER_THRESHOLD = 0.35;
+export const MAX_DUPLICATES = 3;
+
+/** A spike is this many High tickets in one incident within SPIKE_WINDOW_MS. */
+export const SPIKE_MIN_HIGH = 3;
+export const SPIKE_WINDOW_MS = 60 * 60 * 1000;
+
+type TermVector = Map<string, number>;
+
+const BIGRAM_WEIGHT = 0.5;
+
+const PRIORITY_RANK: Record<Priority, number> = { [Priority.High]: 2, [Priority.Medium]: 1, [Priority.Low]: 0 };
+
+// Word pairs keep "upload csv crash" apart from "csv export" even when the single words overlap.
+export function termVector(input: TriageInput): TermVector {
+  const tokens = tokenize(customerText(input));
+  const vector: TermVector = new Map();
+  const add = (term: string, weight = 1) => vector.set(term, (vector.get(term) || 0) + weight);
+  tokens.forEach((token, i) => {
+    add(token);
+    if (i > 0) add(`${tokens[i - 1]} ${token}`, BIGRAM_WEIGHT);
+  });
+  return vector;
+}
+
+function norm(vector: TermVector): number {
+  let sum = 0;
+  vector.forEach(v => { sum += v * v; });
+  return Math.sqrt(sum);
+}
+
+export function cosineSimilarity(a: TermVector, b: TermVector): number {
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  let dot = 0;
+  small.forEach((v, term) => { dot += v * (large.get(term) || 0); });
+  const denominator = norm(a) * norm(b);
+  return denominator ? dot / denominator : 0;
+}
+
+/**
+ * Recent tickets that look like the same issue as `input`, best match first.
+ * `candidates` should already be limited to the recent window; `excludeId` skips the ticket itself.
+ */
+export function findDuplicates(input: TriageInput, candidates: HistoryItem[], excludeId?: string): DuplicateMatch[] {
+  const vector = termVector(input);
+  return candidates
+    .filter(item => item.id !== excludeId)
+    .map(item => ({ item, score: cosineSimilarity(vector, termVector(item.input)) }))
+    .filter(({ score }) => score >= DUPLICATE_THRESHOLD)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_DUPLICATES)
+    .map(({ item, score }) => ({ id: item.id, score: Math.round(score * 100) / 100, summary: item.summary, priority: item.priority }));
+}
+
+interface Cluster {
+  members: { item: HistoryItem; vector: TermVector }[];
+  centroid: TermVector;
+}
+
+function addToCentroid(centroid: TermVector, vector: TermVector) {
+  vector.forEach((v, term) => centroid.set(term, (centroid.get(term) || 0) + v));
+}
+
+function mostCommon(values: (string | undefined)[]): string | undefined {
+  const counts = new Map<string, number>();
+  values.forEach(v => { if (v) counts.set(v, (counts.get(v) || 0) + 1); });
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+}
+
+// The member closest to all others stands for the incident.
+function representative(cluster: Cluster): HistoryItem {
+  let best = cluster.members[0];
+  let bestScore = -1;
+  for (const member of cluster.members) {
+    const score = cluster.members.reduce((sum, other) => sum + (other === member ? 0 : cosineSimilarity(member.vector, other.vector)), 0);
+    if (score > bestScore) {
+      best = member;
+      bestScore = score;
+    }
+  }
+  return best.item;
+}
+
+function toIncident(cluster: Cluster): Incident {
+  const items = cluster.members.map(m => m.item);
+  const first = items[0];
+  const priority = items.reduce((top, item) => PRIORITY_RANK[item.priority] > PRIORITY_RANK[top] ? item.priority : top, Priority.Low);
+  return {
+    id: `incident-${first.id}`,
+    ticket_ids: items.map(item => item.id),
+    summary: representative(cluster).summary,
+    count: items.length,
+    high_count: items.filter(item => item.priority === Priority.High).length,
+    priority,
+    category: mostCommon(items.map(item => item.category)),
+    first_seen: first.timestamp,
+    last_seen: items[items.length - 1].timestamp
+  };
+}
+
+/**
+ * Groups tickets into incidents, oldest first, joining each ticket to the most similar
+ * existing group. Only groups of two or more tickets are returned, largest first.
+ * Incident ids come from the earliest ticket, so they stay stable as tickets are added.
+ */
+export function clusterIncidents(items: HistoryItem[]): Incident[] {
+  const clusters: Cluster[] = [];
+  const ordered = [...items].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  for (const item of ordered) {
+    const vector = termVector(item.input);
+    if (vector.size === 0) continue;
+    let best: Cluster | undefined;
+    let bestScore = CLUSTER_THRESHOLD;
+    for (const cluster of clusters) {
+      const score = cosineSimilarity(vector, cluster.centroid);
+      if (score >= bestScore) {
+        best = cluster;
+        bestScore = score;
+      }
+    }
+    if (best) {
+      best.members.push({ item, vector });
+      addToCentroid(best.centroid, vector);
+    } else {
+      clusters.push({ members: [{ item, vector }], centroid: new Map(vector) });
+    }
+  }
+  return clusters
+    .filter(c => c.members.length > 1)
+    .map(toIncident)
+    .sort((a, b) => b.count - a.count || b.last_seen.getTime() - a.last_seen.getTime());
+}
+
+/** Incidents with at least SPIKE_MIN_HIGH High tickets in the last SPIKE_WINDOW_MS. */
+export function findIncidentSpikes(incidents: Incident[], items: HistoryItem[], now = new Date()): Incident[] {
+  const since = now.getTime() - SPIKE_WINDOW_MS;
+  const recentHigh = new Set(items.filter(item => item.priority === Priority.High && item.timestamp.getTime() >= since).map(item => item.id));
+  return incidents.filter(incident => incident.ticket_ids.filter(id => recentHigh.has(id)).length >= SPIKE_MIN_HIGH);
+}
@@ -0,0 +1,164 @@
+import { GroundingSource, KnowledgeArticle, KnowledgePassage, TriageInput } from "./types";
+import { customerText } from "./conversationThread";
+
+// --- Knowledge Base ---
+// Local help-center retrieval. Articles are split into passages and ranked with BM25,
+// so grounding cites our own documentation instead of arbitrary web pages.
+
+export const KB_URI_PREFIX = 'kb://';
+export const KB_FILE_PATTERN = /\.(md|markdown|html?)$/i;
+export const DEFAULT_PASSAGE_LIMIT = 3;
+
+const PASSAGE_WORDS = 120;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'does', 'for', 'from', 'has', 'have',
+  'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'me', 'my', 'no', 'not', 'of', 'on', 'or', 'our', 'so',
+  'that', 'the', 'their', 'then', 'there', 'this', 'to', 'was', 'we', 'were', 'what', 'when', 'which', 'will',
+  'with', 'you', 'your'
+]);
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(t => t.length > 1 && !STOPWORDS.has(t))
+    .map(stem);
+}
+
+// Crude suffix stripping so "exports", "exporting" and "exported" meet at "export".
+function stem(token: string): string {
+  if (token.length <= 4) return token;
+  return token.replace(/(ing|ed|es|s)$/, '');
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x?[0-9a-f]+|\w+);/gi, (match, code: string) => {
+    if (code[0] === '#') {
+      const n = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(n) ? String.fromCodePoint(n) : match;
+    }
+    return ENTITIES[code.toLowerCase()] ?? match;
+  });
+}
+
+export function htmlToText(html: string): { title: string; text: string } {
+  const title = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1] || html.match(/<h1[^>]*>([\s\S]*?)<\/h1>/i)?.[1] || '';
+  const body = html
+    .replace(/<(script|style|head|nav|footer)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/?(p|div|section|article|h[1-6]|li|ul|ol|tr|table|pre|blockquote)[^>]*>/gi, '\n\n')
+    .replace(/<[^>]+>/g, '');
+  return {
+    title: decodeEntities(title.replace(/<[^>]+>/g, '')).trim(),
+    text: decodeEntities(body).replace(/[ \t]+/g, ' ').replace(/\n\s*\n\s*/g, '\n\n').trim()
+  };
+}
+
+export function markdownToText(markdown: string): { title: string; text: string } {
+  let source = markdown.replace(/\r\n/g, '\n');
+  let title = '';
+  const frontMatter = source.match(/^---\n([\s\S]*?)\n---\n/);
+  if (frontMatter) {
+    title = frontMatter[1].match(/^title:\s*["']?(.*?)["']?\s*$/m)?.[1] || '';
+    source = source.slice(frontMatter[0].length);
+  }
+  title ||= source.match(/^#\s+(.+)$/m)?.[1] || '';
+  const text = source
+    .replace(/```[^\n]*\n([\s\S]*?)```/g, '$1')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/^#{1,6}\s+/gm, '')
+    .replace(/^\s*[-*+]\s+/gm, '- ')
+    .replace(/^\s*>\s?/gm, '')
+    .replace(/\*\*|__|[*`]/g, '');
+  return { title: title.trim(), text: text.replace(/\n\s*\n\s*/g, '\n\n').trim() };
+}
+
+export function parseArticle(path: string, content: string): KnowledgeArticle {
+  const id = path.replace(/\\/g, '/').replace(/^\.?\//, '');
+  const { title, text } = /\.html?$/i.test(id) ? htmlToText(content) : markdownToText(content);
+  const fallbackTitle = id.split('/').pop()!.replace(KB_FILE_PATTERN, '').replace(/[-_]+/g, ' ');
+  return { id, title: title || fallbackTitle, uri: `${KB_URI_PREFIX}${id}`, text };
+}
+
+/** Splits an article into passages of roughly PASSAGE_WORDS words along paragraph breaks. */
+export function splitPassages(text: string): string[] {
+  const passages: string[] = [];
+  let current: string[] = [];
+  const flush = () => {
+    if (current.length) passages.push(current.join(' '));
+    current = [];
+  };
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    const words = paragraph.split(/\s+/).filter(Boolean);
+    if (current.length + words.length > PASSAGE_WORDS) flush();
+    for (let i = 0; i < words.length; i += PASSAGE_WORDS) {
+      current.push(...words.slice(i, i + PASSAGE_WORDS));
+      if (current.length >= PASSAGE_WORDS) flush();
+    }
+  }
+  flush();
+  return passages;
+}
+
+export interface KnowledgeIndex {
+  articles: KnowledgeArticle[];
+  search: (query: string, limit?: number) => KnowledgePassage[];
+}
+
+/**
+ * Builds an in-memory BM25 index over article passages. Titles are indexed with
+ * every passage of their article. Search returns the best passage per article.
+ */
+export function buildKnowledgeIndex(articles: KnowledgeArticle[]): KnowledgeIndex {
+  const docs = articles.flatMap(article => splitPassages(article.text).map(text => {
+    const terms = new Map<string, number>();
+    const tokens = tokenize(`${article.title} ${text}`);
+    tokens.forEach(t => terms.set(t, (terms.get(t) || 0) + 1));
+    return { article, text, terms, length: tokens.length };
+  }));
+  const avgLength = docs.reduce((sum, d) => sum + d.length, 0) / (docs.length || 1);
+  const docFreq = new Map<string, number>();
+  docs.forEach(d => d.terms.forEach((_, t) => docFreq.set(t, (docFreq.get(t) || 0) + 1)));
+
+  const search = (query: string, limit = DEFAULT_PASSAGE_LIMIT): KnowledgePassage[] => {
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    const best = new Map<string, KnowledgePassage>();
+    for (const doc of docs) {
+      let score = 0;
+      for (const term of queryTerms) {
+        const tf = doc.terms.get(term);
+        if (!tf) continue;
+        const df = docFreq.get(term)!;
+        const idf = Math.log(1 + (docs.length - df + 0.5) / (df + 0.5));
+        score += idf * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * doc.length / avgLength));
+      }
+      if (score <= 0 || (best.get(doc.article.id)?.score ?? 0) >= score) continue;
+      best.set(doc.article.id, { article_id: doc.article.id, title: doc.article.title, uri: doc.article.uri, text: doc.text, score });
+    }
+    return Array.from(best.values()).sort((a, b) => b.score - a.score).slice(0, limit);
+  };
+
+  return { articles, search };
+}
+
+export const knowledgeQuery = (input: TriageInput) => `${customerText(input)} ${input.recent_activity_summary || ''}`;
+
+export const isKnowledgeSource = (source: GroundingSource) => source.uri.startsWith(KB_URI_PREFIX);
+
+export function knowledgeSources(passages: KnowledgePassage[] = []): GroundingSource[] {
+  const seen = new Set<string>();
+  return passages
+    .filter(p => !seen.has(p.uri) && seen.add(p.uri))
+    .map(p => ({ title: p.title, uri: p.uri }));
+}
+
+/** Formats retrieved passages as the prompt block the model is told to ground on. */
+export function formatKnowledgeContext(passages: KnowledgePassage[]): string {
+  return passages.map((p, i) => `[${i + 1}] ${p.title} (${p.uri})\n${p.text}`).join('\n\n');
+}
@@ -0,0 +1,60 @@
+// --- Languages ---
+// Language codes are ISO 639-1. Detection here is a lightweight heuristic for the
+// offline engine; the model detects the language itself.
+
+export const DEFAULT_AGENT_LANGUAGE = 'en';
+
+export const LANGUAGES: { code: string; label: string }[] = [
+  { code: 'en', label: 'English' },
+  { code: 'de', label: 'German' },
+  { code: 'fr', label: 'French' },
+  { code: 'es', label: 'Spanish' },
+  { code: 'pt', label: 'Portuguese' },
+  { code: 'it', label: 'Italian' },
+  { code: 'nl', label: 'Dutch' },
+  { code: 'ja', label: 'Japanese' },
+  { code: 'zh', label: 'Chinese' },
+  { code: 'ko', label: 'Korean' },
+  { code: 'ru', label: 'Russian' },
+  { code: 'ar', label: 'Arabic' }
+];
+
+export const languageLabel = (code: string | undefined) =>
+  LANGUAGES.find(l => l.code === code)?.label || (code ? code.toUpperCase() : 'Unknown');
+
+// Scripts that identify a language on their own. Kana is checked before Han since Japanese mixes both.
+const SCRIPT_LANGUAGES: { code: string; pattern: RegExp }[] = [
+  { code: 'ja', pattern: /[\u3040-\u30ff]/ },
+  { code: 'ko', pattern: /[\uac00-\ud7af]/ },
+  { code: 'zh', pattern: /[\u4e00-\u9fff]/ },
+  { code: 'ru', pattern: /[\u0400-\u04ff]/ },
+  { code: 'ar', pattern: /[\u0600-\u06ff]/ }
+];
+
+// Frequent function words; the Latin-script language with the most hits wins.
+const STOPWORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'is', 'my', 'it', 'to', 'of', 'i', 'not', 'with', 'when', 'was', 'you', 'this'],
+  de: ['der', 'die', 'das', 'und', 'ist', 'nicht', 'ich', 'mein', 'meine', 'mit', 'wenn', 'ein', 'eine', 'bei', 'wurde', 'habe'],
+  fr: ['le', 'la', 'les', 'et', 'est', 'pas', 'je', 'mon', 'ma', 'avec', 'une', 'des', 'pour', 'quand', 'ai'],
+  es: ['el', 'la', 'los', 'las', 'y', 'es', 'no', 'mi', 'con', 'una', 'por', 'para', 'cuando', 'que', 'he'],
+  pt: ['o', 'os', 'e', 'não', 'meu', 'minha', 'com', 'uma', 'para', 'quando', 'que', 'foi', 'estou'],
+  it: ['il', 'lo', 'gli', 'e', 'è', 'non', 'mio', 'mia', 'con', 'una', 'per', 'quando', 'che', 'ho'],
+  nl: ['de', 'het', 'een', 'en', 'is', 'niet', 'ik', 'mijn', 'met', 'wanneer', 'dat', 'van', 'heb']
+};
+
+/** Best-guess ISO 639-1 code for `text`; English when nothing stands out. */
+export function detectLanguage(text: string): string {
+  const script = SCRIPT_LANGUAGES.find(s => s.pattern.test(text));
+  if (script) return script.code;
+  const words = text.toLowerCase().split(/[^\p{L}]+/u).filter(Boolean);
+  let best = DEFAULT_AGENT_LANGUAGE;
+  let bestHits = 0;
+  for (const [code, stopwords] of Object.entries(STOPWORDS)) {
+    const hits = words.filter(w => stopwords.includes(w)).length;
+    if (hits > bestHits) {
+      best = code;
+      bestHits = hits;
+    }
+  }
+  return best;
+}
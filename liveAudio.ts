@@ -0,0 +1,127 @@
+import {
+  DEFAULT_VAD_OPTIONS, PCM_SAMPLE_RATE, VadOptions, createPcmBlob, initialResamplerState, initialVadState,
+  pcm16ToFloat, resample, rmsLevel, updateVad
+} from "./audioEncoding";
+
+// --- Live Audio ---
+// Microphone capture for live mode. An AudioWorklet collects samples off the main thread
+// at the device rate; chunks are resampled to 16 kHz PCM here, and chunks without speech
+// are not sent at all.
+
+const WORKLET_NAME = 'helpflow-pcm-capture';
+
+/** Length of each chunk handed to the main thread. */
+export const CAPTURE_CHUNK_MS = 100;
+
+// Inlined so it loads from a Blob URL without extra build configuration.
+const WORKLET_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    this.size = options.processorOptions.chunkSize;
+    this.buffer = new Float32Array(this.size);
+    this.filled = 0;
+  }
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+    let read = 0;
+    while (read < channel.length) {
+      const count = Math.min(channel.length - read, this.size - this.filled);
+      this.buffer.set(channel.subarray(read, read + count), this.filled);
+      this.filled += count;
+      read += count;
+      if (this.filled === this.size) {
+        this.port.postMessage(this.buffer, [this.buffer.buffer]);
+        this.buffer = new Float32Array(this.size);
+        this.filled = 0;
+      }
+    }
+    return true;
+  }
+}
+registerProcessor('${WORKLET_NAME}', PcmCaptureProcessor);
+`;
+
+export interface AudioCaptureOptions {
+  /** Called with each 16 kHz chunk that contains speech, base64 encoded for the Live API. */
+  onChunk: (blob: { data: string; mimeType: string }) => void;
+  /** Called once speech stops, so the receiver can close the current utterance. */
+  onSilence?: () => void;
+  /** Every resampled 16 kHz chunk, speech or not, e.g. for recording the call. */
+  onAudio?: (samples: Float32Array) => void;
+  /** RMS level (0..1) of every chunk, speech or not, for metering. */
+  onLevel?: (level: number, speaking: boolean) => void;
+  vad?: VadOptions;
+}
+
+export interface AudioCapture {
+  /** The device rate the microphone is actually captured at. */
+  sampleRate: number;
+  stop: () => void;
+}
+
+/**
+ * Starts capturing `stream`. The context runs at the device's own rate, since browsers
+ * may ignore a requested sample rate; resampling makes the output rate exact.
+ */
+export async function startAudioCapture(stream: MediaStream, options: AudioCaptureOptions): Promise<AudioCapture> {
+  const ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
+  const moduleUrl = URL.createObjectURL(new Blob([WORKLET_SOURCE], { type: 'application/javascript' }));
+  try {
+    await ctx.audioWorklet.addModule(moduleUrl);
+  } finally {
+    URL.revokeObjectURL(moduleUrl);
+  }
+
+  const source = ctx.createMediaStreamSource(stream);
+  const node = new AudioWorkletNode(ctx, WORKLET_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    channelCount: 1,
+    processorOptions: { chunkSize: Math.round(ctx.sampleRate * CAPTURE_CHUNK_MS / 1000) }
+  });
+
+  let resampler = initialResamplerState();
+  let vad = initialVadState();
+  // The chunk before speech starts is sent too, so the first syllable is not clipped.
+  let preRoll: Float32Array | null = null;
+
+  node.port.onmessage = (e: MessageEvent<Float32Array>) => {
+    const next = resample(e.data, ctx.sampleRate, PCM_SAMPLE_RATE, resampler);
+    resampler = next.state;
+    options.onAudio?.(next.output);
+    const level = rmsLevel(e.data);
+    const wasSpeaking = vad.speaking;
+    vad = updateVad(vad, level, CAPTURE_CHUNK_MS, options.vad || DEFAULT_VAD_OPTIONS);
+    options.onLevel?.(level, vad.speaking);
+
+    if (vad.speaking) {
+      if (!wasSpeaking && preRoll) options.onChunk(createPcmBlob(preRoll));
+      options.onChunk(createPcmBlob(next.output));
+      preRoll = null;
+    } else {
+      if (wasSpeaking) options.onSilence?.();
+      preRoll = next.output;
+    }
+  };
+  source.connect(node);
+
+  return {
+    sampleRate: ctx.sampleRate,
+    stop: () => {
+      node.port.onmessage = null;
+      source.disconnect();
+      node.disconnect();
+      ctx.close();
+    }
+  };
+}
+
+/** Wraps 16-bit PCM from the Live API in an AudioBuffer for playback. */
+export function decodeAudioData(data: Uint8Array, ctx: AudioContext, sampleRate: number): AudioBuffer {
+  const samples = pcm16ToFloat(data);
+  const buffer = ctx.createBuffer(1, samples.length, sampleRate);
+  buffer.copyToChannel(samples, 0);
+  return buffer;
+}
@@ -0,0 +1,112 @@
+import { FunctionCall, FunctionDeclaration, LiveConnectConfig, Modality, Type } from "@google/genai";
+import { AccountTier, LiveIntakeDraft, LiveIntakeField, LiveTranscription, TriageInput } from "./types";
+
+// --- Live Intake ---
+// The voice agent fills the triage form through function calls while the caller speaks,
+// and asks follow-up questions until every field is known. The draft is then turned
+// into a regular TriageInput.
+
+export const LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
+
+export const UPDATE_FORM_TOOL = 'update_triage_form';
+export const COMPLETE_INTAKE_TOOL = 'complete_intake';
+
+export const LIVE_INTAKE_FIELDS: { key: LiveIntakeField; label: string }[] = [
+  { key: 'customer_message', label: 'Problem' },
+  { key: 'account_tier', label: 'Account Tier' },
+  { key: 'recent_activity_summary', label: 'Recent Activity' }
+];
+
+const LIVE_INTAKE_INSTRUCTION = `You are a supportive and professional HelpFlow intake agent on a voice call. Be brief and empathetic.
+Your job is to fill the triage form, not to solve the problem:
+- problem_statement: a clean, self-contained description of the issue in the caller's words, without filler or repetitions.
+- account_tier: the caller's plan, one of ${Object.values(AccountTier).join(', ')}.
+- recent_activity_summary: what the caller did or changed shortly before the problem (an upgrade, an import, a new device), or "None" if nothing.
+Call ${UPDATE_FORM_TOOL} as soon as you learn or refine any field; send only the fields that changed. The response lists the fields still missing: ask one short follow-up question at a time until none are missing.
+When nothing is missing, read the problem statement back, then call ${COMPLETE_INTAKE_TOOL} and tell the caller their ticket is being triaged.`;
+
+const INTAKE_TOOLS: FunctionDeclaration[] = [
+  {
+    name: UPDATE_FORM_TOOL,
+    description: 'Updates fields of the triage form. Omit fields that did not change.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        problem_statement: { type: Type.STRING, description: 'Clean description of the customer problem.' },
+        account_tier: { type: Type.STRING, enum: Object.values(AccountTier), description: 'The caller\'s plan.' },
+        recent_activity_summary: { type: Type.STRING, description: 'What the caller did shortly before the problem, or "None".' }
+      }
+    }
+  },
+  {
+    name: COMPLETE_INTAKE_TOOL,
+    description: 'Marks the intake as complete once every field of the form is filled.'
+  }
+];
+
+export const liveIntakeConfig = (): LiveConnectConfig => ({
+  responseModalities: [Modality.AUDIO],
+  speechConfig: {
+    voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Zephyr' } }
+  },
+  inputAudioTranscription: {},
+  outputAudioTranscription: {},
+  systemInstruction: LIVE_INTAKE_INSTRUCTION,
+  tools: [{ functionDeclarations: INTAKE_TOOLS }]
+});
+
+export function missingIntakeFields(draft: LiveIntakeDraft): LiveIntakeField[] {
+  return LIVE_INTAKE_FIELDS.map(f => f.key).filter(key => !draft[key]?.trim());
+}
+
+const asText = (value: unknown) => typeof value === 'string' ? value.replace(/\s+/g, ' ').trim() : '';
+
+/**
+ * Applies one function call from the live session to the draft. Returns the new draft and
+ * the response for the model, which names the fields still missing so it knows what to ask.
+ * Invalid values are rejected in the response instead of reaching the form.
+ */
+export function applyIntakeCall(draft: LiveIntakeDraft, call: FunctionCall): { draft: LiveIntakeDraft; response: Record<string, unknown> } {
+  if (call.name === COMPLETE_INTAKE_TOOL) {
+    const missing = missingIntakeFields(draft);
+    if (missing.length > 0) return { draft, response: { ok: false, error: 'Fields are still missing', missing } };
+    return { draft: { ...draft, complete: true }, response: { ok: true } };
+  }
+  if (call.name !== UPDATE_FORM_TOOL) {
+    return { draft, response: { ok: false, error: `Unknown function ${call.name}` } };
+  }
+
+  const args = call.args || {};
+  const next: LiveIntakeDraft = { ...draft };
+  const errors: string[] = [];
+  const problem = asText(args.problem_statement);
+  if (problem) next.customer_message = problem;
+  const activity = asText(args.recent_activity_summary);
+  if (activity) next.recent_activity_summary = activity;
+  const tier = asText(args.account_tier);
+  if (tier) {
+    const match = Object.values(AccountTier).find(t => t.toLowerCase() === tier.toLowerCase());
+    if (match) next.account_tier = match;
+    else errors.push(`account_tier must be one of ${Object.values(AccountTier).join(', ')}`);
+  }
+  const missing = missingIntakeFields(next);
+  return { draft: next, response: errors.length ? { ok: false, errors, missing } : { ok: true, missing } };
+}
+
+/** The caller's own words, used when the agent never produced a problem statement. */
+export const callerTranscript = (transcript: LiveTranscription[]) =>
+  transcript.filter(t => t.isUser).map(t => t.text).join(' ').replace(/\s+/g, ' ').trim();
+
+/**
+ * Turns the draft into a full TriageInput. Fields the caller never gave keep the
+ * values already in the form; "None" for recent activity clears it.
+ */
+export function finalizeIntake(draft: LiveIntakeDraft, transcript: LiveTranscription[], form: TriageInput): TriageInput {
+  const activity = draft.recent_activity_summary?.trim();
+  return {
+    ...form,
+    customer_message: draft.customer_message?.trim() || callerTranscript(transcript) || form.customer_message,
+    account_tier: draft.account_tier || form.account_tier,
+    recent_activity_summary: activity ? (activity.toLowerCase() === 'none' ? '' : activity) : form.recent_activity_summary
+  };
+}
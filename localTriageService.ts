@@ -0,0 +1,279 @@
+import { AccountTier, PolicyRule, Priority, ReplyDraft, ReplyDraftRequest, ReplyTone, Sentiment, TriageInput, TriageOptions, TriageResult } from "./types";
+import { knowledgeSources } from "./knowledgeBase";
+import { customerText } from "./conversationThread";
+import { DEFAULT_CATEGORIES, FALLBACK_CATEGORY_ID } from "./triageTaxonomy";
+import { DEFAULT_AGENT_LANGUAGE, detectLanguage } from "./languageUtils";
+import { DEFAULT_REPLY_TONE } from "./replyComposer";
+import { DEFAULT_PRIORITY_POLICY } from "./priorityPolicy";
+
+// --- Offline Rule-Based Triage ---
+// Deterministic stand-in for the model: same input always yields the same result,
+// and every field respects the length limits of the Golden Prompt contract.
+
+interface TriageRule {
+  id: string;
+  keywords: RegExp;
+  category: string;
+  issue: string;
+  priority: (tier: AccountTier) => Priority;
+  reason: string;
+  step: string;
+  escalation?: string;
+}
+
+/**
+ * A rule built from a priority-policy rule, so the offline engine raises exactly the tickets
+ * the policy would: its patterns, reason and escalation. Tiers outside the rule's tiers get Medium.
+ */
+function fromPolicy(policyId: string, rule: Pick<TriageRule, 'id' | 'category' | 'issue' | 'step'> & Partial<Pick<TriageRule, 'reason'>>): TriageRule {
+  const policy = DEFAULT_PRIORITY_POLICY.find(r => r.id === policyId) as PolicyRule;
+  return {
+    reason: policy.reason,
+    ...rule,
+    keywords: new RegExp(policy.patterns.join('|'), 'i'),
+    priority: tier => !policy.tiers || policy.tiers.includes(tier) ? policy.min_priority : Priority.Medium,
+    escalation: policy.escalation
+  };
+}
+
+const RULES: TriageRule[] = [
+  fromPolicy('security_incident', {
+    id: 'security',
+    category: 'security',
+    issue: 'Possible security incident',
+    step: 'Force a password reset, revoke active sessions and API tokens, then review the audit log.'
+  }),
+  fromPolicy('data_loss', {
+    id: 'data_loss',
+    category: 'data_loss',
+    issue: 'Reported data loss',
+    step: 'Check backups and the deletion audit trail for the affected records and time range.'
+  }),
+  fromPolicy('duplicate_billing', {
+    id: 'duplicate_billing',
+    category: 'billing',
+    issue: 'Duplicate billing charge',
+    step: 'Compare the payment processor records against issued invoices for the billing period.'
+  }),
+  fromPolicy('legal_medical_financial', {
+    id: 'legal_medical_financial',
+    category: FALLBACK_CATEGORY_ID,
+    issue: 'Legal, medical or financial request',
+    step: 'Do not give advice; acknowledge receipt and collect the relevant account details.'
+  }),
+  fromPolicy('paid_tier_crash', {
+    id: 'crash',
+    category: 'bug',
+    issue: 'Application crash',
+    reason: 'Application crash reported',
+    step: 'Ask for the exact steps, file or action that triggers the crash, plus browser and OS version.'
+  }),
+  {
+    id: 'access',
+    keywords: /\b(can'?t (log ?in|sign ?in|access)|locked out|password reset|login (issue|problem|error)|access denied)\b/i,
+    category: 'account_access',
+    issue: 'Account access problem',
+    priority: () => Priority.Medium,
+    reason: 'Customer is blocked from accessing their account.',
+    step: 'Verify the account email, then send a password reset link and confirm receipt.'
+  },
+  {
+    id: 'billing',
+    keywords: /\b(refund|invoice|billing|charge[d]?|payment|subscription|cancel)\b/i,
+    category: 'billing',
+    issue: 'Billing question',
+    priority: (tier) => tier === AccountTier.Enterprise ? Priority.Medium : Priority.Low,
+    reason: 'Billing question without indication of an incorrect charge.',
+    step: 'Review the latest invoice and subscription status with the customer.'
+  },
+  {
+    id: 'error',
+    keywords: /\b(error|fail(s|ed|ing)?|broken|bug|not working|doesn'?t work|500|404)\b/i,
+    category: 'bug',
+    issue: 'Feature not working as expected',
+    priority: () => Priority.Medium,
+    reason: 'Functional error reported that blocks part of the workflow.',
+    step: 'Request the exact error message and a screenshot, then try to reproduce it.'
+  },
+  {
+    id: 'performance',
+    keywords: /\b(slow|lag(gy|s)?|latency|timeout|timing out|takes forever|sluggish)\b/i,
+    category: 'performance',
+    issue: 'Performance degradation',
+    priority: (tier) => tier === AccountTier.Enterprise ? Priority.Medium : Priority.Low,
+    reason: 'Intermittent performance issue without reported data or revenue impact.',
+    step: 'Check the status page, then ask for times of slowness and a browser network trace.'
+  }
+];
+
+const DEFAULT_RULE: TriageRule = {
+  id: 'general',
+  keywords: /.*/,
+  category: FALLBACK_CATEGORY_ID,
+  issue: 'General inquiry',
+  priority: () => Priority.Low,
+  reason: 'General inquiry with no signs of urgency.',
+  step: 'Ask a clarifying question to confirm the goal and any error messages seen.'
+};
+
+// Only consulted when no urgent rule matched, to tell requests and questions apart from the rest.
+const GENERAL_CATEGORIES: { category: string; keywords: RegExp }[] = [
+  { category: 'feature_request', keywords: /\b(feature request|would (be|love) (nice|great|to see)|please add|can you add|support for|it would help if|wish (you|it))\b/i },
+  { category: 'how_to', keywords: /\b(how (do|can|to)|where (is|can|do)|is it possible|is there a way)\b/i }
+];
+
+const SENTIMENT_CUES: { sentiment: Sentiment; keywords: RegExp }[] = [
+  { sentiment: Sentiment.Angry, keywords: /\b(unacceptable|ridiculous|furious|outrageous|worst|scam|angry|lawsuit|cancel(ling)? (my|our) (account|subscription))\b|!!/i },
+  { sentiment: Sentiment.Frustrated, keywords: /\b(frustrat\w*|annoy\w*|still|again|disappoint\w*|not happy|fed up|keeps? (happening|crashing|failing)|urgent(ly)?)\b/i },
+  { sentiment: Sentiment.Positive, keywords: /\b(thanks?|thank you|great|love|appreciate\w*|awesome)\b/i }
+];
+
+const PRIORITY_RANK: Record<Priority, number> = {
+  [Priority.High]: 0,
+  [Priority.Medium]: 1,
+  [Priority.Low]: 2
+};
+
+// Canned replies by ISO 639-1 code. Customers writing in another language get the English reply.
+const REPLIES: Record<string, Record<Priority, string>> = {
+  en: {
+    [Priority.High]: "I'm sorry you're dealing with this — I understand how serious it is. I've flagged your ticket as urgent and our specialist team is already looking into it. We'll update you as soon as we have more information.",
+    [Priority.Medium]: "Thanks for reaching out, and sorry for the trouble. We're looking into this now. Could you share any error messages or steps that lead to the issue? That will help us resolve it quickly.",
+    [Priority.Low]: "Thanks for letting us know! We're happy to help. Could you share a bit more detail about when this happens? In the meantime, we'll check whether anything on our side could be causing it."
+  },
+  de: {
+    [Priority.High]: "Es tut mir leid, dass Sie damit zu kämpfen haben – ich verstehe, wie ernst das ist. Ich habe Ihr Ticket als dringend markiert, und unser Spezialistenteam kümmert sich bereits darum. Wir melden uns, sobald wir mehr wissen.",
+    [Priority.Medium]: "Vielen Dank für Ihre Nachricht, und entschuldigen Sie die Unannehmlichkeiten. Wir sehen uns das gerade an. Könnten Sie uns Fehlermeldungen oder die Schritte nennen, die zu dem Problem führen? Das hilft uns, es schnell zu lösen.",
+    [Priority.Low]: "Danke für den Hinweis! Wir helfen gerne. Könnten Sie etwas genauer beschreiben, wann das passiert? In der Zwischenzeit prüfen wir, ob etwas auf unserer Seite die Ursache sein könnte."
+  },
+  fr: {
+    [Priority.High]: "Je suis désolé que vous rencontriez ce problème, je comprends à quel point c'est sérieux. J'ai marqué votre ticket comme urgent et notre équipe spécialisée l'examine déjà. Nous vous tiendrons informé dès que nous en saurons plus.",
+    [Priority.Medium]: "Merci de nous avoir contactés, et désolé pour la gêne occasionnée. Nous examinons cela dès maintenant. Pourriez-vous nous indiquer les messages d'erreur ou les étapes qui mènent au problème ? Cela nous aidera à le résoudre rapidement.",
+    [Priority.Low]: "Merci de nous l'avoir signalé ! Nous sommes ravis de vous aider. Pourriez-vous préciser quand cela se produit ? En attendant, nous vérifions si quelque chose de notre côté pourrait en être la cause."
+  },
+  es: {
+    [Priority.High]: "Lamento mucho que esté pasando por esto; entiendo lo grave que es. He marcado su ticket como urgente y nuestro equipo especializado ya lo está revisando. Le informaremos en cuanto tengamos más información.",
+    [Priority.Medium]: "Gracias por escribirnos y disculpe las molestias. Ya lo estamos revisando. ¿Podría compartir los mensajes de error o los pasos que provocan el problema? Eso nos ayudará a resolverlo rápidamente.",
+    [Priority.Low]: "¡Gracias por avisarnos! Con gusto le ayudamos. ¿Podría darnos más detalles sobre cuándo ocurre? Mientras tanto, comprobaremos si algo de nuestro lado podría estar causándolo."
+  },
+  ja: {
+    [Priority.High]: "ご不便をおかけして大変申し訳ございません。事態の重大さを理解しております。チケットを緊急として登録し、専門チームがすでに調査を開始しました。新しい情報が入り次第、すぐにご連絡いたします。",
+    [Priority.Medium]: "お問い合わせいただきありがとうございます。ご不便をおかけして申し訳ございません。現在調査中です。エラーメッセージや問題が発生する手順を教えていただけますか？早期解決に役立ちます。",
+    [Priority.Low]: "ご連絡いただきありがとうございます。喜んでお手伝いいたします。この問題が発生する状況を詳しく教えていただけますか？その間、こちら側に原因がないか確認いたします。"
+  }
+};
+
+// English rewrites of the canned replies for the composer's tone presets; the default tone is REPLIES.
+const TONED_REPLIES: Record<Exclude<ReplyTone, 'empathetic'>, Record<Priority, string>> = {
+  formal: {
+    [Priority.High]: "We apologize for the inconvenience and understand the seriousness of this matter. Your ticket has been marked as urgent and our specialist team is investigating. We will contact you as soon as further information is available.",
+    [Priority.Medium]: "Thank you for contacting us. We are investigating the issue. Please provide any error messages or the steps that lead to the problem, as this will help us resolve it promptly.",
+    [Priority.Low]: "Thank you for your message. We would be glad to assist. Please describe when the issue occurs; in the meantime, we will review whether anything on our side may be responsible."
+  },
+  friendly: {
+    [Priority.High]: "Oh no, that sounds really stressful — sorry! I've marked this as urgent and our specialists are already on it. I'll ping you the moment we know more.",
+    [Priority.Medium]: "Hey, thanks for reaching out! We're digging into this right now. Could you send over any error messages or the steps that trigger it? That'll help us sort it out fast.",
+    [Priority.Low]: "Thanks so much for the heads-up! Happy to help. Could you tell us a bit more about when it happens? We'll check things on our end in the meantime."
+  },
+  apologetic: {
+    [Priority.High]: "I'm truly sorry — this should not have happened, and we take full responsibility. Your ticket is marked urgent and our specialist team is working on it now. We'll keep you updated until it's fixed.",
+    [Priority.Medium]: "I'm very sorry for the trouble this has caused. It's on us to fix it, and we're looking into it now. Could you share any error messages or steps that lead to the issue?",
+    [Priority.Low]: "Sorry for the inconvenience, and thank you for your patience. Could you share a bit more about when this happens? We're checking whether something on our side is causing it."
+  },
+  brief: {
+    [Priority.High]: "Sorry about this. Your ticket is urgent and our specialists are on it; we'll update you soon.",
+    [Priority.Medium]: "We're looking into it. Could you send the error message or steps to reproduce?",
+    [Priority.Low]: "Thanks! When does this happen? We're checking on our side meanwhile."
+  }
+};
+
+// Tones are only available in English; undefined when the language has no text in this tone.
+function cannedReply(language: string, priority: Priority, tone: ReplyTone): string | undefined {
+  if (tone !== 'empathetic') return language === 'en' ? TONED_REPLIES[tone][priority] : undefined;
+  return REPLIES[language]?.[priority];
+}
+
+/**
+ * Picks the reply first, then translates that exact text: the same canned reply in the agent's
+ * language, or in English when the agent's language has none in the reply's tone.
+ */
+function localizeReply(customerLanguage: string, agentLanguage: string, priority: Priority, tone: ReplyTone): ReplyDraft {
+  const replyLanguage = REPLIES[customerLanguage] ? customerLanguage : 'en';
+  const replyTone = replyLanguage === 'en' ? tone : DEFAULT_REPLY_TONE;
+  const translationLanguage = cannedReply(agentLanguage, priority, replyTone) ? agentLanguage : 'en';
+  return {
+    reply: cannedReply(replyLanguage, priority, replyTone)!,
+    reply_translation: translationLanguage === replyLanguage ? '' : cannedReply(translationLanguage, priority, replyTone)!
+  };
+}
+
+function truncate(text: string, maxChars: number): string {
+  if (text.length <= maxChars) return text;
+  return text.slice(0, maxChars - 1).trimEnd() + '…';
+}
+
+function firstSentence(text: string): string {
+  const cleaned = text.replace(/\s+/g, ' ').trim();
+  const match = cleaned.match(/^(.+?[.!?])(\s|$)/);
+  return (match ? match[1] : cleaned).replace(/[.!?]+$/, '');
+}
+
+/**
+ * Returns every rule whose keywords match any customer message in the thread, most urgent first.
+ */
+function matchRules(input: TriageInput): TriageRule[] {
+  const text = customerText(input);
+  return RULES
+    .filter(rule => rule.keywords.test(text))
+    .sort((a, b) => PRIORITY_RANK[a.priority(input.account_tier)] - PRIORITY_RANK[b.priority(input.account_tier)]);
+}
+
+function detectSentiment(text: string): Sentiment {
+  return SENTIMENT_CUES.find(cue => cue.keywords.test(text))?.sentiment || Sentiment.Neutral;
+}
+
+function pickCategory(rule: TriageRule, text: string, options: TriageOptions): string {
+  const category = rule === DEFAULT_RULE
+    ? GENERAL_CATEGORIES.find(c => c.keywords.test(text))?.category || rule.category
+    : rule.category;
+  const known = (options.categories || DEFAULT_CATEGORIES).some(c => c.id === category);
+  return known ? category : FALLBACK_CATEGORY_ID;
+}
+
+export const localTriage = async (input: TriageInput, options: TriageOptions = {}): Promise<TriageResult> => {
+  const activity = input.recent_activity_summary?.trim() || 'no recent changes';
+  const text = customerText(input);
+  const matched = matchRules(input);
+  const rule = matched[0] || DEFAULT_RULE;
+  const priority = rule.priority(input.account_tier);
+  // Agent-facing fields are always English here; only the reply is localized.
+  const language = detectLanguage(input.customer_message);
+  const { reply, reply_translation } = localizeReply(language, options.agentLanguage || DEFAULT_AGENT_LANGUAGE, priority, 'empathetic');
+
+  const reason = rule.id === 'crash'
+    ? `${rule.reason} on a ${input.account_tier} account${priority === Priority.High ? ' (paid tier).' : '.'}`
+    : rule.reason;
+
+  return {
+    summary: truncate(`${rule.issue} (${input.account_tier}): ${firstSentence(input.customer_message)}`, 120),
+    priority,
+    priority_reason: truncate(`${reason} Recent activity: ${activity}.`, 200),
+    reply,
+    troubleshooting_step: rule.step,
+    escalation_instructions: priority === Priority.High ? rule.escalation || 'Escalate to the Tier 2 on-call team.' : '',
+    category: pickCategory(rule, text, options),
+    sentiment: detectSentiment(text),
+    // Keyword matches are a weak signal: one clear match beats several competing ones, and no match is a guess.
+    confidence: matched.length === 0 ? 0.3 : matched.length === 1 ? 0.7 : 0.5,
+    tags: [...matched.map(r => r.id), input.account_tier.toLowerCase()].slice(0, 5),
+    language,
+    reply_translation,
+    grounding_sources: knowledgeSources(options.knowledge),
+    provider: 'local'
+  };
+};
+
+export const localReplyDraft = async (request: ReplyDraftRequest, options: TriageOptions = {}): Promise<ReplyDraft> => {
+  const language = request.result.language || detectLanguage(request.input.customer_message);
+  return localizeReply(language, options.agentLanguage || DEFAULT_AGENT_LANGUAGE, request.result.priority, request.tone);
+};
@@ -0,0 +1,175 @@
+import { PiiType, RedactionEntry, ReplyDraftRequest, TriageInput, VoiceSession } from "./types";
+
+// --- PII Redaction ---
+// Swaps personal data for stable placeholders such as [EMAIL_1] before text leaves the
+// browser. The same value always maps to the same placeholder within one redaction.
+
+interface PiiDetector {
+  type: PiiType;
+  pattern: RegExp;
+  validate?: (match: string) => boolean;
+}
+
+function luhnValid(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  if (digits.length < 13 || digits.length > 19) return false;
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let d = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+  }
+  return sum % 10 === 0;
+}
+
+function ibanValid(value: string): boolean {
+  const iban = value.replace(/\s/g, '').toUpperCase();
+  if (iban.length < 15 || iban.length > 34) return false;
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const ch of rearranged) {
+    const n = ch >= 'A' && ch <= 'Z' ? String(ch.charCodeAt(0) - 55) : ch;
+    for (const digit of n) remainder = (remainder * 10 + Number(digit)) % 97;
+  }
+  return remainder === 1;
+}
+
+const countDigits = (value: string) => value.replace(/\D/g, '').length;
+const DATE_LIKE = /^(\d{4}[./-]\d{1,2}[./-]\d{1,2}|\d{1,2}[./-]\d{1,2}[./-]\d{2,4})$/;
+
+// Order matters: earlier detectors win when matches overlap.
+const DETECTORS: PiiDetector[] = [
+  {
+    type: 'SECRET',
+    pattern: /\b(?:sk|pk|rk)_(?:live|test)_[A-Za-z0-9]{10,}|\bsk-[A-Za-z0-9_-]{20,}|\bgh[pousr]_[A-Za-z0-9]{20,}|\bAKIA[0-9A-Z]{16}\b|\bAIza[0-9A-Za-z_-]{35}|\bxox[baprs]-[A-Za-z0-9-]{10,}|\beyJ[\w-]+\.[\w-]+\.[\w-]+|\bBearer\s+[A-Za-z0-9._~+/-]{16,}=*/g
+  },
+  {
+    type: 'SECRET',
+    pattern: /\b[A-Za-z0-9_-]{32,}\b/g,
+    validate: m => /\d/.test(m) && /[A-Za-z]/.test(m)
+  },
+  {
+    type: 'EMAIL',
+    pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g
+  },
+  {
+    type: 'IBAN',
+    pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,4})?\b/g,
+    validate: ibanValid
+  },
+  {
+    type: 'CARD',
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    validate: luhnValid
+  },
+  {
+    type: 'PHONE',
+    pattern: /(?:\+|\b)\d[\d\s().-]{6,}\d\b/g,
+    validate: m => countDigits(m) >= 8 && countDigits(m) <= 15 && !DATE_LIKE.test(m)
+  },
+  {
+    type: 'ADDRESS',
+    pattern: /\b\d{1,5}\s+(?:[A-Z][a-z]+\s+){1,4}(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|Terrace|Parkway|Pkwy)\b\.?(?:,?\s*(?:Apt|Suite|Unit)\.?\s*\w+)?|\b[A-ZÄÖÜ][a-zäöüß]+(?:straße|strasse|weg|gasse|platz)\s+\d{1,4}[a-z]?\b/g
+  }
+];
+
+interface Span {
+  start: number;
+  end: number;
+  type: PiiType;
+  value: string;
+}
+
+export function detectPii(text: string): Span[] {
+  const spans: Span[] = [];
+  for (const detector of DETECTORS) {
+    for (const match of text.matchAll(detector.pattern)) {
+      const value = match[0].trim();
+      const start = match.index! + match[0].indexOf(value);
+      const end = start + value.length;
+      if (detector.validate && !detector.validate(value)) continue;
+      if (spans.some(s => start < s.end && end > s.start)) continue;
+      spans.push({ start, end, type: detector.type, value });
+    }
+  }
+  return spans.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Returns a redactor that replaces PII in any number of strings while sharing one
+ * placeholder table, so a value repeated across fields gets the same placeholder.
+ */
+export function createRedactor() {
+  const entries: RedactionEntry[] = [];
+  const counters: Partial<Record<PiiType, number>> = {};
+
+  const placeholderFor = (type: PiiType, value: string): string => {
+    const existing = entries.find(e => e.type === type && e.value === value);
+    if (existing) return existing.placeholder;
+    counters[type] = (counters[type] || 0) + 1;
+    const placeholder = `[${type}_${counters[type]}]`;
+    entries.push({ placeholder, type, value });
+    return placeholder;
+  };
+
+  const redact = (text: string): string => {
+    let out = '';
+    let cursor = 0;
+    for (const span of detectPii(text)) {
+      out += text.slice(cursor, span.start) + placeholderFor(span.type, span.value);
+      cursor = span.end;
+    }
+    return out + text.slice(cursor);
+  };
+
+  return { redact, entries };
+}
+
+function redactInputWith(redact: (text: string) => string, input: TriageInput): TriageInput {
+  return {
+    ...input,
+    customer_message: redact(input.customer_message),
+    recent_activity_summary: redact(input.recent_activity_summary || ''),
+    thread: input.thread?.map(m => ({ ...m, text: redact(m.text) }))
+  };
+}
+
+export function redactTriageInput(input: TriageInput): { input: TriageInput; entries: RedactionEntry[] } {
+  const { redact, entries } = createRedactor();
+  return { input: redactInputWith(redact, input), entries };
+}
+
+/**
+ * Redacts a reply regeneration request. The result is rebuilt from the fields a redraft reads,
+ * and its text is scrubbed too since the current reply carries restored values.
+ */
+export function redactReplyDraftRequest(request: ReplyDraftRequest): { request: ReplyDraftRequest; entries: RedactionEntry[] } {
+  const { redact, entries } = createRedactor();
+  const { summary, priority, troubleshooting_step, reply, language } = request.result;
+  return {
+    request: {
+      input: redactInputWith(redact, request.input),
+      result: { summary: redact(summary), priority, troubleshooting_step: redact(troubleshooting_step), reply: redact(reply), language },
+      tone: request.tone
+    },
+    entries
+  };
+}
+
+/**
+ * Redacts a call transcript with the same placeholders as its ticket's input.
+ * Audio cannot be redacted, so the recording is dropped.
+ */
+export function redactVoiceSession(session: VoiceSession, input: TriageInput): VoiceSession {
+  const { redact } = createRedactor();
+  redactInputWith(redact, input);
+  return { ...session, turns: session.turns.map(t => ({ ...t, text: redact(t.text) })), recording: undefined };
+}
+
+/** Puts the original values back in place of their placeholders. */
+export function restorePii(text: string, entries: RedactionEntry[]): string {
+  return entries.reduce((out, e) => out.split(e.placeholder).join(e.value), text);
+}
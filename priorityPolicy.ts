@@ -0,0 +1,123 @@
+import { AccountTier, PolicyCheck, PolicyRule, Priority, TriageInput, TriageResult } from "./types";
+import { customerText } from "./conversationThread";
+
+// --- Priority Policy ---
+// The High-priority rules from SYSTEM_INSTRUCTION as data, so they can be enforced
+// independently of the model. Patterns are case-insensitive regular expressions.
+
+export const DEFAULT_PRIORITY_POLICY: PolicyRule[] = [
+  {
+    id: 'data_loss',
+    label: 'Data loss',
+    patterns: [
+      'data loss',
+      '\\b(lost|deleted|wiped|erased) (all (of )?)?((my|our|the) )?(\\w+ )?(data|files|records|work|documents|projects)\\b',
+      '\\b(data|files|records|documents|projects) (have |has )?(disappeared|vanished|(were|was|got|been) (deleted|wiped|erased)|(is|are) gone)',
+      'missing (data|files|records)',
+      '\\bcorrupt(ed)? (data|files?|database|records|backups?)\\b'
+    ],
+    min_priority: Priority.High,
+    reason: 'Customer reports data loss.',
+    escalation: 'Escalate to Engineering on-call to start data recovery from backups.',
+    enabled: true
+  },
+  {
+    id: 'paid_tier_crash',
+    label: 'Crash on a paid tier',
+    patterns: ['\\bcrash(es|ed|ing)?\\b', '\\bfreez(es|ing)\\b', 'fatal error', 'blank screen'],
+    tiers: [AccountTier.Pro, AccountTier.Enterprise],
+    min_priority: Priority.High,
+    reason: 'Application crash reported by a paid-tier customer.',
+    escalation: 'Escalate to Engineering on-call with reproduction steps and account ID.',
+    enabled: true
+  },
+  {
+    id: 'duplicate_billing',
+    label: 'Duplicate billing',
+    patterns: ['charged twice', 'double[- ]charged?', 'billed twice', 'duplicate (charge|payment|invoice|billing)', 'two charges'],
+    min_priority: Priority.High,
+    reason: 'Customer reports a duplicate charge.',
+    escalation: 'Escalate to Billing to verify and refund the duplicate charge.',
+    enabled: true
+  },
+  {
+    id: 'security_incident',
+    label: 'Security incident',
+    patterns: ['\\bhack(ed)?\\b', '\\bbreach', 'compromised', 'unauthori[sz]ed', 'phishing', 'suspicious (login|activity)', 'someone (else )?(logged|signed) in', 'changed my (email|password) without'],
+    min_priority: Priority.High,
+    reason: 'Possible security incident affecting the account.',
+    escalation: 'Escalate to the Security on-call immediately and preserve account logs.',
+    enabled: true
+  },
+  {
+    id: 'legal_medical_financial',
+    label: 'Legal, medical or financial request',
+    patterns: [
+      '\\b(lawyer|lawsuit|attorney|subpoena|legal action|court)\\b',
+      '\\b(medical (records?|data|advice|information)|patient (data|records?|information)|health records?|hipaa|diagnos(is|ed with))\\b',
+      '\\b(tax advice|investment advice|financial advice|loan application|mortgage application)\\b'
+    ],
+    min_priority: Priority.High,
+    reason: 'Legal, medical or financial requests require a specialist.',
+    escalation: 'Escalate to the Legal/Compliance team for a specialist response.',
+    enabled: true
+  }
+];
+
+const PRIORITY_RANK: Record<Priority, number> = {
+  [Priority.Low]: 0,
+  [Priority.Medium]: 1,
+  [Priority.High]: 2
+};
+
+export function ruleMatches(rule: PolicyRule, input: TriageInput): boolean {
+  if (!rule.enabled) return false;
+  if (rule.tiers && !rule.tiers.includes(input.account_tier)) return false;
+  const text = customerText(input);
+  return rule.patterns.some(p => new RegExp(p, 'i').test(text));
+}
+
+/**
+ * Returns the rule that demands the highest minimum priority for this input,
+ * or null when no enabled rule fires.
+ */
+export function evaluatePolicy(input: TriageInput, rules: PolicyRule[] = DEFAULT_PRIORITY_POLICY): PolicyRule | null {
+  return rules
+    .filter(rule => ruleMatches(rule, input))
+    .reduce<PolicyRule | null>((best, rule) =>
+      !best || PRIORITY_RANK[rule.min_priority] > PRIORITY_RANK[best.min_priority] ? rule : best, null);
+}
+
+/**
+ * Cross-checks a triage result against the policy. When a rule fires, the verdict is
+ * recorded on `policy_check`; if the model's priority is below the rule's minimum it is
+ * raised, and High results without escalation instructions get the rule's instructions.
+ */
+export function applyPriorityPolicy(
+  result: TriageResult,
+  input: TriageInput,
+  rules: PolicyRule[] = DEFAULT_PRIORITY_POLICY
+): TriageResult {
+  const rule = evaluatePolicy(input, rules);
+  if (!rule) return result;
+
+  const overridden = PRIORITY_RANK[rule.min_priority] > PRIORITY_RANK[result.priority];
+  const priority = overridden ? rule.min_priority : result.priority;
+  const policy_check: PolicyCheck = {
+    rule_id: rule.id,
+    rule_label: rule.label,
+    reason: rule.reason,
+    model_priority: result.priority,
+    policy_priority: rule.min_priority,
+    overridden
+  };
+
+  return {
+    ...result,
+    priority,
+    escalation_instructions: priority === Priority.High && !result.escalation_instructions.trim()
+      ? rule.escalation
+      : result.escalation_instructions,
+    policy_check
+  };
+}
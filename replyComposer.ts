@@ -0,0 +1,70 @@
+import { ReplyDraftRequest, ReplyMacro, ReplyTone, TriageInput, TriageResult } from "./types";
+
+// --- Reply Composer ---
+// Tone presets for regenerating a reply, and canned macros with {placeholders}
+// that are merged with the AI draft before sending.
+
+export const DEFAULT_REPLY_TONE: ReplyTone = 'empathetic';
+
+export const REPLY_TONES: { id: ReplyTone; label: string; instruction: string }[] = [
+  { id: 'empathetic', label: 'Empathetic', instruction: 'empathetic and concise' },
+  { id: 'formal', label: 'Formal', instruction: 'formal and professional, no contractions or exclamation marks' },
+  { id: 'friendly', label: 'Friendly', instruction: 'warm, casual and upbeat, as if talking to a regular customer' },
+  { id: 'apologetic', label: 'Apologetic', instruction: 'openly apologetic, taking ownership of the problem before explaining next steps' },
+  { id: 'brief', label: 'Brief', instruction: 'as short as possible: two sentences at most, no pleasantries' }
+];
+
+export const toneInstruction = (tone: ReplyTone) =>
+  REPLY_TONES.find(t => t.id === tone)?.instruction || REPLY_TONES[0].instruction;
+
+/**
+ * A redraft request carrying only what the engines read, so a displayed ticket's history,
+ * notes and call recording are never sent along with it.
+ */
+export function buildReplyDraftRequest(input: TriageInput, result: TriageResult, tone: ReplyTone): ReplyDraftRequest {
+  const { summary, priority, troubleshooting_step, reply, language } = result;
+  return { input, result: { summary, priority, troubleshooting_step, reply, language }, tone };
+}
+
+export const AI_DRAFT_PLACEHOLDER = '{ai_draft}';
+
+export const DEFAULT_MACROS: ReplyMacro[] = [
+  {
+    id: 'greeting',
+    name: 'Greeting & Sign-off',
+    body: 'Hi {customer_name},\n\n{ai_draft}\n\nBest regards,\n{agent_name}'
+  },
+  {
+    id: 'refund_timeline',
+    name: 'Refund Timeline',
+    body: 'Refunds on the {plan} plan are returned to the original payment method within 5–10 business days.'
+  },
+  {
+    id: 'engineering_escalation',
+    name: 'Escalated to Engineering',
+    body: 'I have escalated ticket {ticket_id} to our engineering team and will update you within one business day.'
+  }
+];
+
+export type PlaceholderValues = Record<string, string>;
+
+export function listPlaceholders(text: string): string[] {
+  return Array.from(new Set(Array.from(text.matchAll(/\{([a-z_]+)\}/g), m => m[1])));
+}
+
+/** Replaces known placeholders; unknown or empty ones are left in place so they stay visible. */
+export function fillPlaceholders(text: string, values: PlaceholderValues): string {
+  return text.replace(/\{([a-z_]+)\}/g, (match, key: string) => values[key]?.trim() || match);
+}
+
+/**
+ * Combines a macro with the current draft: at {ai_draft} when the macro has it,
+ * otherwise the macro is appended as a new paragraph.
+ */
+export function mergeMacro(draft: string, macro: ReplyMacro, values: PlaceholderValues): string {
+  const [before, ...after] = macro.body.split(AI_DRAFT_PLACEHOLDER);
+  if (after.length === 0) {
+    return [draft.trim(), fillPlaceholders(macro.body, values)].filter(Boolean).join('\n\n');
+  }
+  return fillPlaceholders(before, values) + draft.trim() + fillPlaceholders(after.join(''), values);
+}
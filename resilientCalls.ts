@@ -0,0 +1,157 @@
+import { TriageCancelledError, TriageServiceError, TriageTimeoutError } from "./triageErrors";
+
+// --- Resilient Calls ---
+// Timeouts, cancellation and retries with jittered backoff around model and service calls,
+// and the rate limiter batch runs use to stay under an API quota.
+
+export const DEFAULT_CALL_TIMEOUT_MS = 45000;
+export const DEFAULT_CALL_RETRIES = 3;
+
+const BACKOFF_BASE_MS = 500;
+const BACKOFF_MAX_MS = 8000;
+
+export interface CallOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  retries?: number;
+  /** Called before each retry wait, e.g. to log it; retries are silent otherwise. */
+  onRetry?: (error: unknown, retry: number, delayMs: number) => void;
+}
+
+/** HTTP status of an SDK ApiError or a TriageServiceError, if the error carries one. */
+const errorStatus = (err: unknown): number | undefined => {
+  const status = (err as { status?: unknown } | null)?.status;
+  return typeof status === 'number' ? status : undefined;
+};
+
+/**
+ * Rate limits (429), server errors (5xx), timeouts and dropped connections are worth another try.
+ * The triage service already retried its own model calls, so its 502 and 504 answers are final.
+ */
+export function isRetryableError(err: unknown): boolean {
+  if (err instanceof TriageCancelledError) return false;
+  if (err instanceof TriageTimeoutError) return true;
+  if (err instanceof TriageServiceError) return err.code === 'unreachable' || [429, 500, 503].includes(err.status);
+  if (err instanceof TypeError && /fetch|network/i.test(err.message)) return true;
+  const status = errorStatus(err);
+  return status === 429 || (status !== undefined && status >= 500);
+}
+
+/** "Full jitter": a random wait up to an exponentially growing cap, so parallel clients spread out. */
+export const backoffDelay = (retry: number, random = Math.random) =>
+  Math.round(random() * Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** (retry - 1)));
+
+/** Waits `ms`, rejecting with TriageCancelledError as soon as `signal` aborts. */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new TriageCancelledError());
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new TriageCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Runs one attempt with its own AbortController, aborted by the timeout or the caller's signal.
+ * The attempt is also raced against the abort, so calls that ignore the signal still end on time.
+ */
+async function attemptWithTimeout<T>(call: (signal: AbortSignal) => Promise<T>, timeoutMs: number, outer?: AbortSignal): Promise<T> {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  outer?.addEventListener('abort', onAbort, { once: true });
+  const aborted = new Promise<never>((_, reject) => {
+    controller.signal.addEventListener('abort', () => reject(new TriageCancelledError()), { once: true });
+  });
+
+  try {
+    return await Promise.race([call(controller.signal), aborted]);
+  } catch (err) {
+    if (timedOut) throw new TriageTimeoutError(timeoutMs);
+    if (outer?.aborted) throw new TriageCancelledError();
+    throw err;
+  } finally {
+    clearTimeout(timer);
+    outer?.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * Calls `call` with a per-attempt timeout and retries retryable failures with jittered
+ * exponential backoff. Aborting `signal` stops the current attempt and any pending wait.
+ */
+export async function resilientCall<T>(call: (signal: AbortSignal) => Promise<T>, options: CallOptions = {}): Promise<T> {
+  const { signal, timeoutMs = DEFAULT_CALL_TIMEOUT_MS, retries = DEFAULT_CALL_RETRIES, onRetry } = options;
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) throw new TriageCancelledError();
+    try {
+      return await attemptWithTimeout(call, timeoutMs, signal);
+    } catch (err) {
+      if (attempt >= retries || !isRetryableError(err)) throw err;
+      const delay = backoffDelay(attempt + 1);
+      onRetry?.(err, attempt + 1, delay);
+      await sleep(delay, signal);
+    }
+  }
+}
+
+// --- Rate Limiting ---
+
+/** Resolves when the caller may start its next request. */
+export type RateLimiter = (signal?: AbortSignal) => Promise<void>;
+
+interface Waiter {
+  start: () => void;
+}
+
+/**
+ * Spaces request starts evenly at `requestsPerMinute`, shared by every caller of the limiter.
+ * Callers wait in a queue and are let through one per interval in order; a caller that is
+ * aborted while waiting leaves the queue, so it does not hold up the ones behind it.
+ */
+export function createRateLimiter(requestsPerMinute: number): RateLimiter {
+  const interval = 60000 / requestsPerMinute;
+  const queue: Waiter[] = [];
+  let lastStart = -Infinity;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const release = () => {
+    timer = undefined;
+    const next = queue.shift();
+    if (!next) return;
+    lastStart = Date.now();
+    next.start();
+    schedule();
+  };
+  const schedule = () => {
+    if (timer !== undefined || queue.length === 0) return;
+    timer = setTimeout(release, Math.max(0, lastStart + interval - Date.now()));
+  };
+
+  return signal => new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new TriageCancelledError());
+    const onAbort = () => {
+      queue.splice(queue.indexOf(waiter), 1);
+      reject(new TriageCancelledError());
+    };
+    const waiter: Waiter = {
+      start: () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    queue.push(waiter);
+    schedule();
+  });
+}
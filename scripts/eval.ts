@@ -0,0 +1,78 @@
+import { existsSync, mkdirSync, readFileSync, readdirSync, renameSync, writeFileSync } from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import { EvalReport, GoldenCase, TriageProviderId, TriageResult } from '../types';
+import { getTriageProvider } from '../triageProvider';
+import { createRecordedTriage, diffReports, formatReport, runEval } from '../evalRunner';
+import { applyPriorityPolicy } from '../priorityPolicy';
+import { KB_FILE_PATTERN, buildKnowledgeIndex, knowledgeQuery, parseArticle } from '../knowledgeBase';
+
+// Usage: npm run eval -- [--provider gemini|local|auto|recorded] [--cases file] [--record] [--attempts n] [--policy] [--kb dir]
+
+const { values } = parseArgs({
+  options: {
+    provider: { type: 'string', default: 'gemini' },
+    cases: { type: 'string', default: 'evals/golden.json' },
+    recordings: { type: 'string', default: 'evals/recordings.json' },
+    record: { type: 'boolean', default: false },
+    policy: { type: 'boolean', default: false },
+    attempts: { type: 'string' },
+    kb: { type: 'string' },
+    out: { type: 'string', default: 'evals/results' }
+  }
+});
+
+const readJson = <T,>(file: string): T => JSON.parse(readFileSync(file, 'utf8'));
+
+function loadKnowledgeFolder(dir: string) {
+  const files = readdirSync(dir, { recursive: true, encoding: 'utf8' }).filter(f => KB_FILE_PATTERN.test(f));
+  return buildKnowledgeIndex(files.map(f => parseArticle(f, readFileSync(path.join(dir, f), 'utf8'))));
+}
+
+async function main() {
+  process.env.API_KEY ||= process.env.GEMINI_API_KEY;
+
+  const cases = readJson<GoldenCase[]>(values.cases!);
+  const providerName = values.provider!;
+  if (!['gemini', 'local', 'auto', 'recorded'].includes(providerName)) {
+    throw new Error(`Unknown provider "${values.provider}"; use gemini, local, auto or recorded`);
+  }
+  const maxAttempts = values.attempts ? Number(values.attempts) : undefined;
+  if (maxAttempts !== undefined && !(Number.isInteger(maxAttempts) && maxAttempts >= 1)) {
+    throw new Error('--attempts must be a positive integer');
+  }
+
+  let triage;
+  if (providerName === 'recorded') {
+    if (!existsSync(values.recordings!)) {
+      throw new Error(`No recordings at ${values.recordings}; run with --provider gemini --record first`);
+    }
+    triage = createRecordedTriage(cases, readJson<Record<string, TriageResult>>(values.recordings!));
+  } else {
+    const provider = getTriageProvider(providerName as TriageProviderId);
+    const kb = values.kb ? loadKnowledgeFolder(values.kb) : null;
+    triage = (input: GoldenCase['input']) => provider.triage(input, { maxAttempts, knowledge: kb?.search(knowledgeQuery(input)) });
+  }
+
+  const evaluated = values.policy
+    ? async (input: GoldenCase['input']) => applyPriorityPolicy(await triage(input), input)
+    : triage;
+  const { report, recordings } = await runEval(cases, evaluated, values.policy ? `${providerName}+policy` : providerName);
+
+  mkdirSync(values.out!, { recursive: true });
+  const latestPath = path.join(values.out!, 'latest.json');
+  const previous = existsSync(latestPath) ? readJson<EvalReport>(latestPath) : null;
+  if (previous) renameSync(latestPath, path.join(values.out!, 'previous.json'));
+  writeFileSync(latestPath, JSON.stringify(report, null, 2));
+
+  if (values.record && providerName !== 'recorded') {
+    writeFileSync(values.recordings!, JSON.stringify(recordings, null, 2));
+  }
+
+  console.log(formatReport(report, previous ? diffReports(previous, report) : null));
+}
+
+main().catch(err => {
+  console.error(err.message || err);
+  process.exit(1);
+});
@@ -0,0 +1,158 @@
+#!/usr/bin/env -S npx tsx
+import { existsSync, readFileSync } from 'fs';
+import { parseArgs } from 'util';
+import { AccountTier, BatchRow, TriageProviderId } from '../types';
+import { getTriageProvider } from '../triageProvider';
+import { DEFAULT_BATCH_CONCURRENCY, buildBatchRows, guessColumnMapping, parseTicketFile, runBatch } from '../batchService';
+import { createHistoryItem } from '../historyUtils';
+import { applyPriorityPolicy } from '../priorityPolicy';
+import { CLI_EXIT_CODES, CLI_OUTPUT_FORMATS, CliOutputFormat, cliExitCode, formatCliOutput, toCliRecord } from '../triageCli';
+import { buildEmailRows, isEmailFile, parseEmailFile, parseSenderRules } from '../emailIntake';
+import { DEFAULT_CALL_TIMEOUT_MS } from '../resilientCalls';
+
+const USAGE = `Usage: helpflow [message...] [options]
+
+Triage one message (given as arguments or on stdin) or a file of tickets.
+
+Options:
+  -f, --file <path>            CSV, JSONL, JSON, .eml or mbox file of tickets; "-" reads the file from stdin
+  -t, --tier <tier>            Free, Pro or Enterprise (default Free; file rows may set their own)
+      --senders <path>         Sender tier rules for email, one "address or @domain = Tier" per line
+  -a, --activity <text>        Recent activity summary (default for file rows without one; emails add attachment names)
+  -s, --search                 Ground the triage on Google Search
+  -o, --format <format>        json, jsonl or table (default table)
+  -p, --provider <id>          gemini, local or auto (default auto)
+  -l, --agent-language <code>  Language of agent-facing fields, e.g. de
+      --policy                 Apply the priority policy to every result
+  -c, --concurrency <n>        Tickets triaged in parallel for files (default ${DEFAULT_BATCH_CONCURRENCY})
+  -r, --rate <n>               Start at most n tickets per minute (default no limit)
+      --timeout <seconds>      Timeout of each model call (default ${DEFAULT_CALL_TIMEOUT_MS / 1000})
+  -h, --help                   Show this help
+
+Exit codes: ${CLI_EXIT_CODES.ok} all triaged, none High; ${CLI_EXIT_CODES.high} all triaged, at least one High;
+${CLI_EXIT_CODES.failed} a ticket failed; ${CLI_EXIT_CODES.usage} invalid arguments or input.`;
+
+class UsageError extends Error {}
+
+const { values, positionals } = (() => {
+  try {
+    return parseArgs({
+      allowPositionals: true,
+      options: {
+        file: { type: 'string', short: 'f' },
+        tier: { type: 'string', short: 't', default: AccountTier.Free },
+        activity: { type: 'string', short: 'a', default: '' },
+        search: { type: 'boolean', short: 's', default: false },
+        format: { type: 'string', short: 'o', default: 'table' },
+        provider: { type: 'string', short: 'p', default: 'auto' },
+        'agent-language': { type: 'string', short: 'l' },
+        policy: { type: 'boolean', default: false },
+        senders: { type: 'string' },
+        concurrency: { type: 'string', short: 'c' },
+        rate: { type: 'string', short: 'r' },
+        timeout: { type: 'string' },
+        help: { type: 'boolean', short: 'h', default: false }
+      }
+    });
+  } catch (err: any) {
+    console.error(`${err.message}\nRun helpflow --help for usage.`);
+    process.exit(CLI_EXIT_CODES.usage);
+  }
+})();
+
+async function readStdin(): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) chunks.push(chunk);
+  return Buffer.concat(chunks);
+}
+
+/** A piped email starts with an mbox envelope line or a header. */
+const EMAIL_START = /^(From \S+ |(Return-Path|Received|Delivered-To|From|To|Subject|Date|Message-ID|MIME-Version):)/i;
+
+function readSenderRules() {
+  if (!values.senders) return [];
+  if (!existsSync(values.senders)) throw new UsageError(`No such file: ${values.senders}`);
+  const { rules, errors } = parseSenderRules(readFileSync(values.senders, 'utf8'));
+  if (errors.length) throw new UsageError(`${values.senders}: ${errors.join('; ')}`);
+  return rules;
+}
+
+async function readRows(tier: AccountTier): Promise<{ rows: BatchRow[]; single: boolean }> {
+  const activity = values.activity!.trim();
+  if (positionals.length || !values.file) {
+    if (positionals.length && values.file) throw new UsageError('Pass either a message or --file, not both');
+    if (!positionals.length && process.stdin.isTTY) throw new UsageError('No message given');
+    const message = (positionals.length ? positionals.join(' ') : (await readStdin()).toString('utf8')).trim();
+    if (!message) throw new UsageError('The message is empty');
+    const input = { customer_message: message, account_tier: tier, recent_activity_summary: activity, use_search: values.search };
+    return { rows: [{ index: 0, input, status: 'pending' }], single: true };
+  }
+
+  if (values.file !== '-' && !existsSync(values.file)) throw new UsageError(`No such file: ${values.file}`);
+  const bytes = values.file === '-' ? await readStdin() : readFileSync(values.file);
+  const text = bytes.toString('utf8');
+  if (values.file === '-' ? EMAIL_START.test(text) : isEmailFile(values.file)) {
+    const emails = parseEmailFile(values.file === '-' ? 'stdin.eml' : values.file, new Uint8Array(bytes));
+    if (emails.length === 0) throw new UsageError(`${values.file} has no messages`);
+    return { rows: buildEmailRows(emails, readSenderRules(), tier, values.search!, activity), single: false };
+  }
+  // Piped files have no extension to go by; a JSON array starts with a bracket, a JSONL file with an object.
+  const start = text.trimStart()[0];
+  const name = values.file === '-' ? (start === '[' ? 'stdin.json' : start === '{' ? 'stdin.jsonl' : 'stdin.csv') : values.file;
+  const { columns, records } = parseTicketFile(name, text);
+  const mapping = guessColumnMapping(columns);
+  if (!mapping.customer_message) throw new UsageError(`No message column in ${values.file}; expected one of customer_message, message, body, description, text`);
+  if (records.length === 0) throw new UsageError(`${values.file} has no tickets`);
+  const rows = buildBatchRows(records, mapping, tier, values.search!).map(row => ({
+    ...row,
+    input: { ...row.input, recent_activity_summary: row.input.recent_activity_summary.trim() || activity }
+  }));
+  return { rows, single: false };
+}
+
+async function main(): Promise<number> {
+  if (values.help) {
+    console.log(USAGE);
+    return CLI_EXIT_CODES.ok;
+  }
+  process.env.API_KEY ||= process.env.GEMINI_API_KEY;
+
+  const tier = Object.values(AccountTier).find(t => t.toLowerCase() === values.tier!.toLowerCase());
+  if (!tier) throw new UsageError(`Unknown tier "${values.tier}"; use ${Object.values(AccountTier).join(', ')}`);
+  const format = values.format as CliOutputFormat;
+  if (!CLI_OUTPUT_FORMATS.includes(format)) throw new UsageError(`Unknown format "${values.format}"; use ${CLI_OUTPUT_FORMATS.join(', ')}`);
+  const providerId = values.provider as TriageProviderId;
+  if (!['gemini', 'local', 'auto'].includes(providerId)) throw new UsageError(`Unknown provider "${values.provider}"; use gemini, local or auto`);
+  const concurrency = values.concurrency ? Number(values.concurrency) : DEFAULT_BATCH_CONCURRENCY;
+  if (!Number.isInteger(concurrency) || concurrency < 1) throw new UsageError('--concurrency must be a positive integer');
+  const requestsPerMinute = values.rate ? Number(values.rate) : 0;
+  if (!(requestsPerMinute >= 0)) throw new UsageError('--rate must be a number of tickets per minute');
+  const timeoutMs = values.timeout ? Number(values.timeout) * 1000 : DEFAULT_CALL_TIMEOUT_MS;
+  if (!(timeoutMs > 0)) throw new UsageError('--timeout must be a positive number of seconds');
+  if (providerId === 'auto' && !process.env.API_KEY) console.error('GEMINI_API_KEY is not set; using the offline rules.');
+
+  const { rows, single } = await readRows(tier);
+  const provider = getTriageProvider(providerId);
+  // The first Ctrl-C cancels the remaining tickets and still prints what finished; a second one exits.
+  const controller = new AbortController();
+  process.once('SIGINT', () => controller.abort());
+  // Retries are reported on stderr next to the errors, so stdout stays machine-readable.
+  const onRetry = (err: unknown, retry: number, delayMs: number) =>
+    console.error(`Retry ${retry} in ${delayMs} ms after: ${err instanceof Error ? err.message : String(err)}`);
+  const results = await runBatch(rows, async (input, signal) => {
+    const result = await provider.triage(input, { agentLanguage: values['agent-language'], signal, timeoutMs, onRetry });
+    return createHistoryItem(values.policy ? applyPriorityPolicy(result, input) : result, input);
+  }, { concurrency, requestsPerMinute, signal: controller.signal });
+
+  const records = results.map(toCliRecord);
+  records.filter(r => r.error).forEach(r => console.error(`Ticket ${r.row}: ${r.error}`));
+  console.log(formatCliOutput(records, format, single));
+  return cliExitCode(records);
+}
+
+main().then(code => {
+  process.exitCode = code;
+}).catch(err => {
+  console.error(err instanceof UsageError ? `${err.message}\nRun helpflow --help for usage.` : err.message || err);
+  process.exitCode = err instanceof UsageError ? CLI_EXIT_CODES.usage : CLI_EXIT_CODES.failed;
+});
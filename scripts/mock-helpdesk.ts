@@ -0,0 +1,42 @@
+import { appendFileSync } from 'fs';
+import { createServer } from 'http';
+import { parseArgs } from 'util';
+
+// Usage: npm run mock-helpdesk -- [--port n] [--out requests.jsonl] [--status code]
+// Stands in for a helpdesk API: prints every request the triage service delivers, optionally
+// appends it to a JSONL file, and answers with --status (default 200) to test failures.
+
+const { values } = parseArgs({
+  options: {
+    port: { type: 'string', default: '8788' },
+    out: { type: 'string' },
+    status: { type: 'string', default: '200' }
+  }
+});
+
+const status = Number(values.status);
+let received = 0;
+
+const server = createServer(async (req, res) => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk);
+  const text = Buffer.concat(chunks).toString('utf8');
+  let body: unknown = text;
+  try {
+    body = text ? JSON.parse(text) : null;
+  } catch {
+    // Logged as received.
+  }
+
+  const record = { at: new Date().toISOString(), method: req.method, path: req.url, authorization: req.headers.authorization || null, body };
+  received++;
+  console.log(`#${received} ${req.method} ${req.url} -> ${status}\n${JSON.stringify(body, null, 2)}\n`);
+  if (values.out) appendFileSync(values.out, JSON.stringify(record) + '\n');
+
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(status < 400 ? { id: received } : { error: 'mock_failure' }));
+});
+
+server.listen(Number(values.port), '127.0.0.1', () => {
+  console.log(`Mock helpdesk on http://127.0.0.1:${values.port}, answering ${status}`);
+});
@@ -0,0 +1,82 @@
+import { readFileSync, readdirSync } from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import { ApiClient, HelpdeskPlatform, HelpdeskTarget, TriageCategory, TriageProviderId } from '../types';
+import { getTriageProvider } from '../triageProvider';
+import { createTriageServer, parseApiClients } from '../triageServer';
+import { getHelpdeskConnector } from '../helpdeskConnectors';
+import { DEFAULT_SERVICE_PORT } from '../triageApi';
+import { KB_FILE_PATTERN, buildKnowledgeIndex, parseArticle } from '../knowledgeBase';
+
+// Usage: npm run serve -- [--port n] [--host addr] [--provider gemini|local|auto] [--tokens file] [--kb dir] [--categories file] [--helpdesks file] [--policy] [--cors-origin origin]
+// Tokens come from --tokens (a JSON array of { "name", "token" }) or HELPFLOW_API_TOKENS ("name:token,name:token").
+
+const { values } = parseArgs({
+  options: {
+    port: { type: 'string', default: process.env.PORT || String(DEFAULT_SERVICE_PORT) },
+    host: { type: 'string', default: '127.0.0.1' },
+    provider: { type: 'string', default: 'auto' },
+    tokens: { type: 'string' },
+    kb: { type: 'string' },
+    categories: { type: 'string' },
+    helpdesks: { type: 'string' },
+    policy: { type: 'boolean', default: false },
+    'cors-origin': { type: 'string', default: '*' }
+  }
+});
+
+const readJson = <T,>(file: string): T => JSON.parse(readFileSync(file, 'utf8'));
+
+function loadKnowledgeFolder(dir: string) {
+  const files = readdirSync(dir, { recursive: true, encoding: 'utf8' }).filter(f => KB_FILE_PATTERN.test(f));
+  return buildKnowledgeIndex(files.map(f => parseArticle(f, readFileSync(path.join(dir, f), 'utf8'))));
+}
+
+type HelpdeskTargets = Partial<Record<HelpdeskPlatform, HelpdeskTarget>>;
+
+function loadHelpdesks(file: string): HelpdeskTargets {
+  const targets = readJson<HelpdeskTargets>(file);
+  for (const [platform, target] of Object.entries(targets)) {
+    if (!getHelpdeskConnector(platform)) throw new Error(`Unknown helpdesk "${platform}" in ${file}; use zendesk, freshdesk or intercom`);
+    if (!target?.url) throw new Error(`Helpdesk "${platform}" in ${file} needs a url`);
+    if (platform === 'intercom' && !target.options?.adminId) throw new Error(`Helpdesk "intercom" in ${file} needs options.adminId`);
+  }
+  return targets;
+}
+
+function main() {
+  process.env.API_KEY ||= process.env.GEMINI_API_KEY;
+
+  const providerName = values.provider as TriageProviderId;
+  if (providerName === 'remote' || !['gemini', 'local', 'auto'].includes(providerName)) {
+    throw new Error(`Unknown provider "${values.provider}"; use gemini, local or auto`);
+  }
+  const clients = values.tokens ? readJson<ApiClient[]>(values.tokens) : parseApiClients(process.env.HELPFLOW_API_TOKENS || '');
+  if (clients.length === 0) {
+    throw new Error('No API clients configured; pass --tokens or set HELPFLOW_API_TOKENS');
+  }
+  if (clients.some(c => !c.name || !c.token) || new Set(clients.map(c => c.token)).size !== clients.length) {
+    throw new Error('Every API client needs a name and its own token');
+  }
+
+  const server = createTriageServer({
+    provider: getTriageProvider(providerName),
+    clients,
+    knowledge: values.kb ? loadKnowledgeFolder(values.kb) : undefined,
+    categories: values.categories ? readJson<TriageCategory[]>(values.categories) : undefined,
+    helpdesks: values.helpdesks ? loadHelpdesks(values.helpdesks) : undefined,
+    policy: values.policy,
+    corsOrigin: values['cors-origin']
+  });
+  const port = Number(values.port);
+  server.listen(port, values.host, () => {
+    console.log(`HelpFlow triage service on http://${values.host}:${port} (${providerName}, ${clients.length} client(s))`);
+  });
+}
+
+try {
+  main();
+} catch (err: any) {
+  console.error(err.message || err);
+  process.exit(1);
+}
@@ -0,0 +1,83 @@
+import { AccountTier, HistoryItem, Priority, SlaClock, SlaPolicy, SlaState, SlaStatus, TicketStatus } from "./types";
+
+// --- SLA Policies ---
+// Response-time commitments per AccountTier x Priority, measured from HistoryItem.timestamp.
+
+const HOUR = 60;
+const DAY = 24 * HOUR;
+
+export const DEFAULT_SLA_POLICY: SlaPolicy = {
+  [AccountTier.Enterprise]: {
+    [Priority.High]: { first_response_minutes: 1 * HOUR, resolution_minutes: 8 * HOUR },
+    [Priority.Medium]: { first_response_minutes: 4 * HOUR, resolution_minutes: 1 * DAY },
+    [Priority.Low]: { first_response_minutes: 8 * HOUR, resolution_minutes: 3 * DAY }
+  },
+  [AccountTier.Pro]: {
+    [Priority.High]: { first_response_minutes: 4 * HOUR, resolution_minutes: 1 * DAY },
+    [Priority.Medium]: { first_response_minutes: 8 * HOUR, resolution_minutes: 2 * DAY },
+    [Priority.Low]: { first_response_minutes: 1 * DAY, resolution_minutes: 5 * DAY }
+  },
+  [AccountTier.Free]: {
+    [Priority.High]: { first_response_minutes: 1 * DAY, resolution_minutes: 3 * DAY },
+    [Priority.Medium]: { first_response_minutes: 2 * DAY, resolution_minutes: 7 * DAY },
+    [Priority.Low]: { first_response_minutes: 3 * DAY, resolution_minutes: 14 * DAY }
+  }
+};
+
+/** A clock is at risk once less than this share of its target remains. */
+export const AT_RISK_RATIO = 0.25;
+
+/** First response counts as given when a reply is sent or the ticket first leaves the New status. */
+function firstResponseAt(item: HistoryItem): Date | undefined {
+  const entry = (item.audit || []).find(e => e.action === 'reply_sent' || (e.action === 'status' && e.from === TicketStatus.New));
+  return entry ? new Date(entry.at) : undefined;
+}
+
+function resolvedAt(item: HistoryItem): Date | undefined {
+  if (item.status !== TicketStatus.Resolved) return undefined;
+  const entry = [...(item.audit || [])].reverse().find(e => e.action === 'status' && e.to === TicketStatus.Resolved);
+  return entry ? new Date(entry.at) : undefined;
+}
+
+function clock(start: Date, targetMinutes: number, now: Date, completedAt?: Date): SlaClock {
+  const targetMs = targetMinutes * 60_000;
+  const due = new Date(start.getTime() + targetMs);
+  const remaining_ms = due.getTime() - (completedAt || now).getTime();
+  let state: SlaState;
+  if (completedAt) state = remaining_ms >= 0 ? 'met' : 'breached';
+  else if (remaining_ms < 0) state = 'breached';
+  else if (remaining_ms < targetMs * AT_RISK_RATIO) state = 'at_risk';
+  else state = 'on_track';
+  return { due, remaining_ms, state, completed_at: completedAt };
+}
+
+export function computeSla(item: HistoryItem, policy: SlaPolicy = DEFAULT_SLA_POLICY, now: Date = new Date()): SlaStatus {
+  const target = policy[item.input.account_tier]?.[item.priority] || DEFAULT_SLA_POLICY[item.input.account_tier][item.priority];
+  return {
+    first_response: clock(item.timestamp, target.first_response_minutes, now, firstResponseAt(item)),
+    resolution: clock(item.timestamp, target.resolution_minutes, now, resolvedAt(item))
+  };
+}
+
+/** The clock the agent should act on next: first response until given, then resolution. */
+export function activeClock(sla: SlaStatus): { kind: 'first_response' | 'resolution'; clock: SlaClock } | null {
+  if (!sla.first_response.completed_at) return { kind: 'first_response', clock: sla.first_response };
+  if (!sla.resolution.completed_at) return { kind: 'resolution', clock: sla.resolution };
+  return null;
+}
+
+/** Sort key for the queue: open tickets by time remaining, closed tickets last. */
+export function slaSortKey(item: HistoryItem, policy: SlaPolicy, now: Date): number {
+  const active = activeClock(computeSla(item, policy, now));
+  return active ? active.clock.remaining_ms : Number.MAX_SAFE_INTEGER;
+}
+
+export function formatDuration(ms: number): string {
+  const minutes = Math.floor(Math.abs(ms) / 60_000);
+  const days = Math.floor(minutes / DAY);
+  const hours = Math.floor((minutes % DAY) / HOUR);
+  const mins = minutes % HOUR;
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${mins}m`;
+  return `${mins}m`;
+}
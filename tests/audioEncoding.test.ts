@@ -0,0 +1,99 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  PCM_SAMPLE_RATE, concatSamples, decodeBase64, encodeBase64, encodeWav, floatToPcm16,
+  initialResamplerState, initialVadState, pcm16ToBytes, pcm16ToFloat, resample, updateVad
+} from '../audioEncoding';
+
+describe('floatToPcm16', () => {
+  it('clips out-of-range samples instead of wrapping around', () => {
+    assert.deepEqual(Array.from(floatToPcm16(Float32Array.from([1.5, -2, 1, -1, 0]))), [32767, -32768, 32767, -32768, 0]);
+  });
+});
+
+describe('PCM and base64', () => {
+  it('round-trips samples through bytes and base64', () => {
+    const pcm = Int16Array.from([0, 1, -1, 12345, -32768, 32767]);
+    const bytes = decodeBase64(encodeBase64(pcm16ToBytes(pcm)));
+    assert.deepEqual(bytes, pcm16ToBytes(pcm));
+    assert.deepEqual(Array.from(pcm16ToFloat(bytes)), Array.from(pcm, s => s / 0x8000));
+  });
+
+  it('encodes buffers larger than one fromCharCode chunk', () => {
+    const bytes = Uint8Array.from({ length: 70000 }, (_, i) => i % 256);
+    assert.deepEqual(decodeBase64(encodeBase64(bytes)), bytes);
+  });
+});
+
+describe('resample', () => {
+  const signal = Float32Array.from({ length: 4800 }, (_, i) => Math.sin(i / 7) * 0.8);
+
+  for (const fromRate of [48000, 44100, 8000]) {
+    it(`gives the same output in chunks as in one pass from ${fromRate} Hz`, () => {
+      const whole = resample(signal, fromRate, PCM_SAMPLE_RATE).output;
+      const chunks: Float32Array[] = [];
+      let state = initialResamplerState();
+      for (let i = 0; i < signal.length; i += 333) {
+        const next = resample(signal.subarray(i, i + 333), fromRate, PCM_SAMPLE_RATE, state);
+        chunks.push(next.output);
+        state = next.state;
+      }
+      const chunked = concatSamples(chunks);
+      assert.equal(chunked.length, whole.length);
+      chunked.forEach((s, i) => assert.ok(Math.abs(s - whole[i]) < 1e-6, `sample ${i}`));
+    });
+  }
+
+  it('produces the output rate', () => {
+    assert.equal(resample(signal, 48000, PCM_SAMPLE_RATE).output.length, 1600);
+  });
+});
+
+describe('encodeWav', () => {
+  it('writes a mono 16-bit PCM RIFF header', () => {
+    const wav = encodeWav(new Float32Array(100), 16000);
+    const view = new DataView(wav.buffer);
+    const ascii = (offset: number) => String.fromCharCode(...wav.subarray(offset, offset + 4));
+    assert.equal(wav.length, 44 + 200);
+    assert.equal(ascii(0), 'RIFF');
+    assert.equal(view.getUint32(4, true), 36 + 200);
+    assert.equal(ascii(8), 'WAVE');
+    assert.equal(ascii(12), 'fmt ');
+    assert.equal(view.getUint32(16, true), 16);
+    assert.equal(view.getUint16(20, true), 1);
+    assert.equal(view.getUint16(22, true), 1);
+    assert.equal(view.getUint32(24, true), 16000);
+    assert.equal(view.getUint32(28, true), 32000);
+    assert.equal(view.getUint16(32, true), 2);
+    assert.equal(view.getUint16(34, true), 16);
+    assert.equal(ascii(36), 'data');
+    assert.equal(view.getUint32(40, true), 200);
+  });
+});
+
+describe('updateVad', () => {
+  const options = { threshold: 0.1, hangoverMs: 300 };
+
+  it('keeps speaking through the hangover, then stops', () => {
+    let state = updateVad(initialVadState(), 0.5, 100, options);
+    assert.equal(state.speaking, true);
+    const speaking: boolean[] = [];
+    for (let i = 0; i < 4; i++) {
+      state = updateVad(state, 0, 100, options);
+      speaking.push(state.speaking);
+    }
+    assert.deepEqual(speaking, [true, true, true, false]);
+  });
+
+  it('resets the hangover when speech resumes', () => {
+    let state = updateVad(initialVadState(), 0.5, 100, options);
+    state = updateVad(state, 0, 100, options);
+    state = updateVad(state, 0, 100, options);
+    state = updateVad(state, 0.5, 100, options);
+    assert.deepEqual(state, { speaking: true, silentMs: 0 });
+  });
+
+  it('does not start speaking on silence', () => {
+    assert.equal(updateVad(initialVadState(), 0.05, 100, options).speaking, false);
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseTicketFile } from '../batchService';
+
+describe('parseTicketFile', () => {
+  it('reads a .json array of tickets across several lines', () => {
+    const text = JSON.stringify([{ message: 'App crashes', tier: 'Pro' }, { message: 'Refund please', meta: { id: 2 } }], null, 2);
+    assert.deepEqual(parseTicketFile('tickets.json', text), {
+      columns: ['message', 'tier', 'meta'],
+      records: [
+        { message: 'App crashes', tier: 'Pro', meta: '' },
+        { message: 'Refund please', tier: '', meta: '{"id":2}' }
+      ]
+    });
+  });
+
+  it('reads a single .json ticket and rejects non-objects', () => {
+    assert.equal(parseTicketFile('one.json', '{"message":"Hi"}').records.length, 1);
+    assert.throws(() => parseTicketFile('bad.json', '[{"message":"Hi"}, 3]'), /Ticket 2/);
+    assert.throws(() => parseTicketFile('bad.json', '[{"message":'), /Invalid JSON file/);
+  });
+
+  it('reads JSONL and CSV by extension', () => {
+    assert.deepEqual(parseTicketFile('t.jsonl', '{"message":"a"}\n{"message":"b"}\n').records, [{ message: 'a' }, { message: 'b' }]);
+    assert.deepEqual(parseTicketFile('t.csv', 'message,tier\n"Hello, there",Free\n').records, [{ message: 'Hello, there', tier: 'Free' }]);
+  });
+
+  it('rejects JSONL lines that are not objects, naming the line', () => {
+    assert.equal(parseTicketFile('tickets.jsonl', '{"message":"Hi"}\n\n{"message":"Bye"}').records.length, 2);
+    assert.throws(() => parseTicketFile('tickets.jsonl', '{"message":"Hi"}\nnull'), /Line 2 is not a JSON object/);
+    assert.throws(() => parseTicketFile('tickets.jsonl', '42'), /Line 1 is not a JSON object/);
+    assert.throws(() => parseTicketFile('tickets.jsonl', '{"message":"Hi"}\n\n["a"]'), /Line 3 is not a JSON object/);
+    assert.throws(() => parseTicketFile('tickets.jsonl', '{"message":'), /Invalid JSON on line 1/);
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AccountTier, ParsedEmail } from '../types';
+import { buildEmailRows, emailToTriageInput, parseEmailFile, stripSignature } from '../emailIntake';
+
+const email = (overrides: Partial<ParsedEmail> = {}): ParsedEmail => ({
+  from: { name: 'Ana', address: 'ana@acme.com' },
+  subject: 'Export broken',
+  date: '',
+  message_id: '<1@acme.com>',
+  text: 'The CSV export fails every time.',
+  attachments: [],
+  ...overrides
+});
+
+describe('emailToTriageInput', () => {
+  it('appends attachment names to the given activity', () => {
+    const input = emailToTriageInput(email({ attachments: ['error.png', 'log.txt'] }), AccountTier.Pro, false, 'Upgraded yesterday');
+    assert.equal(input.recent_activity_summary, 'Upgraded yesterday; Attachments: error.png, log.txt');
+    assert.equal(input.customer_message, 'Export broken\n\nThe CSV export fails every time.');
+  });
+
+  it('keeps the activity alone when there are no attachments, and the note alone without activity', () => {
+    assert.equal(emailToTriageInput(email(), AccountTier.Free, false, 'Upgraded yesterday').recent_activity_summary, 'Upgraded yesterday');
+    assert.equal(emailToTriageInput(email({ attachments: ['a.pdf'] }), AccountTier.Free).recent_activity_summary, 'Attachments: a.pdf');
+  });
+});
+
+describe('buildEmailRows', () => {
+  it('passes the activity to every row and looks up the sender tier', () => {
+    const rows = buildEmailRows(
+      [email({ attachments: ['a.pdf'] }), email({ from: { name: '', address: 'bo@other.org' }, text: '' })],
+      [{ pattern: '@acme.com', tier: AccountTier.Enterprise }],
+      AccountTier.Free,
+      false,
+      'Renewed last week'
+    );
+    assert.deepEqual(rows.map(r => [r.input.account_tier, r.input.recent_activity_summary, r.status]), [
+      [AccountTier.Enterprise, 'Renewed last week; Attachments: a.pdf', 'pending'],
+      [AccountTier.Free, 'Renewed last week', 'pending']
+    ]);
+  });
+});
+
+describe('stripSignature', () => {
+  it('keeps the body of a message that opens with a sign-off word', () => {
+    assert.equal(stripSignature('Thanks!\nThe export still fails with error 500.'), 'Thanks!\nThe export still fails with error 500.');
+  });
+
+  it('cuts a closing sign-off and the name below it', () => {
+    assert.equal(stripSignature('The export fails.\n\nThanks!\nAna'), 'The export fails.\n');
+  });
+});
+
+describe('parseEmailFile', () => {
+  const bytes = (text: string) => new TextEncoder().encode(text);
+
+  it('keeps the body of a two-line email that opens with thanks', () => {
+    const [email] = parseEmailFile('short.eml', bytes('From: ana@acme.com\r\nSubject: Export\r\n\r\nThanks!\r\nThe export fails every time.\r\n'));
+    assert.equal(email.text, 'Thanks!\nThe export fails every time.');
+  });
+
+  it('decodes a truncated base64 part instead of failing the whole mbox', () => {
+    const mbox = [
+      'From ana@acme.com Mon Jan  5 10:00:00 2026',
+      'From: ana@acme.com',
+      'Subject: Broken',
+      'Content-Transfer-Encoding: base64',
+      '',
+      // "The app crashes" in base64, cut one character into the next group.
+      'VGhlIGFwcCBjcmFzaGVzL',
+      'From bo@acme.com Mon Jan  5 11:00:00 2026',
+      'From: bo@acme.com',
+      'Subject: Refund',
+      '',
+      'Please refund the second charge.',
+      ''
+    ].join('\n');
+    const emails = parseEmailFile('inbox.mbox', bytes(mbox));
+    assert.deepEqual(emails.map(e => e.text), ['The app crashes', 'Please refund the second charge.']);
+  });
+});
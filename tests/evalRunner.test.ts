@@ -0,0 +1,27 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { GoldenCase, TriageResult } from '../types';
+import { createRecordedTriage, runEval } from '../evalRunner';
+
+const readJson = <T,>(file: string): T => JSON.parse(readFileSync(new URL(`../evals/${file}`, import.meta.url), 'utf8'));
+const golden = readJson<GoldenCase[]>('golden.json');
+const recordings = readJson<Record<string, TriageResult>>('recordings.json');
+
+describe('createRecordedTriage', () => {
+  it('has a committed recording for every golden case', () => {
+    assert.deepEqual(golden.map(c => c.id).filter(id => !recordings[id]), []);
+  });
+
+  it('replays the recordings offline and returns the recordings of the run', async () => {
+    const { report, recordings: replayed } = await runEval(golden, createRecordedTriage(golden, recordings), 'recorded');
+    assert.equal(report.total, golden.length);
+    assert.equal(report.error_count, 0);
+    assert.deepEqual(replayed, recordings);
+  });
+
+  it('fails a case that has no recording', async () => {
+    const { report } = await runEval(golden.slice(0, 1), createRecordedTriage(golden, {}), 'recorded');
+    assert.match(report.cases[0].error!, /No recorded response for case "csv-crash-pro"/);
+  });
+});
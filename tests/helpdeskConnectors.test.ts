@@ -0,0 +1,93 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { AccountTier, Priority, Sentiment, TriageResult } from '../types';
+import { HelpdeskConfigError, WebhookPayloadError, formatInternalNote, freshdeskConnector, intercomConnector, zendeskConnector } from '../helpdeskConnectors';
+
+const fixture = (name: string): unknown =>
+  JSON.parse(readFileSync(new URL(`../fixtures/helpdesk/${name}`, import.meta.url), 'utf8'));
+
+const result: TriageResult = {
+  summary: 'Customer was charged twice',
+  priority: Priority.High,
+  priority_reason: 'Duplicate billing',
+  reply: 'Sorry about the double charge, we are refunding one of them.',
+  troubleshooting_step: 'Refund the second charge',
+  escalation_instructions: 'Escalate to billing',
+  category: 'billing',
+  sentiment: Sentiment.Frustrated,
+  confidence: 0.9,
+  tags: ['billing']
+};
+
+describe('zendeskConnector', () => {
+  it('maps the recorded trigger payload and builds one ticket update', () => {
+    const ticket = zendeskConnector.parseWebhook(fixture('zendesk-ticket.json'));
+    assert.equal(ticket.ticket_id, '35436');
+    assert.equal(ticket.input.account_tier, AccountTier.Pro);
+    assert.equal(ticket.input.recent_activity_summary, 'Upgraded from Free to Pro on March 1');
+    assert.match(ticket.input.customer_message, /^It's the card ending 4242/);
+    assert.deepEqual(ticket.input.thread?.map(m => m.author), ['customer', 'agent']);
+    assert.match(ticket.input.thread![0].text, /^Charged twice this month\n\n/);
+
+    assert.deepEqual(zendeskConnector.buildUpdates(ticket.ticket_id, result), [{
+      method: 'PUT',
+      path: '/api/v2/tickets/35436.json',
+      body: {
+        ticket: {
+          priority: 'urgent',
+          comment: { body: formatInternalNote(result), public: false },
+          additional_tags: ['helpflow', 'helpflow_billing']
+        }
+      }
+    }]);
+  });
+});
+
+describe('freshdeskConnector', () => {
+  it('maps the recorded automation payload and posts a note before the priority', () => {
+    const ticket = freshdeskConnector.parseWebhook(fixture('freshdesk-ticket.json'));
+    assert.equal(ticket.ticket_id, '1187');
+    assert.equal(ticket.input.account_tier, AccountTier.Enterprise);
+    assert.equal(ticket.input.recent_activity_summary, 'Updated the desktop app to 4.2 yesterday');
+    assert.match(ticket.input.customer_message, /^Export keeps crashing the app\n\nEvery time I export/);
+    assert.equal(ticket.input.thread, undefined);
+
+    const updates = freshdeskConnector.buildUpdates(ticket.ticket_id, { ...result, priority: Priority.Medium });
+    assert.deepEqual(updates.map(u => `${u.method} ${u.path}`), ['POST /api/v2/tickets/1187/notes', 'PUT /api/v2/tickets/1187']);
+    assert.equal((updates[0].body as { private: boolean }).private, true);
+    assert.match((updates[0].body as { body: string }).body, /^<p>HelpFlow triage · Medium priority<br>/);
+    assert.deepEqual(updates[1].body, { priority: 2 });
+  });
+});
+
+describe('intercomConnector', () => {
+  it('maps the recorded notification, skipping notes, and sets the priority attribute', () => {
+    const ticket = intercomConnector.parseWebhook(fixture('intercom-conversation.json'));
+    assert.equal(ticket.ticket_id, '215468790334512');
+    assert.equal(ticket.input.account_tier, AccountTier.Free);
+    assert.equal(ticket.input.recent_activity_summary, 'Reset password twice this morning');
+    assert.match(ticket.input.customer_message, /^No email at all\./);
+    assert.deepEqual(ticket.input.thread?.map(m => m.author), ['customer', 'agent']);
+    assert.ok(!ticket.input.thread!.some(m => m.text.includes('auth logs')));
+
+    const updates = intercomConnector.buildUpdates(ticket.ticket_id, { ...result, priority: Priority.Low }, { adminId: '5017691' });
+    assert.deepEqual(updates.map(u => `${u.method} ${u.path}`), ['POST /conversations/215468790334512/reply', 'PUT /conversations/215468790334512']);
+    assert.deepEqual(
+      { ...(updates[0].body as Record<string, unknown>), body: undefined },
+      { message_type: 'note', type: 'admin', admin_id: '5017691', body: undefined }
+    );
+    assert.deepEqual(updates[1].body, { custom_attributes: { 'HelpFlow Priority': 'Low' } });
+  });
+
+  it('needs an admin id to post the note', () => {
+    assert.throws(() => intercomConnector.buildUpdates('1', result), HelpdeskConfigError);
+  });
+});
+
+describe('parseWebhook', () => {
+  it('rejects payloads without a ticket', () => {
+    assert.throws(() => zendeskConnector.parseWebhook({}), WebhookPayloadError);
+    assert.throws(() => intercomConnector.parseWebhook({ data: {} }), WebhookPayloadError);
+  });
+});
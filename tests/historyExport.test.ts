@@ -0,0 +1,54 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AccountTier, HistoryItem, Priority } from '../types';
+import { exportHistoryCsv, exportHistoryJson, parseHistoryImport } from '../historyExport';
+import { createMemoryHistoryStore } from '../historyStore';
+
+const item: HistoryItem = {
+  id: 't1',
+  timestamp: new Date(Date.UTC(2026, 0, 1)),
+  input: { customer_message: 'Charged twice', account_tier: AccountTier.Pro, recent_activity_summary: '' },
+  summary: 'Duplicate charge',
+  priority: Priority.High,
+  priority_reason: 'Duplicate billing',
+  reply: 'Refunding it.',
+  troubleshooting_step: 'Check the processor',
+  escalation_instructions: 'Escalate to Billing',
+  tags: ['vip'],
+  notes: [{ id: 'n1', text: 'Called back', author: 'sam', at: '2026-01-01T00:00:00.000Z' }],
+  grounding_sources: [{ title: 'Refunds', uri: 'https://help.example.com/refunds' }]
+};
+
+describe('parseHistoryImport', () => {
+  it('reads back its own JSON and CSV exports', () => {
+    for (const [name, text] of [['h.json', exportHistoryJson([item])], ['h.csv', exportHistoryCsv([item])]]) {
+      const { items, errors } = parseHistoryImport(name, text);
+      assert.deepEqual(errors, [], name);
+      assert.deepEqual(items.map(i => [i.id, i.tags]), [['t1', ['vip']]], name);
+    }
+  });
+
+  it('rejects list fields of the wrong shape', () => {
+    const [record] = JSON.parse(exportHistoryJson([item])).items;
+    const records = [
+      { ...record, id: 'a', tags: 'vip' },
+      { ...record, id: 'b', notes: 'hello' },
+      { ...record, id: 'c', audit: [{ action: 'created' }] },
+      { ...record, id: 'd', versions: [{ priority: 'High' }] },
+      { ...record, id: 'e', grounding_sources: [{ title: 'Refunds' }] }
+    ];
+    assert.deepEqual(parseHistoryImport('h.json', JSON.stringify(records)).errors, [
+      'Record 1: invalid tags',
+      'Record 2: invalid notes',
+      'Record 3: invalid audit',
+      'Record 4: invalid versions',
+      'Record 5: invalid grounding_sources'
+    ]);
+  });
+
+  it('imports records that the history panel can still query', async () => {
+    const { items } = parseHistoryImport('h.json', exportHistoryJson([item]));
+    const store = createMemoryHistoryStore(items);
+    assert.equal((await store.query({ tag: 'vip', text: 'called back' })).total, 1);
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AccountTier, HistoryItem, Priority, Sentiment, TicketStatus } from '../types';
+import { HISTORY_SCHEMA_VERSION, createMemoryHistoryStore, migrateRecord } from '../historyStore';
+
+const item = (n: number, overrides: Partial<HistoryItem> = {}): HistoryItem => ({
+  id: `t${n}`,
+  timestamp: new Date(Date.UTC(2026, 0, n)),
+  input: { customer_message: `Message ${n}`, account_tier: AccountTier.Free, recent_activity_summary: '' },
+  summary: `Ticket ${n}`,
+  priority: Priority.Low,
+  priority_reason: 'Reason',
+  reply: 'Reply',
+  troubleshooting_step: 'Step',
+  escalation_instructions: '',
+  ...overrides
+});
+
+describe('migrateRecord', () => {
+  it('adds the workflow fields to a version 1 record', () => {
+    const v1 = { ...item(1), timestamp: Date.UTC(2026, 0, 1), grounding_sources: [], schema_version: 1 };
+    assert.deepEqual(migrateRecord(v1), {
+      ...v1,
+      status: TicketStatus.New,
+      assignee: '',
+      notes: [],
+      audit: [{ at: '2026-01-01T00:00:00.000Z', actor: 'HelpFlow', action: 'created' }],
+      versions: [],
+      schema_version: HISTORY_SCHEMA_VERSION
+    });
+  });
+
+  it('keeps workflow fields a version 1 record already has', () => {
+    const v1 = { ...item(1), timestamp: Date.UTC(2026, 0, 1), status: TicketStatus.Resolved, assignee: 'sam', schema_version: 1 };
+    const migrated = migrateRecord(v1);
+    assert.equal(migrated.status, TicketStatus.Resolved);
+    assert.equal(migrated.assignee, 'sam');
+  });
+
+  it('converts the ISO timestamp of a legacy localStorage record', () => {
+    const migrated = migrateRecord({ ...item(2), timestamp: '2026-01-02T00:00:00.000Z' });
+    assert.equal(migrated.timestamp, Date.UTC(2026, 0, 2));
+    assert.deepEqual(migrated.grounding_sources, []);
+    assert.equal(migrated.schema_version, HISTORY_SCHEMA_VERSION);
+  });
+
+  it('leaves a current record unchanged', () => {
+    const current = migrateRecord({ ...item(3), timestamp: Date.UTC(2026, 0, 3), schema_version: 1 });
+    assert.deepEqual(migrateRecord(current), current);
+  });
+});
+
+describe('createMemoryHistoryStore', () => {
+  const store = createMemoryHistoryStore([
+    item(1, { priority: Priority.High, tags: ['Billing'], confidence: 0.9, sentiment: Sentiment.Neutral }),
+    item(2, { input: { customer_message: 'Export is slow', account_tier: AccountTier.Pro, recent_activity_summary: '' } }),
+    item(3, { priority: Priority.High, status: TicketStatus.Escalated, confidence: 0.4, sentiment: Sentiment.Angry }),
+    item(4),
+    item(5, { priority: Priority.High, confidence: 0.6 })
+  ]);
+  const ids = (page: { items: HistoryItem[] }) => page.items.map(i => i.id);
+
+  it('pages newest first and reports the total', async () => {
+    assert.deepEqual(await store.query({ offset: 1, limit: 2 }).then(ids), ['t4', 't3']);
+    assert.equal((await store.query({ offset: 4, limit: 2 })).total, 5);
+    assert.deepEqual(await store.query({ offset: 4, limit: 2 }).then(ids), ['t1']);
+  });
+
+  it('counts only matching items when filtering', async () => {
+    const page = await store.query({ priority: Priority.High, limit: 2 });
+    assert.deepEqual(ids(page), ['t5', 't3']);
+    assert.equal(page.total, 3);
+  });
+
+  it('applies each filter', async () => {
+    assert.deepEqual(await store.query({ tier: AccountTier.Pro }).then(ids), ['t2']);
+    assert.deepEqual(await store.query({ status: TicketStatus.New, priority: Priority.High }).then(ids), ['t5', 't1']);
+    assert.deepEqual(await store.query({ tag: ' billing ' }).then(ids), ['t1']);
+    assert.deepEqual(await store.query({ maxConfidence: 0.7 }).then(ids), ['t5', 't3']);
+    assert.deepEqual(await store.query({ from: new Date(Date.UTC(2026, 0, 2)), to: new Date(Date.UTC(2026, 0, 3)) }).then(ids), ['t3', 't2']);
+    assert.deepEqual(await store.query({ text: 'EXPORT' }).then(ids), ['t2']);
+  });
+
+  it('sorts before paging', async () => {
+    assert.deepEqual(await store.query({ sort: 'confidence', limit: 2 }).then(ids), ['t3', 't5']);
+    assert.deepEqual(await store.query({ sort: 'sentiment', limit: 2 }).then(ids), ['t3', 't1']);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { AccountTier, GoldenCase, Priority, TriageInput } from '../types';
+import { localReplyDraft, localTriage } from '../localTriageService';
+import { runEval } from '../evalRunner';
+
+const golden: GoldenCase[] = JSON.parse(readFileSync(new URL('../evals/golden.json', import.meta.url), 'utf8'));
+
+const input = (customer_message: string, account_tier = AccountTier.Free): TriageInput =>
+  ({ customer_message, account_tier, recent_activity_summary: '' });
+
+describe('localTriage', () => {
+  it('scores every golden case correctly with no contract violations', async () => {
+    const { report } = await runEval(golden, input => localTriage(input), 'local');
+    assert.deepEqual(report.cases.filter(c => !c.priority_correct || c.escalation_correct === false || c.violations.length), []);
+    assert.equal(report.priority_accuracy, 1);
+  });
+
+  it('returns the same result for the same input', async () => {
+    const ticket = input('I was charged twice and the app crashes', AccountTier.Pro);
+    assert.deepEqual(await localTriage(ticket), await localTriage(ticket));
+  });
+
+  it('raises crashes to High on paid tiers only', async () => {
+    assert.equal((await localTriage(input('The app crashes on launch', AccountTier.Enterprise))).priority, Priority.High);
+    assert.equal((await localTriage(input('The app crashes on launch', AccountTier.Free))).priority, Priority.Medium);
+  });
+
+  it('classifies each kind of ticket into its category', async () => {
+    const categories = await Promise.all([
+      'Someone logged in to my account from another country',
+      'All of our project files disappeared overnight',
+      'I need a refund for my subscription',
+      'The dashboard is really slow today',
+      "I can't log in since this morning",
+      'Uploading fails with an error',
+      'Can you add support for dark mode?',
+      'How do I invite a teammate?',
+      'Hello there'
+    ].map(async message => (await localTriage(input(message))).category));
+    assert.deepEqual(categories, ['security', 'data_loss', 'billing', 'performance', 'account_access', 'bug', 'feature_request', 'how_to', 'other']);
+  });
+
+  it('falls back to other for categories missing from the taxonomy', async () => {
+    const result = await localTriage(input('The dashboard is really slow today'), { categories: [{ id: 'other', label: 'Other', description: '' }] });
+    assert.equal(result.category, 'other');
+  });
+});
+
+describe('localReplyDraft', () => {
+  it('translates the toned reply, not the default one', async () => {
+    const request = { input: input('The export is broken'), result: await localTriage(input('The export is broken')) };
+    const formal = await localReplyDraft({ ...request, tone: 'formal' }, { agentLanguage: 'en' });
+    assert.match(formal.reply, /^Thank you for contacting us\./);
+    assert.equal(formal.reply_translation, '');
+
+    // German has no formal text, so the English reply is left untranslated rather than paired with another tone.
+    const forGermanAgent = await localReplyDraft({ ...request, tone: 'formal' }, { agentLanguage: 'de' });
+    assert.equal(forGermanAgent.reply, formal.reply);
+    assert.equal(forGermanAgent.reply_translation, '');
+  });
+
+  it('keeps the default tone for a reply and translation outside English', async () => {
+    const german = input('Hallo, der Export funktioniert nicht und ich brauche die Daten für einen Bericht.');
+    const draft = await localReplyDraft({ input: german, result: await localTriage(german), tone: 'brief' }, { agentLanguage: 'en' });
+    const empathetic = await localReplyDraft({ input: german, result: await localTriage(german), tone: 'empathetic' }, { agentLanguage: 'en' });
+    assert.deepEqual(draft, empathetic);
+    assert.notEqual(draft.reply_translation, '');
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AccountTier, PolicyRule, Priority, TriageInput, TriageResult } from '../types';
+import { DEFAULT_PRIORITY_POLICY, applyPriorityPolicy, evaluatePolicy } from '../priorityPolicy';
+
+const input = (customer_message: string, account_tier = AccountTier.Free, thread: TriageInput['thread'] = []): TriageInput =>
+  ({ customer_message, account_tier, recent_activity_summary: '', thread });
+
+const result = (priority: Priority, escalation_instructions = ''): TriageResult => ({
+  summary: 'Summary',
+  priority,
+  priority_reason: 'Model reason',
+  reply: 'Reply',
+  troubleshooting_step: 'Step',
+  escalation_instructions
+});
+
+describe('evaluatePolicy', () => {
+  it('fires the rule matching any customer message in the thread', () => {
+    assert.equal(evaluatePolicy(input('Someone logged in from another country'))?.id, 'security_incident');
+    assert.equal(evaluatePolicy(input('Any update?', AccountTier.Free, [
+      { author: 'customer', text: 'I was charged twice', at: '' },
+      { author: 'agent', text: 'Looking into it', at: '' }
+    ]))?.id, 'duplicate_billing');
+    assert.equal(evaluatePolicy(input('How do I export a report?')), null);
+  });
+
+  it('applies tier limits and skips disabled rules', () => {
+    assert.equal(evaluatePolicy(input('The app crashes on start', AccountTier.Free)), null);
+    assert.equal(evaluatePolicy(input('The app crashes on start', AccountTier.Pro))?.id, 'paid_tier_crash');
+    const rules = DEFAULT_PRIORITY_POLICY.map(r => ({ ...r, enabled: r.id !== 'data_loss' }));
+    assert.equal(evaluatePolicy(input('All my files were deleted'), rules), null);
+  });
+
+  it('does not fire on ordinary tickets that share a word with a rule', () => {
+    for (const message of [
+      'please be patient with me, how do I change my avatar',
+      'I ran diagnostics and the app seems fine, but the sidebar is empty',
+      'I deleted a tag by mistake',
+      'Can I get an invoice for my loan repayment export',
+      'Where is the setting for deleted items in the trash?'
+    ]) {
+      assert.equal(evaluatePolicy(input(message)), null, message);
+    }
+  });
+
+  it('still fires on data loss, medical and financial phrasings', () => {
+    for (const [message, id] of [
+      ['I deleted all my files by accident and need them back', 'data_loss'],
+      ['All of our project files disappeared overnight', 'data_loss'],
+      ['The export left us with corrupted data', 'data_loss'],
+      ['Our patient data is visible to other clinics', 'legal_medical_financial'],
+      ['Can your tool help with my loan application?', 'legal_medical_financial']
+    ]) {
+      assert.equal(evaluatePolicy(input(message))?.id, id, message);
+    }
+  });
+
+  it('prefers the rule with the highest minimum priority', () => {
+    const medium: PolicyRule = { ...DEFAULT_PRIORITY_POLICY[0], id: 'medium', min_priority: Priority.Medium, patterns: ['files'] };
+    assert.equal(evaluatePolicy(input('All my files were deleted'), [medium, DEFAULT_PRIORITY_POLICY[0]])?.id, 'data_loss');
+  });
+});
+
+describe('applyPriorityPolicy', () => {
+  it('raises a lower priority and fills in missing escalation instructions', () => {
+    const checked = applyPriorityPolicy(result(Priority.Low), input('We were double charged'));
+    assert.equal(checked.priority, Priority.High);
+    assert.equal(checked.escalation_instructions, 'Escalate to Billing to verify and refund the duplicate charge.');
+    assert.deepEqual(checked.policy_check, {
+      rule_id: 'duplicate_billing',
+      rule_label: 'Duplicate billing',
+      reason: 'Customer reports a duplicate charge.',
+      model_priority: Priority.Low,
+      policy_priority: Priority.High,
+      overridden: true
+    });
+  });
+
+  it('records agreement without changing the model\'s priority or escalation', () => {
+    const checked = applyPriorityPolicy(result(Priority.High, 'Page the security team'), input('My account was hacked'));
+    assert.equal(checked.priority, Priority.High);
+    assert.equal(checked.escalation_instructions, 'Page the security team');
+    assert.equal(checked.policy_check?.overridden, false);
+  });
+
+  it('leaves results alone when no rule fires', () => {
+    const original = result(Priority.Low);
+    assert.equal(applyPriorityPolicy(original, input('How do I change my avatar?')), original);
+  });
+});
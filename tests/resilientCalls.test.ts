@@ -0,0 +1,76 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { backoffDelay, createRateLimiter, isRetryableError, resilientCall } from '../resilientCalls';
+import { TriageCancelledError, TriageServiceError, TriageTimeoutError } from '../triageErrors';
+
+const httpError = (status: number) => Object.assign(new Error(`HTTP ${status}`), { status });
+
+describe('resilientCall', () => {
+  it('retries a 429 and reports each retry', async () => {
+    let calls = 0;
+    const retries: number[] = [];
+    const result = await resilientCall(async () => {
+      if (++calls < 3) throw httpError(429);
+      return 'ok';
+    }, { onRetry: (_, retry) => retries.push(retry) });
+    assert.equal(result, 'ok');
+    assert.deepEqual(retries, [1, 2]);
+  });
+
+  it('does not retry a 400', async () => {
+    let calls = 0;
+    await assert.rejects(resilientCall(async () => {
+      calls++;
+      throw httpError(400);
+    }), /HTTP 400/);
+    assert.equal(calls, 1);
+  });
+
+  it('times out an attempt that never answers', async () => {
+    await assert.rejects(resilientCall(() => new Promise(() => {}), { timeoutMs: 20, retries: 0 }), TriageTimeoutError);
+  });
+
+  it('stops when the signal aborts', async () => {
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 20);
+    await assert.rejects(resilientCall(() => new Promise(() => {}), { signal: controller.signal }), TriageCancelledError);
+  });
+});
+
+describe('isRetryableError', () => {
+  it('retries rate limits, server errors and unreachable services only', () => {
+    assert.equal(isRetryableError(httpError(503)), true);
+    assert.equal(isRetryableError(new TriageServiceError(0, 'unreachable', 'down')), true);
+    assert.equal(isRetryableError(new TriageServiceError(502, 'triage_failed', 'failed upstream')), false);
+    assert.equal(isRetryableError(new TriageServiceError(0, 'not_configured', 'no url')), false);
+    assert.equal(isRetryableError(new TriageCancelledError()), false);
+  });
+});
+
+describe('backoffDelay', () => {
+  it('doubles up to the cap', () => {
+    assert.deepEqual([1, 2, 3, 4, 5, 6].map(n => backoffDelay(n, () => 1)), [500, 1000, 2000, 4000, 8000, 8000]);
+  });
+});
+
+describe('createRateLimiter', () => {
+  it('spaces starts by the interval', async () => {
+    const limit = createRateLimiter(1200);
+    const start = Date.now();
+    const starts = await Promise.all([0, 1, 2].map(() => limit().then(() => Date.now() - start)));
+    assert.ok(starts[1] >= 45 && starts[2] >= 95, `starts ${starts}`);
+  });
+
+  it('gives an aborted waiter\'s slot to the next caller', async () => {
+    const limit = createRateLimiter(600);
+    const start = Date.now();
+    await limit();
+    const controller = new AbortController();
+    const aborted = limit(controller.signal);
+    const next = limit().then(() => Date.now() - start);
+    controller.abort();
+    await assert.rejects(aborted, TriageCancelledError);
+    const waited = await next;
+    assert.ok(waited >= 95 && waited < 180, `waited ${waited}ms`);
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AccountTier, HistoryItem, Priority } from '../types';
+import { parseReplyDraftRequest } from '../triageApi';
+import { buildReplyDraftRequest } from '../replyComposer';
+
+const ticket: HistoryItem = {
+  id: 't1',
+  timestamp: new Date(0),
+  input: { customer_message: 'Card 4242 4242 4242 4242 was charged twice', account_tier: AccountTier.Pro, recent_activity_summary: '' },
+  summary: 'Duplicate charge',
+  priority: Priority.High,
+  priority_reason: 'Duplicate billing',
+  reply: 'Sorry, we are refunding it.',
+  troubleshooting_step: 'Check the processor',
+  escalation_instructions: 'Escalate to Billing',
+  language: 'en',
+  notes: [{ id: 'n1', text: 'Called ana@acme.com', author: 'sam', at: '' }],
+  voice_session: { started_at: '', ended_at: '', turns: [], recording: { mime_type: 'audio/wav', data: 'AAAA', sample_rate: 16000, duration_ms: 1, started_at: '' } }
+};
+
+describe('buildReplyDraftRequest', () => {
+  it('sends only the result fields a redraft reads', () => {
+    const request = buildReplyDraftRequest(ticket.input, ticket, 'formal');
+    assert.deepEqual(request.result, {
+      summary: 'Duplicate charge',
+      priority: Priority.High,
+      troubleshooting_step: 'Check the processor',
+      reply: 'Sorry, we are refunding it.',
+      language: 'en'
+    });
+    assert.deepEqual(parseReplyDraftRequest(JSON.parse(JSON.stringify(request))).errors, []);
+  });
+});
+
+describe('parseReplyDraftRequest', () => {
+  it('rejects unknown result keys', () => {
+    const body = { input: ticket.input, result: { ...buildReplyDraftRequest(ticket.input, ticket, 'brief').result, notes: [] }, tone: 'brief' };
+    assert.deepEqual(parseReplyDraftRequest(body).errors, [{ field: 'result.notes', message: 'is not a known field' }]);
+  });
+
+  it('requires the summary, reply and priority', () => {
+    const { errors } = parseReplyDraftRequest({ input: ticket.input, result: { priority: 'Urgent' }, tone: 'brief' });
+    assert.deepEqual(errors.map(e => e.field), ['result.summary', 'result.reply', 'result.priority']);
+  });
+});
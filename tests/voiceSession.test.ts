@@ -0,0 +1,26 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createRecording } from '../voiceSession';
+import { decodeBase64 } from '../audioEncoding';
+
+const chunks = (count: number, size: number) => Array.from({ length: count }, () => new Float32Array(size).fill(0.25));
+
+describe('createRecording', () => {
+  it('keeps a short call whole', () => {
+    const recording = createRecording(chunks(4, 800), '2026-01-01T00:00:00.000Z', 16000, 1)!;
+    assert.equal(recording.duration_ms, 200);
+    assert.equal(recording.truncated, false);
+    assert.equal(decodeBase64(recording.data).length, 44 + 3200 * 2);
+  });
+
+  it('keeps only the first maxSeconds of a long call', () => {
+    const recording = createRecording(chunks(30, 800), '2026-01-01T00:00:00.000Z', 16000, 1)!;
+    assert.equal(recording.duration_ms, 1000);
+    assert.equal(recording.truncated, true);
+    assert.equal(decodeBase64(recording.data).length, 44 + 16000 * 2);
+  });
+
+  it('returns nothing when no audio was captured', () => {
+    assert.equal(createRecording([], ''), undefined);
+  });
+});
@@ -0,0 +1,113 @@
+import { HistoryItem, SentReply, TicketAuditAction, TicketAuditEntry, TicketStatus, TriageVersion } from "./types";
+
+// --- Ticket Lifecycle ---
+// Pure updates over a HistoryItem. Every change appends an entry to the audit trail.
+
+export const SYSTEM_ACTOR = 'HelpFlow';
+
+function audit(item: HistoryItem, actor: string, action: TicketAuditAction, from?: string, to?: string): TicketAuditEntry[] {
+  return [...(item.audit || []), { at: new Date().toISOString(), actor, action, from, to }];
+}
+
+/** When the item's current triage result was produced: the last re-triage, else creation. */
+function currentResultTime(item: HistoryItem): string {
+  const lastRetriage = [...(item.audit || [])].reverse().find(e => e.action === 'retriage' || e.action === 'follow_up');
+  return lastRetriage?.at || item.timestamp.toISOString();
+}
+
+/** When the current `customer_message` arrived: the last follow-up, else creation. */
+export function latestMessageTime(item: HistoryItem): string {
+  const lastFollowUp = [...(item.audit || [])].reverse().find(e => e.action === 'follow_up');
+  return lastFollowUp?.at || item.timestamp.toISOString();
+}
+
+export function snapshotVersion(item: HistoryItem): TriageVersion {
+  return {
+    summary: item.summary,
+    priority: item.priority,
+    priority_reason: item.priority_reason,
+    reply: item.reply,
+    troubleshooting_step: item.troubleshooting_step,
+    escalation_instructions: item.escalation_instructions,
+    category: item.category,
+    sentiment: item.sentiment,
+    confidence: item.confidence,
+    tags: item.tags,
+    language: item.language,
+    reply_translation: item.reply_translation,
+    grounding_sources: item.grounding_sources,
+    provider: item.provider,
+    policy_check: item.policy_check,
+    input: { ...item.input },
+    at: currentResultTime(item)
+  };
+}
+
+export function initTicket(item: HistoryItem): HistoryItem {
+  return {
+    ...item,
+    status: TicketStatus.New,
+    assignee: '',
+    notes: [],
+    audit: [{ at: item.timestamp.toISOString(), actor: SYSTEM_ACTOR, action: 'created' }],
+    versions: []
+  };
+}
+
+export function setTicketStatus(item: HistoryItem, status: TicketStatus, actor: string): HistoryItem {
+  const current = item.status || TicketStatus.New;
+  if (current === status) return item;
+  return { ...item, status, audit: audit(item, actor, 'status', current, status) };
+}
+
+export function setTicketAssignee(item: HistoryItem, assignee: string, actor: string): HistoryItem {
+  const next = assignee.trim();
+  const current = item.assignee || '';
+  if (current === next) return item;
+  return { ...item, assignee: next, audit: audit(item, actor, 'assignee', current || undefined, next || undefined) };
+}
+
+export function addTicketNote(item: HistoryItem, text: string, actor: string): HistoryItem {
+  const trimmed = text.trim();
+  if (!trimmed) return item;
+  const note = { id: Math.random().toString(36).substring(2, 9), text: trimmed, author: actor, at: new Date().toISOString() };
+  return { ...item, notes: [...(item.notes || []), note], audit: audit(item, actor, 'note', undefined, trimmed) };
+}
+
+/** Stores the final text sent to the customer, replacing any earlier sent reply. */
+export function recordSentReply(item: HistoryItem, reply: Omit<SentReply, 'at' | 'author'>, actor: string): HistoryItem {
+  const text = reply.text.trim();
+  if (!text) return item;
+  const sent_reply: SentReply = { ...reply, text, at: new Date().toISOString(), author: actor };
+  return { ...item, sent_reply, audit: audit(item, actor, 'reply_sent', undefined, reply.tone) };
+}
+
+/**
+ * Replaces the item's triage result and input with a fresh run, keeping the
+ * previous result in `versions`. Workflow fields are left untouched. Use the
+ * 'follow_up' action when the fresh run covers a new customer message.
+ */
+export function retriageTicket(item: HistoryItem, fresh: HistoryItem, actor: string, action: TicketAuditAction = 'retriage'): HistoryItem {
+  return {
+    ...item,
+    summary: fresh.summary,
+    priority: fresh.priority,
+    priority_reason: fresh.priority_reason,
+    reply: fresh.reply,
+    troubleshooting_step: fresh.troubleshooting_step,
+    escalation_instructions: fresh.escalation_instructions,
+    category: fresh.category,
+    sentiment: fresh.sentiment,
+    confidence: fresh.confidence,
+    tags: fresh.tags,
+    language: fresh.language,
+    reply_translation: fresh.reply_translation,
+    grounding_sources: fresh.grounding_sources,
+    provider: fresh.provider,
+    policy_check: fresh.policy_check,
+    redactions: fresh.redactions,
+    input: { ...fresh.input },
+    versions: [...(item.versions || []), snapshotVersion(item)],
+    audit: audit(item, actor, action, item.priority, fresh.priority)
+  };
+}
@@ -0,0 +1,203 @@
+import { AccountTier, ApiErrorBody, ApiFieldError, Priority, ReplyDraft, ReplyDraftRequest, ThreadMessage, TriageInput, TriageOptions, TriageResult, TriageServiceConfig } from "./types";
+import { TriageServiceError } from "./triageErrors";
+import { REPLY_TONES } from "./replyComposer";
+import { CallOptions, resilientCall } from "./resilientCalls";
+
+// --- Triage API ---
+// The HTTP contract of the triage service (`triageServer.ts`): request validation used by
+// the server, and the client the `remote` engine calls from the browser.
+
+export const TRIAGE_API_PATHS = {
+  health: '/health',
+  triage: '/triage',
+  reply: '/reply',
+  /** Followed by the platform, e.g. /webhooks/zendesk. */
+  webhooks: '/webhooks'
+} as const;
+
+export const DEFAULT_SERVICE_PORT = 8787;
+
+export const DEFAULT_SERVICE_CONFIG: TriageServiceConfig = { url: `http://localhost:${DEFAULT_SERVICE_PORT}`, token: '' };
+
+export const MAX_MESSAGE_CHARS = 20000;
+export const MAX_THREAD_MESSAGES = 50;
+
+const INPUT_KEYS = ['customer_message', 'account_tier', 'recent_activity_summary', 'use_search', 'use_knowledge_base', 'thread'];
+const REPLY_REQUEST_KEYS = ['input', 'result', 'tone'];
+const REPLY_RESULT_KEYS = ['summary', 'priority', 'troubleshooting_step', 'reply', 'language'];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+function checkKeys(value: Record<string, unknown>, allowed: string[], prefix: string, errors: ApiFieldError[]) {
+  for (const key of Object.keys(value)) {
+    if (!allowed.includes(key)) errors.push({ field: prefix + key, message: 'is not a known field' });
+  }
+}
+
+function checkText(value: unknown, field: string, errors: ApiFieldError[], required = true) {
+  if (value === undefined && !required) return;
+  if (typeof value !== 'string') {
+    errors.push({ field, message: value === undefined ? 'is required' : 'must be a string' });
+  } else if (required && !value.trim()) {
+    errors.push({ field, message: 'must not be empty' });
+  } else if (value.length > MAX_MESSAGE_CHARS) {
+    errors.push({ field, message: `must be at most ${MAX_MESSAGE_CHARS} characters` });
+  }
+}
+
+function checkThread(value: unknown, field: string, errors: ApiFieldError[]) {
+  if (value === undefined) return;
+  if (!Array.isArray(value)) {
+    errors.push({ field, message: 'must be an array of messages' });
+    return;
+  }
+  if (value.length > MAX_THREAD_MESSAGES) {
+    errors.push({ field, message: `must have at most ${MAX_THREAD_MESSAGES} messages` });
+  }
+  value.forEach((message, i) => {
+    const path = `${field}[${i}]`;
+    if (!isObject(message)) {
+      errors.push({ field: path, message: 'must be an object' });
+      return;
+    }
+    if (message.author !== 'customer' && message.author !== 'agent') {
+      errors.push({ field: `${path}.author`, message: 'must be "customer" or "agent"' });
+    }
+    checkText(message.text, `${path}.text`, errors);
+    if (message.at !== undefined && typeof message.at !== 'string') {
+      errors.push({ field: `${path}.at`, message: 'must be an ISO date string' });
+    }
+    checkKeys(message, ['author', 'text', 'at'], `${path}.`, errors);
+  });
+}
+
+/**
+ * Checks a request body against TriageInput. Returns a normalized copy when it is valid:
+ * a missing recent_activity_summary becomes "" and thread messages keep only author,
+ * text and at. Unknown keys are rejected so a misspelled field does not go unnoticed.
+ */
+export function parseTriageInput(value: unknown, prefix = ''): { input?: TriageInput; errors: ApiFieldError[] } {
+  const errors: ApiFieldError[] = [];
+  if (!isObject(value)) {
+    return { errors: [{ field: prefix.replace(/\.$/, '') || 'body', message: 'must be a JSON object' }] };
+  }
+
+  checkText(value.customer_message, `${prefix}customer_message`, errors);
+  if (!Object.values(AccountTier).includes(value.account_tier as AccountTier)) {
+    errors.push({ field: `${prefix}account_tier`, message: `must be one of ${Object.values(AccountTier).join(', ')}` });
+  }
+  checkText(value.recent_activity_summary, `${prefix}recent_activity_summary`, errors, false);
+  for (const key of ['use_search', 'use_knowledge_base']) {
+    if (value[key] !== undefined && typeof value[key] !== 'boolean') {
+      errors.push({ field: prefix + key, message: 'must be a boolean' });
+    }
+  }
+  checkThread(value.thread, `${prefix}thread`, errors);
+  checkKeys(value, INPUT_KEYS, prefix, errors);
+  if (errors.length) return { errors };
+
+  const thread = value.thread as Record<string, unknown>[] | undefined;
+  const input: TriageInput = {
+    customer_message: (value.customer_message as string).trim(),
+    account_tier: value.account_tier as AccountTier,
+    recent_activity_summary: ((value.recent_activity_summary as string | undefined) || '').trim()
+  };
+  if (value.use_search !== undefined) input.use_search = value.use_search as boolean;
+  if (value.use_knowledge_base !== undefined) input.use_knowledge_base = value.use_knowledge_base as boolean;
+  if (thread?.length) {
+    input.thread = thread.map(m => ({ author: m.author, text: (m.text as string).trim(), at: (m.at as string) || '' }) as ThreadMessage);
+  }
+  return { input, errors };
+}
+
+/** Checks a body against ReplyDraftRequest; `result` may carry only the fields a redraft reads. */
+export function parseReplyDraftRequest(value: unknown): { request?: ReplyDraftRequest; errors: ApiFieldError[] } {
+  if (!isObject(value)) return { errors: [{ field: 'body', message: 'must be a JSON object' }] };
+
+  const { input, errors } = parseTriageInput(value.input, 'input.');
+  const result = value.result;
+  if (!isObject(result)) {
+    errors.push({ field: 'result', message: 'must be the TriageResult being redrafted' });
+  } else {
+    checkText(result.summary, 'result.summary', errors);
+    checkText(result.reply, 'result.reply', errors);
+    checkText(result.troubleshooting_step, 'result.troubleshooting_step', errors, false);
+    if (!Object.values(Priority).includes(result.priority as Priority)) {
+      errors.push({ field: 'result.priority', message: `must be one of ${Object.values(Priority).join(', ')}` });
+    }
+    if (result.language !== undefined && typeof result.language !== 'string') {
+      errors.push({ field: 'result.language', message: 'must be an ISO 639-1 code' });
+    }
+    checkKeys(result, REPLY_RESULT_KEYS, 'result.', errors);
+  }
+  if (!REPLY_TONES.some(t => t.id === value.tone)) {
+    errors.push({ field: 'tone', message: `must be one of ${REPLY_TONES.map(t => t.id).join(', ')}` });
+  }
+  checkKeys(value, REPLY_REQUEST_KEYS, '', errors);
+  if (errors.length) return { errors };
+  const { summary, priority, troubleshooting_step, reply, language } = result as Record<string, string>;
+  return {
+    request: {
+      input: input!,
+      result: { summary, priority: priority as Priority, troubleshooting_step: troubleshooting_step || '', reply, language },
+      tone: value.tone as ReplyDraftRequest['tone']
+    },
+    errors
+  };
+}
+
+// --- Client ---
+
+function serviceUrl(service: TriageServiceConfig, path: string, params: Record<string, string | undefined>): string {
+  const query = new URLSearchParams(Object.entries(params).filter((e): e is [string, string] => !!e[1])).toString();
+  return `${service.url.trim().replace(/\/+$/, '')}${path}${query ? `?${query}` : ''}`;
+}
+
+async function postOnce<T>(service: TriageServiceConfig, path: string, body: unknown, params: Record<string, string | undefined>, signal: AbortSignal): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(serviceUrl(service, path, params), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${service.token.trim()}` },
+      body: JSON.stringify(body),
+      signal
+    });
+  } catch {
+    throw new TriageServiceError(0, 'unreachable', `Could not reach the triage service at ${service.url}`);
+  }
+
+  const payload: unknown = await response.json().catch(() => null);
+  if (!response.ok) {
+    const error: Partial<ApiErrorBody> = isObject(payload) ? payload : {};
+    throw new TriageServiceError(response.status, error.error || 'http_error', error.message || `Triage service answered ${response.status}`, error.details);
+  }
+  if (!isObject(payload)) {
+    throw new TriageServiceError(response.status, 'invalid_response', 'Triage service did not return a JSON object');
+  }
+  return payload as T;
+}
+
+/** Posts with a timeout, cancellation and retries on 429, 5xx and network errors. */
+function postToService<T>(
+  service: TriageServiceConfig | undefined,
+  path: string,
+  body: unknown,
+  params: Record<string, string | undefined>,
+  callOptions: CallOptions
+): Promise<T> {
+  if (!service?.url.trim()) {
+    return Promise.reject(new TriageServiceError(0, 'not_configured', 'Set the triage service URL and token in the engine settings'));
+  }
+  return resilientCall(signal => postOnce<T>(service, path, body, params, signal), callOptions);
+}
+
+/**
+ * Triage through the service. The service applies its own taxonomy and help-center index,
+ * so only the agent language is passed along, plus the call options for timeouts and cancelling.
+ */
+export const remoteTriage = (input: TriageInput, options: TriageOptions = {}): Promise<TriageResult> =>
+  postToService<TriageResult>(options.service, TRIAGE_API_PATHS.triage, input, { agent_language: options.agentLanguage }, options);
+
+export const remoteReplyDraft = (request: ReplyDraftRequest, options: TriageOptions = {}): Promise<ReplyDraft> =>
+  postToService<ReplyDraft>(options.service, TRIAGE_API_PATHS.reply, request, { agent_language: options.agentLanguage }, options);
@@ -0,0 +1,62 @@
+import { TriageInput, TriageOptions, TriageResult } from "./types";
+import { DEFAULT_AGENT_LANGUAGE } from "./languageUtils";
+import { DEFAULT_CATEGORIES, withFallbackCategory } from "./triageTaxonomy";
+
+// --- Triage Cache ---
+// Triage runs at temperature 0, so the same input gives the same result; repeats are
+// answered from memory instead of costing another model call.
+
+export const TRIAGE_CACHE_SIZE = 200;
+
+const normalizeText = (text: string | undefined) => (text || '').replace(/\s+/g, ' ').trim();
+
+/**
+ * The fields of a TriageInput that reach the prompt, with whitespace collapsed and flags
+ * made explicit. Thread timestamps are dropped because the prompt does not include them.
+ */
+export function normalizeTriageInput(input: TriageInput): TriageInput {
+  return {
+    customer_message: normalizeText(input.customer_message),
+    account_tier: input.account_tier,
+    recent_activity_summary: normalizeText(input.recent_activity_summary),
+    use_search: !!input.use_search,
+    use_knowledge_base: !!input.use_knowledge_base,
+    thread: (input.thread || []).map(m => ({ author: m.author, text: normalizeText(m.text), at: '' }))
+  };
+}
+
+/** Everything else that shapes the prompt (taxonomy, agent language, help-center passages) is part of the key. */
+export function triageCacheKey(input: TriageInput, options: TriageOptions = {}): string {
+  return JSON.stringify({
+    input: normalizeTriageInput(input),
+    agent_language: options.agentLanguage || DEFAULT_AGENT_LANGUAGE,
+    categories: withFallbackCategory(options.categories || DEFAULT_CATEGORIES).map(c => [c.id, c.description || c.label]),
+    knowledge: (options.knowledge || []).map(p => [p.article_id, p.text])
+  });
+}
+
+export interface TriageCache {
+  get: (key: string) => TriageResult | undefined;
+  set: (key: string, result: TriageResult) => void;
+  clear: () => void;
+}
+
+/** A least-recently-used cache; results are copied in and out so callers cannot change a cached entry. */
+export function createTriageCache(maxEntries = TRIAGE_CACHE_SIZE): TriageCache {
+  const entries = new Map<string, TriageResult>();
+  return {
+    get: key => {
+      const result = entries.get(key);
+      if (!result) return undefined;
+      entries.delete(key);
+      entries.set(key, result);
+      return structuredClone(result);
+    },
+    set: (key, result) => {
+      entries.delete(key);
+      entries.set(key, structuredClone(result));
+      if (entries.size > maxEntries) entries.delete(entries.keys().next().value!);
+    },
+    clear: () => entries.clear()
+  };
+}
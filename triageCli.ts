@@ -0,0 +1,79 @@
+import { BatchRow, HistoryItem, Priority, TriageInput, TriageResult } from "./types";
+import { CONTRACT_KEYS } from "./triageValidator";
+
+// --- Triage CLI ---
+// Output formats and exit codes of the `helpflow` command (`scripts/helpflow.ts`).
+
+export type CliOutputFormat = 'json' | 'jsonl' | 'table';
+
+export const CLI_OUTPUT_FORMATS: CliOutputFormat[] = ['json', 'jsonl', 'table'];
+
+/**
+ * A failed or cancelled ticket wins over a High one, since the results are incomplete;
+ * `high` means every ticket was triaged and at least one came back High.
+ */
+export const CLI_EXIT_CODES = {
+  ok: 0,
+  failed: 1,
+  usage: 2,
+  high: 3
+} as const;
+
+export interface CliRecord {
+  row: number;
+  status: BatchRow['status'];
+  error?: string;
+  input: TriageInput;
+  result?: TriageResult;
+}
+
+const RESULT_KEYS = [...CONTRACT_KEYS, 'grounding_sources', 'provider', 'policy_check'] as const;
+
+/** The triage result of a batch row, without the ticket fields the UI adds. */
+function pickResult(item: HistoryItem): TriageResult {
+  return Object.fromEntries(RESULT_KEYS.filter(k => item[k] !== undefined).map(k => [k, item[k]])) as unknown as TriageResult;
+}
+
+export const toCliRecord = (row: BatchRow): CliRecord => ({
+  row: row.index + 1,
+  status: row.status,
+  ...(row.error ? { error: row.error } : {}),
+  input: row.input,
+  ...(row.result ? { result: pickResult(row.result) } : {})
+});
+
+export function cliExitCode(records: CliRecord[]): number {
+  if (records.some(r => r.status !== 'done')) return CLI_EXIT_CODES.failed;
+  if (records.some(r => r.result?.priority === Priority.High)) return CLI_EXIT_CODES.high;
+  return CLI_EXIT_CODES.ok;
+}
+
+const SUMMARY_CHARS = 70;
+
+const truncate = (text: string, max: number) => text.length > max ? `${text.slice(0, max - 1)}…` : text;
+
+export function formatCliTable(records: CliRecord[]): string {
+  const header = ['#', 'PRIORITY', 'CATEGORY', 'SENTIMENT', 'CONF', 'SUMMARY'];
+  const rows = records.map(r => r.result
+    ? [
+        String(r.row),
+        r.result.priority,
+        r.result.category || '',
+        r.result.sentiment || '',
+        r.result.confidence === undefined ? '' : r.result.confidence.toFixed(2),
+        truncate(r.result.summary, SUMMARY_CHARS)
+      ]
+    : [String(r.row), r.status.toUpperCase(), '', '', '', truncate(r.error || '', SUMMARY_CHARS)]
+  );
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map(row => row[i].length)));
+  return [header, ...rows]
+    .map(row => row.map((cell, i) => i === row.length - 1 ? cell : cell.padEnd(widths[i])).join('  '))
+    .join('\n');
+}
+
+/** `single` prints one JSON object instead of an array, for a message given on the command line or stdin. */
+export function formatCliOutput(records: CliRecord[], format: CliOutputFormat, single = false): string {
+  if (format === 'table') return formatCliTable(records);
+  if (format === 'jsonl') return records.map(r => JSON.stringify(r)).join('\n');
+  return JSON.stringify(single ? records[0] : records, null, 2);
+}
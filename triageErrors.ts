@@ -0,0 +1,71 @@
+import { ApiFieldError, ContractViolation } from "./types";
+
+// --- Typed Triage Errors ---
+
+export class TriageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TriageError';
+  }
+}
+
+/** The model answered with the `{"error":"unable_to_generate_valid_json"}` fallback object. */
+export class ModelRefusalError extends TriageError {
+  constructor(public readonly code: string) {
+    super(`Model could not produce a triage result (${code})`);
+    this.name = 'ModelRefusalError';
+  }
+}
+
+/** The response hit `maxOutputTokens` before the JSON object was complete. */
+export class TruncatedResponseError extends TriageError {
+  constructor(public readonly raw: string) {
+    super('Model response was truncated at the output token limit');
+    this.name = 'TruncatedResponseError';
+  }
+}
+
+/** The response contained no parseable JSON object. */
+export class ResponseParseError extends TriageError {
+  constructor(public readonly raw: string) {
+    super('Could not parse JSON response');
+    this.name = 'ResponseParseError';
+  }
+}
+
+/** The parsed result still broke the output contract after every repair attempt. */
+export class ContractViolationError extends TriageError {
+  constructor(public readonly violations: ContractViolation[], public readonly attempts: number) {
+    super(`Triage result violated the output contract after ${attempts} attempt(s): ${violations.map(v => v.message).join('; ')}`);
+    this.name = 'ContractViolationError';
+  }
+}
+
+/** The triage service answered with an error status, or could not be reached (`status` 0). */
+export class TriageServiceError extends TriageError {
+  constructor(
+    public readonly status: number,
+    public readonly code: string,
+    message: string,
+    public readonly details: ApiFieldError[] = []
+  ) {
+    super(details.length ? `${message}: ${details.map(d => `${d.field} ${d.message}`).join('; ')}` : message);
+    this.name = 'TriageServiceError';
+  }
+}
+
+/** A model or service call did not answer within its timeout. */
+export class TriageTimeoutError extends TriageError {
+  constructor(public readonly timeoutMs: number) {
+    super(`The request timed out after ${timeoutMs / 1000}s`);
+    this.name = 'TriageTimeoutError';
+  }
+}
+
+/** The caller aborted the request, e.g. with the Cancel button. */
+export class TriageCancelledError extends TriageError {
+  constructor() {
+    super('The request was cancelled');
+    this.name = 'TriageCancelledError';
+  }
+}
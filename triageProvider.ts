@@ -0,0 +1,59 @@
+import { ReplyDraft, ReplyDraftRequest, TriageInput, TriageOptions, TriageProvider, TriageProviderId, TriageResult } from "./types";
+import { regenerateReply, triageMessage } from "./geminiService";
+import { localReplyDraft, localTriage } from "./localTriageService";
+import { remoteReplyDraft, remoteTriage } from "./triageApi";
+import { TriageCancelledError } from "./triageErrors";
+
+export const geminiProvider: TriageProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  triage: triageMessage,
+  draftReply: regenerateReply
+};
+
+export const localProvider: TriageProvider = {
+  id: 'local',
+  label: 'Offline Rules',
+  triage: localTriage,
+  draftReply: localReplyDraft
+};
+
+// Calls the HelpFlow triage service, which keeps the Gemini key on the server.
+export const remoteProvider: TriageProvider = {
+  id: 'remote',
+  label: 'HelpFlow Service',
+  triage: remoteTriage,
+  draftReply: remoteReplyDraft
+};
+
+// Uses Gemini when a key is configured and falls back to the offline rules when
+// the key is missing or the model call fails. A cancelled call is not a failure.
+export const autoProvider: TriageProvider = {
+  id: 'auto',
+  label: 'Auto (Gemini + Offline Fallback)',
+  triage: async (input: TriageInput, options?: TriageOptions): Promise<TriageResult> => {
+    if (!process.env.API_KEY) return localTriage(input, options);
+    try {
+      return await triageMessage(input, options);
+    } catch (err) {
+      if (err instanceof TriageCancelledError) throw err;
+      console.warn('Gemini triage failed, falling back to offline rules:', err);
+      return localTriage(input, options);
+    }
+  },
+  draftReply: async (request: ReplyDraftRequest, options?: TriageOptions): Promise<ReplyDraft> => {
+    if (!process.env.API_KEY) return localReplyDraft(request, options);
+    try {
+      return await regenerateReply(request, options);
+    } catch (err) {
+      if (err instanceof TriageCancelledError) throw err;
+      console.warn('Gemini reply draft failed, falling back to offline rules:', err);
+      return localReplyDraft(request, options);
+    }
+  }
+};
+
+export const TRIAGE_PROVIDERS: TriageProvider[] = [autoProvider, geminiProvider, localProvider, remoteProvider];
+
+export const getTriageProvider = (id: TriageProviderId): TriageProvider =>
+  TRIAGE_PROVIDERS.find(p => p.id === id) || autoProvider;
@@ -0,0 +1,211 @@
+import { IncomingMessage, Server, ServerResponse, createServer } from "http";
+import { createHash, timingSafeEqual } from "crypto";
+import { ApiClient, ApiErrorBody, ApiFieldError, HelpdeskConnector, HelpdeskPlatform, HelpdeskTarget, TriageCategory, TriageOptions, TriageProvider } from "./types";
+import { TriageError, TriageTimeoutError } from "./triageErrors";
+import { TRIAGE_API_PATHS, parseReplyDraftRequest, parseTriageInput } from "./triageApi";
+import { KnowledgeIndex, knowledgeQuery } from "./knowledgeBase";
+import { applyPriorityPolicy } from "./priorityPolicy";
+import { redactTriageInput, restorePii } from "./piiRedaction";
+import { HelpdeskConfigError, HelpdeskDeliveryError, WebhookPayloadError, deliverHelpdeskUpdates, getHelpdeskConnector } from "./helpdeskConnectors";
+
+// --- Triage Service ---
+// A small Node HTTP server around the triage providers, so the Gemini key stays on the
+// server and other tools can reuse the triage logic. Every endpoint except the health
+// check needs a per-client bearer token.
+
+export const MAX_BODY_BYTES = 1_000_000;
+
+export interface TriageServerConfig {
+  provider: TriageProvider;
+  clients: ApiClient[];
+  /** Help-center index used for inputs with use_knowledge_base. */
+  knowledge?: KnowledgeIndex;
+  categories?: TriageCategory[];
+  /** Apply the default priority policy to every result. */
+  policy?: boolean;
+  /** Helpdesks whose webhooks are accepted at /webhooks/<platform>; updates are sent back to them. */
+  helpdesks?: Partial<Record<HelpdeskPlatform, HelpdeskTarget>>;
+  /** Value of Access-Control-Allow-Origin, so the browser app can call the service. */
+  corsOrigin?: string;
+  log?: (line: string) => void;
+}
+
+class HttpError extends Error {
+  constructor(public readonly status: number, public readonly code: string, message: string, public readonly details?: ApiFieldError[]) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+/** Parses `name:token` pairs separated by commas or newlines, e.g. from HELPFLOW_API_TOKENS. */
+export function parseApiClients(text: string): ApiClient[] {
+  return text.split(/[,\n]/).map(s => s.trim()).filter(Boolean).map(entry => {
+    const separator = entry.indexOf(':');
+    if (separator <= 0 || separator === entry.length - 1) {
+      throw new Error(`Invalid API client "${entry}"; expected name:token`);
+    }
+    return { name: entry.slice(0, separator).trim(), token: entry.slice(separator + 1).trim() };
+  });
+}
+
+// Hashing first gives equal-length buffers, so the comparison takes the same time for any token.
+const digest = (token: string) => createHash('sha256').update(token).digest();
+
+export function authenticate(header: string | undefined, clients: ApiClient[]): ApiClient | undefined {
+  const match = /^Bearer\s+(\S+)\s*$/i.exec(header || '');
+  if (!match) return undefined;
+  const presented = digest(match[1]);
+  return clients.find(client => timingSafeEqual(digest(client.token), presented));
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  if (!/^application\/json\b/i.test(req.headers['content-type'] || '')) {
+    throw new HttpError(415, 'unsupported_media_type', 'Content-Type must be application/json');
+  }
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, 'payload_too_large', `Request body must be at most ${MAX_BODY_BYTES} bytes`);
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'invalid_json', 'Request body is not valid JSON');
+  }
+}
+
+function agentLanguage(url: URL): string | undefined {
+  const code = url.searchParams.get('agent_language');
+  if (code === null) return undefined;
+  if (!/^[a-z]{2,3}$/.test(code)) {
+    throw new HttpError(400, 'invalid_request', 'Invalid query parameter', [{ field: 'agent_language', message: 'must be a lowercase ISO 639-1 code' }]);
+  }
+  return code;
+}
+
+function invalid(errors: ApiFieldError[]): never {
+  throw new HttpError(400, 'invalid_request', 'Request body failed validation', errors);
+}
+
+const BASE_ROUTES: Record<string, string> = {
+  [TRIAGE_API_PATHS.health]: 'GET',
+  [TRIAGE_API_PATHS.triage]: 'POST',
+  [TRIAGE_API_PATHS.reply]: 'POST'
+};
+
+export function createTriageHandler(config: TriageServerConfig) {
+  const log = config.log || console.log;
+  const routes: Record<string, string> = {
+    ...BASE_ROUTES,
+    ...Object.fromEntries(Object.keys(config.helpdesks || {}).map(platform => [`${TRIAGE_API_PATHS.webhooks}/${platform}`, 'POST']))
+  };
+
+  const send = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+    res.writeHead(status, {
+      'Content-Type': 'application/json; charset=utf-8',
+      'Access-Control-Allow-Origin': config.corsOrigin || '*',
+      'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+      ...headers
+    });
+    res.end(body === undefined ? undefined : JSON.stringify(body));
+  };
+
+  const handle = async (req: IncomingMessage, url: URL, context: { client?: ApiClient }): Promise<unknown> => {
+    const method = routes[url.pathname];
+    if (!method) throw new HttpError(404, 'not_found', `No endpoint at ${url.pathname}`);
+    if (req.method !== method) throw new HttpError(405, 'method_not_allowed', `${url.pathname} only accepts ${method}`);
+    if (url.pathname === TRIAGE_API_PATHS.health) {
+      return { status: 'ok', provider: config.provider.id };
+    }
+
+    context.client = authenticate(req.headers.authorization, config.clients);
+    if (!context.client) throw new HttpError(401, 'unauthorized', 'Missing or unknown API token');
+
+    const body = await readJsonBody(req);
+    const options: TriageOptions = { categories: config.categories, agentLanguage: agentLanguage(url) };
+
+    const connector = getHelpdeskConnector(url.pathname.slice(TRIAGE_API_PATHS.webhooks.length + 1));
+    if (url.pathname.startsWith(`${TRIAGE_API_PATHS.webhooks}/`) && connector) {
+      return handleWebhook(connector, config.helpdesks![connector.platform]!, body, options);
+    }
+
+    if (url.pathname === TRIAGE_API_PATHS.triage) {
+      const { input, errors } = parseTriageInput(body);
+      if (!input) invalid(errors);
+      const knowledge = input.use_knowledge_base ? config.knowledge?.search(knowledgeQuery(input)) : undefined;
+      const result = await config.provider.triage(input, { ...options, knowledge });
+      return config.policy ? applyPriorityPolicy(result, input) : result;
+    }
+
+    const { request, errors } = parseReplyDraftRequest(body);
+    if (!request) invalid(errors);
+    return config.provider.draftReply(request, options);
+  };
+
+  // Webhook tickets carry raw customer data, so they are redacted here the way the app
+  // redacts before calling the service; the reply in the note gets the real values back.
+  const handleWebhook = async (connector: HelpdeskConnector, target: HelpdeskTarget, body: unknown, options: TriageOptions) => {
+    const ticket = connector.parseWebhook(body, target.options);
+    const { input, entries } = redactTriageInput(ticket.input);
+    const knowledge = config.knowledge?.search(knowledgeQuery(input));
+    const triaged = await config.provider.triage(input, { ...options, knowledge });
+    const checked = config.policy ? applyPriorityPolicy(triaged, ticket.input) : triaged;
+    const result = {
+      ...checked,
+      reply: restorePii(checked.reply, entries),
+      reply_translation: checked.reply_translation && restorePii(checked.reply_translation, entries)
+    };
+    const updates = connector.buildUpdates(ticket.ticket_id, result, target.options);
+    await deliverHelpdeskUpdates(target, updates);
+    return { platform: connector.platform, ticket_id: ticket.ticket_id, result, updates };
+  };
+
+  return async (req: IncomingMessage, res: ServerResponse) => {
+    const started = Date.now();
+    const url = new URL(req.url || '/', 'http://localhost');
+    if (req.method === 'OPTIONS') {
+      send(res, 204, undefined);
+      return;
+    }
+
+    const context: { client?: ApiClient } = {};
+    let status = 200;
+    try {
+      send(res, status, await handle(req, url, context));
+    } catch (err) {
+      let error: ApiErrorBody;
+      if (err instanceof HttpError) {
+        status = err.status;
+        error = { error: err.code, message: err.message, ...(err.details ? { details: err.details } : {}) };
+      } else if (err instanceof WebhookPayloadError) {
+        status = 400;
+        error = { error: 'invalid_request', message: err.message, details: err.details };
+      } else if (err instanceof HelpdeskConfigError) {
+        status = 422;
+        error = { error: 'helpdesk_not_configured', message: err.message };
+      } else if (err instanceof HelpdeskDeliveryError) {
+        status = 502;
+        error = { error: 'delivery_failed', message: err.message };
+      } else if (err instanceof TriageTimeoutError) {
+        status = 504;
+        error = { error: 'timeout', message: err.message };
+      } else if (err instanceof TriageError) {
+        status = 502;
+        error = { error: 'triage_failed', message: err.message };
+      } else {
+        status = 500;
+        error = { error: 'internal_error', message: 'Triage failed unexpectedly' };
+        console.error(err);
+      }
+      const headers: Record<string, string> = status === 401 ? { 'WWW-Authenticate': 'Bearer' }
+        : status === 405 ? { Allow: routes[url.pathname] } : {};
+      send(res, status, error, headers);
+    }
+    log(`${new Date().toISOString()} ${context.client?.name || '-'} ${req.method} ${url.pathname} ${status} ${Date.now() - started}ms`);
+  };
+}
+
+export const createTriageServer = (config: TriageServerConfig): Server => createServer(createTriageHandler(config));
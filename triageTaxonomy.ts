@@ -0,0 +1,42 @@
+import { Sentiment, TriageCategory } from "./types";
+
+// --- Category Taxonomy ---
+// The categories a ticket can be routed under. Agents can edit the list; "other"
+// is always kept so every ticket has somewhere to go.
+
+export const FALLBACK_CATEGORY_ID = 'other';
+
+export const DEFAULT_CATEGORIES: TriageCategory[] = [
+  { id: 'billing', label: 'Billing', description: 'Charges, invoices, refunds, plans and payment methods' },
+  { id: 'bug', label: 'Bug', description: 'Crashes, errors or features behaving incorrectly' },
+  { id: 'performance', label: 'Performance', description: 'Slowness, timeouts, lag or degraded service' },
+  { id: 'account_access', label: 'Account Access', description: 'Login, password, SSO, 2FA and locked accounts' },
+  { id: 'security', label: 'Security', description: 'Compromised accounts, suspicious activity, vulnerabilities' },
+  { id: 'data_loss', label: 'Data Loss', description: 'Missing, deleted or corrupted customer data' },
+  { id: 'feature_request', label: 'Feature Request', description: 'Requests for new functionality or changes' },
+  { id: 'how_to', label: 'How-To', description: 'Questions about using an existing feature' },
+  { id: FALLBACK_CATEGORY_ID, label: 'Other', description: 'Anything that fits no other category' }
+];
+
+export const SENTIMENTS = Object.values(Sentiment);
+
+/** Returns the taxonomy with the fallback category guaranteed to be present. */
+export function withFallbackCategory(categories: TriageCategory[]): TriageCategory[] {
+  return categories.some(c => c.id === FALLBACK_CATEGORY_ID)
+    ? categories
+    : [...categories, DEFAULT_CATEGORIES.find(c => c.id === FALLBACK_CATEGORY_ID)!];
+}
+
+export function slugifyCategory(label: string): string {
+  return label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+}
+
+export function categoryLabel(id: string | undefined, categories: TriageCategory[] = DEFAULT_CATEGORIES): string {
+  if (!id) return 'Uncategorized';
+  return categories.find(c => c.id === id)?.label || id;
+}
+
+/** Taxonomy block appended to the system prompt. */
+export function formatTaxonomy(categories: TriageCategory[]): string {
+  return categories.map(c => `- ${c.id}: ${c.description || c.label}`).join('\n');
+}
@@ -0,0 +1,208 @@
+import { ContractViolation, Priority, Sentiment } from "./types";
+import { ModelRefusalError, ResponseParseError, TruncatedResponseError } from "./triageErrors";
+import { DEFAULT_CATEGORIES } from "./triageTaxonomy";
+
+// --- Output Contract ---
+// Mirrors the limits promised in SYSTEM_INSTRUCTION so they can be checked after generation.
+
+export const CONTRACT_LIMITS = {
+  replyWords: 60,
+  troubleshootingStepWords: 30,
+  summaryChars: 120,
+  priorityReasonChars: 200,
+  maxTags: 5,
+  tagChars: 30
+};
+
+export const CONTRACT_KEYS = [
+  'summary',
+  'priority',
+  'priority_reason',
+  'reply',
+  'troubleshooting_step',
+  'escalation_instructions',
+  'category',
+  'sentiment',
+  'confidence',
+  'tags',
+  'language',
+  'reply_translation'
+] as const;
+
+type ContractKey = typeof CONTRACT_KEYS[number];
+
+const NON_STRING_KEYS: Partial<Record<ContractKey, 'number' | 'array'>> = { confidence: 'number', tags: 'array' };
+
+// Chinese and Japanese are written without spaces, so Han and Kana characters are
+// counted at CJK_CHARS_PER_WORD characters per word instead of as one long word.
+const CJK_CHARS = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff]/g;
+export const CJK_CHARS_PER_WORD = 2;
+
+export function countWords(text: string): number {
+  const cjkChars = text.match(CJK_CHARS)?.length || 0;
+  const rest = text.replace(CJK_CHARS, ' ').trim();
+  const spacedWords = rest ? rest.split(/\s+/).filter(t => /[\p{L}\p{N}]/u.test(t)).length : 0;
+  return spacedWords + Math.ceil(cjkChars / CJK_CHARS_PER_WORD);
+}
+
+/**
+ * Parses the raw model text into an object. Throws a typed error when the model
+ * returned its error fallback, was cut off at the token limit, or produced no JSON.
+ */
+export function parseTriageResponse(raw: string, truncated = false): Record<string, unknown> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw.trim());
+  } catch {
+    const start = raw.indexOf('{');
+    const end = raw.lastIndexOf('}');
+    try {
+      if (start === -1 || end <= start) throw new Error('No JSON object found');
+      parsed = JSON.parse(raw.slice(start, end + 1));
+    } catch {
+      throw truncated ? new TruncatedResponseError(raw) : new ResponseParseError(raw);
+    }
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new ResponseParseError(raw);
+  }
+  const obj = parsed as Record<string, unknown>;
+  if (typeof obj.error === 'string') {
+    throw new ModelRefusalError(obj.error);
+  }
+  return obj;
+}
+
+/**
+ * Checks a parsed response against every rule of the output contract.
+ * Returns an empty array when the result is valid.
+ */
+export function validateTriageResult(
+  value: Record<string, unknown>,
+  categoryIds: string[] = DEFAULT_CATEGORIES.map(c => c.id)
+): ContractViolation[] {
+  const violations: ContractViolation[] = [];
+  const add = (field: ContractViolation['field'], rule: string, message: string) =>
+    violations.push({ field, rule, message });
+
+  for (const key of CONTRACT_KEYS) {
+    const expected = NON_STRING_KEYS[key] || 'string';
+    const actual = Array.isArray(value[key]) ? 'array' : typeof value[key];
+    if (!(key in value)) {
+      add(key, 'required', `"${key}" is missing`);
+    } else if (actual !== expected) {
+      add(key, 'type', `"${key}" must be a ${expected}`);
+    }
+  }
+  for (const key of Object.keys(value)) {
+    if (!(CONTRACT_KEYS as readonly string[]).includes(key)) {
+      add('response', 'extra_key', `unexpected key "${key}"`);
+    }
+  }
+
+  const str = (key: ContractKey) => typeof value[key] === 'string' ? value[key] as string : '';
+
+  const priority = str('priority');
+  if (typeof value.priority === 'string' && !Object.values(Priority).includes(priority as Priority)) {
+    add('priority', 'enum', `"priority" must be one of ${Object.values(Priority).join('|')}, got "${priority}"`);
+  }
+
+  const summary = str('summary');
+  if (!summary.trim()) {
+    add('summary', 'non_empty', '"summary" must not be empty');
+  } else if (summary.length > CONTRACT_LIMITS.summaryChars) {
+    add('summary', 'max_chars', `"summary" is ${summary.length} characters (max ${CONTRACT_LIMITS.summaryChars})`);
+  }
+
+  const reason = str('priority_reason');
+  if (reason.length > CONTRACT_LIMITS.priorityReasonChars) {
+    add('priority_reason', 'max_chars', `"priority_reason" is ${reason.length} characters (max ${CONTRACT_LIMITS.priorityReasonChars})`);
+  }
+
+  const replyWords = countWords(str('reply'));
+  if (replyWords === 0) {
+    add('reply', 'non_empty', '"reply" must not be empty');
+  } else if (replyWords > CONTRACT_LIMITS.replyWords) {
+    add('reply', 'max_words', `"reply" is ${replyWords} words (max ${CONTRACT_LIMITS.replyWords})`);
+  }
+
+  const translationWords = countWords(str('reply_translation'));
+  if (translationWords > CONTRACT_LIMITS.replyWords) {
+    add('reply_translation', 'max_words', `"reply_translation" is ${translationWords} words (max ${CONTRACT_LIMITS.replyWords})`);
+  }
+
+  const language = str('language');
+  if (typeof value.language === 'string' && !/^[a-z]{2,3}$/.test(language)) {
+    add('language', 'format', `"language" must be a lowercase ISO 639-1 code such as "en" or "ja", got "${language}"`);
+  }
+
+  const stepWords = countWords(str('troubleshooting_step'));
+  if (stepWords > CONTRACT_LIMITS.troubleshootingStepWords) {
+    add('troubleshooting_step', 'max_words', `"troubleshooting_step" is ${stepWords} words (max ${CONTRACT_LIMITS.troubleshootingStepWords})`);
+  }
+
+  if (priority === Priority.High && !str('escalation_instructions').trim()) {
+    add('escalation_instructions', 'required_for_high', '"escalation_instructions" must not be empty when priority is High');
+  }
+
+  const category = str('category');
+  if (typeof value.category === 'string' && !categoryIds.includes(category)) {
+    add('category', 'enum', `"category" must be one of ${categoryIds.join('|')}, got "${category}"`);
+  }
+
+  const sentiment = str('sentiment');
+  if (typeof value.sentiment === 'string' && !Object.values(Sentiment).includes(sentiment as Sentiment)) {
+    add('sentiment', 'enum', `"sentiment" must be one of ${Object.values(Sentiment).join('|')}, got "${sentiment}"`);
+  }
+
+  if (typeof value.confidence === 'number' && !(value.confidence >= 0 && value.confidence <= 1)) {
+    add('confidence', 'range', `"confidence" must be between 0 and 1, got ${value.confidence}`);
+  }
+
+  if (Array.isArray(value.tags)) {
+    const tags = value.tags as unknown[];
+    if (tags.length > CONTRACT_LIMITS.maxTags) {
+      add('tags', 'max_items', `"tags" has ${tags.length} entries (max ${CONTRACT_LIMITS.maxTags})`);
+    }
+    if (tags.some(t => typeof t !== 'string' || !t.trim() || t.length > CONTRACT_LIMITS.tagChars)) {
+      add('tags', 'item', `every tag must be a non-empty string of at most ${CONTRACT_LIMITS.tagChars} characters`);
+    }
+  }
+
+  return violations;
+}
+
+/** Checks a regenerated reply: the same reply limits as the full contract, and no other keys. */
+export function validateReplyDraft(value: Record<string, unknown>): ContractViolation[] {
+  const violations: ContractViolation[] = [];
+  for (const key of ['reply', 'reply_translation'] as const) {
+    if (typeof value[key] !== 'string') {
+      violations.push({ field: key, rule: 'type', message: `"${key}" must be a string` });
+      continue;
+    }
+    const words = countWords(value[key] as string);
+    if (key === 'reply' && words === 0) {
+      violations.push({ field: key, rule: 'non_empty', message: '"reply" must not be empty' });
+    } else if (words > CONTRACT_LIMITS.replyWords) {
+      violations.push({ field: key, rule: 'max_words', message: `"${key}" is ${words} words (max ${CONTRACT_LIMITS.replyWords})` });
+    }
+  }
+  for (const key of Object.keys(value)) {
+    if (key !== 'reply' && key !== 'reply_translation') {
+      violations.push({ field: 'response', rule: 'extra_key', message: `unexpected key "${key}"` });
+    }
+  }
+  return violations;
+}
+
+/**
+ * Builds the follow-up prompt that asks the model to fix the listed violations.
+ */
+export function buildRepairPrompt(violations: ContractViolation[]): string {
+  return [
+    'Your previous response did not satisfy the output contract:',
+    ...violations.map(v => `- ${v.message}`),
+    'Return the corrected result as a single JSON object with exactly the required keys. Return ONLY JSON.'
+  ].join('\n');
+}
@@ -11,16 +11,41 @@ export enum Priority {
   Low = 'Low'
 }
 
+export enum Sentiment {
+  Positive = 'Positive',
+  Neutral = 'Neutral',
+  Frustrated = 'Frustrated',
+  Angry = 'Angry'
+}
+
+export interface TriageCategory {
+  id: string;
+  label: string;
+  description: string;
+}
+
 export interface GroundingSource {
   title: string;
   uri: string;
 }
 
+export type ThreadAuthor = 'customer' | 'agent';
+
+export interface ThreadMessage {
+  author: ThreadAuthor;
+  text: string;
+  at: string;
+}
+
 export interface TriageInput {
+  /** The latest customer message. Earlier turns of the conversation live in `thread`. */
   customer_message: string;
   account_tier: AccountTier;
   recent_activity_summary: string;
   use_search?: boolean;
+  use_knowledge_base?: boolean;
+  /** Earlier customer and agent messages, oldest first, preceding `customer_message`. */
+  thread?: ThreadMessage[];
 }
 
 export interface TriageResult {
@@ -30,16 +55,403 @@ export interface TriageResult {
   reply: string;
   troubleshooting_step: string;
   escalation_instructions: string;
+  // Classification fields; absent on tickets triaged before they were added to the contract.
+  category?: string;
+  sentiment?: Sentiment;
+  /** Model's confidence in the priority and category, 0 to 1. */
+  confidence?: number;
+  tags?: string[];
+  /** ISO 639-1 code of the customer's language; `reply` is written in it. */
+  language?: string;
+  /** `reply` translated into the agent's language, or empty when no translation is needed. */
+  reply_translation?: string;
   grounding_sources?: GroundingSource[];
+  provider?: TriageProviderId;
+  policy_check?: PolicyCheck;
+}
+
+export interface PolicyRule {
+  id: string;
+  label: string;
+  patterns: string[];
+  tiers?: AccountTier[];
+  min_priority: Priority;
+  reason: string;
+  escalation: string;
+  enabled: boolean;
+}
+
+export interface PolicyCheck {
+  rule_id: string;
+  rule_label: string;
+  reason: string;
+  model_priority: Priority;
+  policy_priority: Priority;
+  overridden: boolean;
+}
+
+export interface ContractViolation {
+  field: keyof TriageResult | 'response';
+  rule: string;
+  message: string;
+}
+
+export interface TriageOptions {
+  maxAttempts?: number;
+  /** Help-center passages retrieved for this input, injected into the prompt and returned as sources. */
+  knowledge?: KnowledgePassage[];
+  /** Category taxonomy the result must classify into; defaults to DEFAULT_CATEGORIES. */
+  categories?: TriageCategory[];
+  /** ISO 639-1 code for agent-facing fields (summary, reason, step, escalation); defaults to English. */
+  agentLanguage?: string;
+  /** Where the `remote` engine sends requests. */
+  service?: TriageServiceConfig;
+  /** Aborts the model or service call; the engine then throws TriageCancelledError. */
+  signal?: AbortSignal;
+  /** Per-attempt timeout in milliseconds; defaults to DEFAULT_CALL_TIMEOUT_MS. */
+  timeoutMs?: number;
+  /** Retries after a 429, 5xx, timeout or network error; defaults to DEFAULT_CALL_RETRIES. */
+  retries?: number;
+  /** Called before each retry, e.g. to log it. */
+  onRetry?: (error: unknown, retry: number, delayMs: number) => void;
+}
+
+export interface TriageServiceConfig {
+  /** Base URL of the triage service, e.g. http://localhost:8787. */
+  url: string;
+  /** This client's API token. */
+  token: string;
+}
+
+/** A client allowed to call the triage service, identified by its API token. */
+export interface ApiClient {
+  name: string;
+  token: string;
+}
+
+/** A request field that failed validation, with the path of the field, e.g. `thread[0].text`. */
+export interface ApiFieldError {
+  field: string;
+  message: string;
+}
+
+export interface ApiErrorBody {
+  error: string;
+  message: string;
+  details?: ApiFieldError[];
+}
+
+export interface KnowledgeArticle {
+  id: string;
+  title: string;
+  uri: string;
+  text: string;
+}
+
+export interface KnowledgePassage {
+  article_id: string;
+  title: string;
+  uri: string;
+  text: string;
+  score: number;
+}
+
+export type TriageProviderId = 'gemini' | 'local' | 'auto' | 'remote';
+
+export interface TriageProvider {
+  id: TriageProviderId;
+  label: string;
+  triage: (input: TriageInput, options?: TriageOptions) => Promise<TriageResult>;
+  /** Rewrites only the reply of an existing result in the requested tone. */
+  draftReply: (request: ReplyDraftRequest, options?: TriageOptions) => Promise<ReplyDraft>;
+}
+
+export type PiiType = 'EMAIL' | 'PHONE' | 'CARD' | 'IBAN' | 'SECRET' | 'ADDRESS';
+
+export interface RedactionEntry {
+  placeholder: string;
+  type: PiiType;
+  value: string;
+}
+
+export enum TicketStatus {
+  New = 'New',
+  InProgress = 'In Progress',
+  Escalated = 'Escalated',
+  WaitingOnCustomer = 'Waiting on Customer',
+  Resolved = 'Resolved'
+}
+
+export interface TicketNote {
+  id: string;
+  text: string;
+  author: string;
+  at: string;
+}
+
+export type TicketAuditAction = 'created' | 'status' | 'assignee' | 'note' | 'retriage' | 'follow_up' | 'reply_sent';
+
+export interface TicketAuditEntry {
+  at: string;
+  actor: string;
+  action: TicketAuditAction;
+  from?: string;
+  to?: string;
+}
+
+export interface TriageVersion extends TriageResult {
+  input: TriageInput;
+  at: string;
 }
 
 export interface HistoryItem extends TriageResult {
   id: string;
   timestamp: Date;
   input: TriageInput;
+  redactions?: Omit<RedactionEntry, 'value'>[];
+  status?: TicketStatus;
+  assignee?: string;
+  notes?: TicketNote[];
+  audit?: TicketAuditEntry[];
+  versions?: TriageVersion[];
+  sent_reply?: SentReply;
+  /** Recent tickets that look like the same issue, found when this ticket was triaged. */
+  possible_duplicates?: DuplicateMatch[];
+  /** Transcript and optional recording of the voice call this ticket came from. */
+  voice_session?: VoiceSession;
+}
+
+export interface DuplicateMatch {
+  id: string;
+  /** Cosine similarity of the customer text, 0..1. */
+  score: number;
+  summary: string;
+  priority: Priority;
+}
+
+/** A group of similar tickets, identified by its earliest ticket. */
+export interface Incident {
+  id: string;
+  ticket_ids: string[];
+  summary: string;
+  count: number;
+  high_count: number;
+  priority: Priority;
+  category?: string;
+  first_seen: Date;
+  last_seen: Date;
+}
+
+export type ReplyTone = 'empathetic' | 'formal' | 'friendly' | 'apologetic' | 'brief';
+
+/** The fields of a triage result that a reply redraft reads; nothing else is sent with the request. */
+export type ReplyDraftContext = Pick<TriageResult, 'summary' | 'priority' | 'troubleshooting_step' | 'reply' | 'language'>;
+
+export interface ReplyDraftRequest {
+  input: TriageInput;
+  result: ReplyDraftContext;
+  tone: ReplyTone;
 }
 
+export interface ReplyDraft {
+  reply: string;
+  reply_translation: string;
+}
+
+export interface ReplyMacro {
+  id: string;
+  name: string;
+  /** Text with {placeholders}; {ai_draft} marks where the AI draft goes, otherwise the macro is appended. */
+  body: string;
+}
+
+export interface SentReply {
+  text: string;
+  at: string;
+  author: string;
+  tone: ReplyTone;
+  macro_ids: string[];
+}
+
+/** One speaker turn of a live call, merged from transcription fragments. */
 export interface LiveTranscription {
   text: string;
   isUser: boolean;
+  /** ISO timestamps of the turn's first and latest fragment. */
+  at: string;
+  ended_at: string;
+  /** Closed turns are not extended by later fragments from the same speaker. */
+  closed?: boolean;
+}
+
+/** Caller audio of a live call as a base64 WAV file. */
+export interface VoiceRecording {
+  mime_type: string;
+  data: string;
+  sample_rate: number;
+  duration_ms: number;
+  /** When the first captured sample was recorded; turn offsets are measured from here. */
+  started_at: string;
+  /** Set when the call ran longer than the recording limit and only its start was kept. */
+  truncated?: boolean;
+}
+
+export interface VoiceSession {
+  started_at: string;
+  ended_at: string;
+  turns: LiveTranscription[];
+  recording?: VoiceRecording;
+}
+
+export type LiveIntakeField = 'customer_message' | 'account_tier' | 'recent_activity_summary';
+
+/** Form fields collected by the live intake agent so far. */
+export interface LiveIntakeDraft {
+  customer_message?: string;
+  account_tier?: AccountTier;
+  recent_activity_summary?: string;
+  /** Set when the agent reports that every field is filled. */
+  complete?: boolean;
+}
+
+export type BatchRowStatus = 'pending' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface BatchRow {
+  index: number;
+  input: TriageInput;
+  /** Where the row came from when it is not a file row, e.g. an email's sender and subject. */
+  source?: string;
+  status: BatchRowStatus;
+  result?: HistoryItem;
+  error?: string;
+}
+
+export interface BatchColumnMapping {
+  customer_message: string;
+  account_tier: string;
+  recent_activity_summary: string;
+}
+
+export interface EmailAddress {
+  name: string;
+  address: string;
+}
+
+/** An email message reduced to what triage needs. */
+export interface ParsedEmail {
+  from: EmailAddress;
+  subject: string;
+  /** ISO date from the Date header, or empty when missing or unparseable. */
+  date: string;
+  message_id: string;
+  /** Body text without quoted replies, signatures and disclaimers. */
+  text: string;
+  attachments: string[];
+}
+
+/** Maps a sender address, or a domain written as `@example.com`, to an account tier. */
+export interface SenderTierRule {
+  pattern: string;
+  tier: AccountTier;
+}
+
+export type HelpdeskPlatform = 'zendesk' | 'freshdesk' | 'intercom';
+
+/** A ticket received from a helpdesk webhook, mapped into triage input. */
+export interface HelpdeskTicket {
+  platform: HelpdeskPlatform;
+  ticket_id: string;
+  input: TriageInput;
+}
+
+/** One call against the helpdesk's REST API; `path` is relative to the account's base URL. */
+export interface HelpdeskRequest {
+  method: 'POST' | 'PUT';
+  path: string;
+  body: Record<string, unknown>;
+}
+
+export interface HelpdeskConnectorOptions {
+  /** Ticket field holding the customer's plan; tags and attributes naming a tier are used otherwise. */
+  tierField?: string;
+  /** Ticket field holding recent activity. */
+  activityField?: string;
+  /** Tier for tickets that name none. */
+  defaultTier?: AccountTier;
+  /** Intercom admin the internal note is posted as. */
+  adminId?: string;
+}
+
+export interface HelpdeskConnector {
+  platform: HelpdeskPlatform;
+  label: string;
+  /** Maps a webhook payload to a ticket; throws a WebhookPayloadError when required fields are missing. */
+  parseWebhook: (payload: unknown, options?: HelpdeskConnectorOptions) => HelpdeskTicket;
+  /** The internal note with the suggested reply, and the priority update, as helpdesk API calls. */
+  buildUpdates: (ticketId: string, result: TriageResult, options?: HelpdeskConnectorOptions) => HelpdeskRequest[];
+}
+
+/** Where the triage service delivers updates for one helpdesk. */
+export interface HelpdeskTarget {
+  /** Account base URL, e.g. https://acme.zendesk.com. */
+  url: string;
+  /** Sent with every request, typically Authorization. */
+  headers?: Record<string, string>;
+  options?: HelpdeskConnectorOptions;
+}
+
+export interface GoldenCase {
+  id: string;
+  input: TriageInput;
+  expected_priority: Priority;
+  expected_escalation?: boolean;
+}
+
+export interface EvalCaseResult {
+  id: string;
+  expected_priority: Priority;
+  actual_priority: Priority | null;
+  priority_correct: boolean;
+  escalation_correct: boolean | null;
+  violations: ContractViolation[];
+  error?: string;
+}
+
+export interface EvalReport {
+  run_at: string;
+  provider: string;
+  total: number;
+  priority_accuracy: number;
+  escalation_accuracy: number | null;
+  confusion_matrix: Record<Priority, Record<Priority, number>>;
+  violation_counts: Record<string, number>;
+  error_count: number;
+  cases: EvalCaseResult[];
+}
+
+export interface EvalDiff {
+  accuracy_delta: number;
+  violation_delta: number;
+  changed: { id: string; before: Priority | null; after: Priority | null; expected: Priority }[];
+}
+
+export interface SlaTarget {
+  first_response_minutes: number;
+  resolution_minutes: number;
+}
+
+export type SlaPolicy = Record<AccountTier, Record<Priority, SlaTarget>>;
+
+export type SlaState = 'met' | 'on_track' | 'at_risk' | 'breached';
+
+export interface SlaClock {
+  due: Date;
+  remaining_ms: number;
+  state: SlaState;
+  completed_at?: Date;
+}
+
+export interface SlaStatus {
+  first_response: SlaClock;
+  resolution: SlaClock;
 }
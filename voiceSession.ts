@@ -0,0 +1,80 @@
+import { LiveTranscription, VoiceRecording, VoiceSession } from "./types";
+import { PCM_SAMPLE_RATE, concatSamples, encodeBase64, encodeWav } from "./audioEncoding";
+
+// --- Voice Sessions ---
+// The Live API streams transcription in small fragments. These helpers merge them into
+// speaker turns and package a finished call for storage on its HistoryItem.
+
+export const WAV_MIME_TYPE = 'audio/wav';
+/** Caller audio kept per call; two minutes of 16 kHz WAV is about 3.8 MB on the ticket. */
+export const MAX_RECORDING_SECONDS = 120;
+
+/**
+ * Adds a transcription fragment. It extends the latest turn while the same speaker keeps
+ * talking; a speaker change or a closed turn starts a new one. Fragments carry their own
+ * spacing, so they are joined as-is and only runs of whitespace are collapsed.
+ */
+export function appendFragment(turns: LiveTranscription[], text: string, isUser: boolean, at: string): LiveTranscription[] {
+  if (!text) return turns;
+  const last = turns[turns.length - 1];
+  if (last && last.isUser === isUser && !last.closed) {
+    return [...turns.slice(0, -1), { ...last, text: (last.text + text).replace(/\s+/g, ' '), ended_at: at }];
+  }
+  const trimmed = text.trimStart();
+  return trimmed ? [...turns, { text: trimmed, isUser, at, ended_at: at }] : turns;
+}
+
+/** Closes the latest turn, e.g. when the agent finishes or is interrupted. */
+export function closeTurn(turns: LiveTranscription[]): LiveTranscription[] {
+  const last = turns[turns.length - 1];
+  if (!last || last.closed) return turns;
+  return [...turns.slice(0, -1), { ...last, text: last.text.trim(), closed: true }];
+}
+
+/** Encodes the captured audio as WAV, keeping only the first `maxSeconds` so long calls stay storable. */
+export function createRecording(
+  chunks: Float32Array[],
+  startedAt: string,
+  sampleRate = PCM_SAMPLE_RATE,
+  maxSeconds = MAX_RECORDING_SECONDS
+): VoiceRecording | undefined {
+  const captured = concatSamples(chunks);
+  if (captured.length === 0) return undefined;
+  const samples = captured.subarray(0, Math.round(maxSeconds * sampleRate));
+  return {
+    mime_type: WAV_MIME_TYPE,
+    data: encodeBase64(encodeWav(samples, sampleRate)),
+    sample_rate: sampleRate,
+    duration_ms: Math.round(samples.length / sampleRate * 1000),
+    started_at: startedAt,
+    truncated: samples.length < captured.length
+  };
+}
+
+export function buildVoiceSession(turns: LiveTranscription[], startedAt: string, recording?: VoiceRecording): VoiceSession {
+  return {
+    started_at: startedAt,
+    ended_at: new Date().toISOString(),
+    turns: closeTurn(turns).filter(t => t.text.trim()).map(({ closed, ...turn }) => ({ ...turn, text: turn.text.trim() })),
+    recording
+  };
+}
+
+export const recordingUrl = (recording: VoiceRecording) => `data:${recording.mime_type};base64,${recording.data}`;
+
+/** Seconds from the start of the recording (or the call) to the start of a turn. */
+export function turnOffset(session: VoiceSession, turn: LiveTranscription): number {
+  const start = new Date(session.recording?.started_at || session.started_at).getTime();
+  return Math.max(0, (new Date(turn.at).getTime() - start) / 1000);
+}
+
+export function formatOffset(seconds: number): string {
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+}
+
+export function formatTranscript(session: VoiceSession): string {
+  return session.turns
+    .map(turn => `[${formatOffset(turnOffset(session, turn))}] ${turn.isUser ? 'Caller' : 'Agent'}: ${turn.text}`)
+    .join('\n');
+}